@@ -11,8 +11,13 @@ import Users from "@/pages/users";
 import Coins from "@/pages/coins";
 import Raffles from "@/pages/raffles";
 import Shop from "@/pages/shop";
+import Orders from "@/pages/orders";
 import Referrals from "@/pages/referrals";
 import Logs from "@/pages/logs";
+import Conversations from "@/pages/conversations";
+import Broadcasts from "@/pages/broadcasts";
+import AuditLog from "@/pages/audit-log";
+import Admins from "@/pages/admins";
 import Settings from "@/pages/settings";
 import Themes from "@/pages/themes";
 import AdminLayout from "@/components/layout/admin-layout";
@@ -27,9 +32,14 @@ function Router() {
       <Route path="/coins" component={() => <AdminLayout><Coins /></AdminLayout>} />
       <Route path="/raffles" component={() => <AdminLayout><Raffles /></AdminLayout>} />
       <Route path="/shop" component={() => <AdminLayout><Shop /></AdminLayout>} />
+      <Route path="/orders" component={() => <AdminLayout><Orders /></AdminLayout>} />
       <Route path="/referrals" component={() => <AdminLayout><Referrals /></AdminLayout>} />
       <Route path="/themes" component={() => <AdminLayout><Themes /></AdminLayout>} />
       <Route path="/logs" component={() => <AdminLayout><Logs /></AdminLayout>} />
+      <Route path="/conversations" component={() => <AdminLayout><Conversations /></AdminLayout>} />
+      <Route path="/broadcasts" component={() => <AdminLayout><Broadcasts /></AdminLayout>} />
+      <Route path="/audit-log" component={() => <AdminLayout><AuditLog /></AdminLayout>} />
+      <Route path="/admins" component={() => <AdminLayout><Admins /></AdminLayout>} />
       <Route path="/settings" component={() => <AdminLayout><Settings /></AdminLayout>} />
       <Route component={NotFound} />
     </Switch>
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { LogOut, MonitorSmartphone } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, clearSession } from "@/lib/queryClient";
+
+interface AdminSession {
+  id: number;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+// "Chrome on Windows" from a user agent string; good enough to tell devices apart
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+export default function ActiveSessions() {
+  const { toast } = useToast();
+  const [showSignOutAll, setShowSignOutAll] = useState(false);
+
+  const { data: sessions = [], isLoading } = useQuery<AdminSession[]>({
+    queryKey: ['/api/auth/sessions'],
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/auth/sessions/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+      toast({
+        title: "Signed out",
+        description: "That device will have to sign in again",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sign out session",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const signOutAllMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', '/api/auth/sessions');
+      return response.json();
+    },
+    onSuccess: () => {
+      // This browser's session was revoked too
+      clearSession();
+      window.location.href = '/login';
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sign out everywhere",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <MonitorSmartphone className="h-5 w-5" />
+            Active Sessions
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={() => setShowSignOutAll(true)}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Log Out Everywhere
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-600">Loading sessions...</p>
+        ) : (
+          <div className="space-y-3">
+            {sessions.map((session) => (
+              <div
+                key={session.id}
+                className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg"
+              >
+                <div className="space-y-0.5">
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    {describeDevice(session.userAgent)}
+                    {session.current && <Badge variant="outline" className="ml-2">This browser</Badge>}
+                  </p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {session.ip || 'Unknown IP'} · Signed in {new Date(session.createdAt).toLocaleString()} ·
+                    Last active {new Date(session.lastUsedAt).toLocaleString()}
+                  </p>
+                </div>
+                {!session.current && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => revokeSessionMutation.mutate(session.id)}
+                    disabled={revokeSessionMutation.isPending}
+                  >
+                    Sign Out
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={showSignOutAll} onOpenChange={setShowSignOutAll}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Log out everywhere?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every device signed in to your account, including this one, will have to sign in again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => signOutAllMutation.mutate()}>
+              {signOutAllMutation.isPending ? 'Signing out...' : 'Log Out Everywhere'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
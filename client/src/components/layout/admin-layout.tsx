@@ -1,10 +1,14 @@
 import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
-import Sidebar from "./sidebar";
+import Sidebar, { navigation } from "./sidebar";
 import { useQuery } from "@tanstack/react-query";
-import { Circle } from "lucide-react";
+import { Circle, Lock } from "lucide-react";
 import { ThemeToggle } from "../theme-toggle";
 import { CoinLoadingScreen } from "@/components/ui/coin-spinner";
+import { Card, CardContent } from "@/components/ui/card";
+import { usePermissions } from "@/hooks/use-permissions";
+import TwoFactorModal from "@/components/modals/two-factor-modal";
+import { clearSession, hasSession } from "@/lib/queryClient";
 
 interface AdminLayoutProps {
   children: React.ReactNode;
@@ -17,20 +21,20 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
   const { data: admin, error } = useQuery({
     queryKey: ['/api/auth/me'],
   });
+  const { admin: currentAdmin, can } = usePermissions();
 
   useEffect(() => {
     // Check if user is authenticated
-    const token = localStorage.getItem('authToken');
-    if (!token) {
+    if (!hasSession()) {
       setLocation('/login');
       return;
     }
   }, [setLocation]);
 
   useEffect(() => {
-    // If auth query fails, redirect to login
+    // If auth query fails even after a token refresh, redirect to login
     if (error) {
-      localStorage.removeItem('authToken');
+      clearSession();
       setLocation('/login');
     }
   }, [error, setLocation]);
@@ -43,8 +47,12 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
       '/coins': 'Coin System',
       '/raffles': 'Raffles',
       '/shop': 'Shop',
+      '/orders': 'Orders',
       '/referrals': 'Referrals',
       '/logs': 'Transaction Logs',
+      '/conversations': 'Conversations',
+      '/audit-log': 'Audit Log',
+      '/admins': 'Admins',
       '/settings': 'Settings',
     };
     
@@ -55,6 +63,18 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
     return <CoinLoadingScreen message="Loading your dashboard..." />;
   }
 
+  // The API refuses everything else until an owner required to use 2FA has set it up
+  if (currentAdmin?.twoFactorSetupRequired) {
+    return (
+      <div className="min-h-screen bg-background">
+        <TwoFactorModal open required onClose={() => {}} />
+      </div>
+    );
+  }
+
+  const requiredPermission = navigation.find(item => item.href === location)?.permission;
+  const allowed = !requiredPermission || can(requiredPermission);
+
   return (
     <div className="min-h-screen flex bg-background">
       <Sidebar />
@@ -73,6 +93,9 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
                 {currentPage === 'Shop' && 'Manage shop items and purchases'}
                 {currentPage === 'Referrals' && 'Track referral system performance'}
                 {currentPage === 'Transaction Logs' && 'View all coin transactions'}
+                {currentPage === 'Broadcasts' && 'Send announcements and follow their delivery'}
+                {currentPage === 'Audit Log' && 'Every change made by an admin, and who made it'}
+                {currentPage === 'Admins' && 'Manage who can access the admin panel'}
                 {currentPage === 'Settings' && 'Configure bot settings'}
               </p>
             </div>
@@ -88,7 +111,15 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
 
         {/* Main Content */}
         <main className="flex-1 p-6 overflow-auto">
-          {children}
+          {allowed ? children : (
+            <Card>
+              <CardContent className="flex flex-col items-center py-12 text-center">
+                <Lock className="h-8 w-8 text-muted-foreground mb-3" />
+                <p className="font-medium text-foreground">You don't have access to this page</p>
+                <p className="text-sm text-muted-foreground">Ask an owner to change your role if you need it.</p>
+              </CardContent>
+            </Card>
+          )}
         </main>
       </div>
     </div>
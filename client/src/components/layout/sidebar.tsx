@@ -1,4 +1,5 @@
 import { Link, useLocation } from "wouter";
+import { useState } from "react";
 import { 
   BarChart3, 
   Users, 
@@ -10,31 +11,46 @@ import {
   Settings,
   Send,
   GraduationCap,
-  Palette
+  Palette,
+  MessageSquare,
+  ShoppingBag,
+  ScrollText,
+  ShieldCheck,
+  Megaphone
 } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
+import { usePermissions } from "@/hooks/use-permissions";
+import { ROLE_LABELS, type Permission } from "@shared/permissions";
+import ChangePasswordModal from "@/components/modals/change-password-modal";
+import TwoFactorModal from "@/components/modals/two-factor-modal";
+import { signOut } from "@/lib/queryClient";
 
-const navigation = [
+// Pages without a permission are open to every admin
+export const navigation: { name: string; href: string; icon: typeof BarChart3; permission?: Permission }[] = [
   { name: 'Dashboard', href: '/', icon: BarChart3 },
-  { name: 'Users', href: '/users', icon: Users },
-  { name: 'Coin System', href: '/coins', icon: Coins },
-  { name: 'Raffles', href: '/raffles', icon: Gift },
-  { name: 'Shop', href: '/shop', icon: Store },
-  { name: 'Referrals', href: '/referrals', icon: UserPlus },
+  { name: 'Users', href: '/users', icon: Users, permission: 'users.view' },
+  { name: 'Coin System', href: '/coins', icon: Coins, permission: 'transactions.view' },
+  { name: 'Raffles', href: '/raffles', icon: Gift, permission: 'raffles.view' },
+  { name: 'Shop', href: '/shop', icon: Store, permission: 'shop.view' },
+  { name: 'Orders', href: '/orders', icon: ShoppingBag, permission: 'orders.view' },
+  { name: 'Referrals', href: '/referrals', icon: UserPlus, permission: 'users.view' },
   { name: 'Themes', href: '/themes', icon: Palette },
-  { name: 'Transaction Logs', href: '/logs', icon: History },
-  { name: 'Settings', href: '/settings', icon: Settings },
+  { name: 'Transaction Logs', href: '/logs', icon: History, permission: 'transactions.view' },
+  { name: 'Conversations', href: '/conversations', icon: MessageSquare, permission: 'conversations.view' },
+  { name: 'Broadcasts', href: '/broadcasts', icon: Megaphone, permission: 'broadcast.send' },
+  { name: 'Audit Log', href: '/audit-log', icon: ScrollText, permission: 'audit.view' },
+  { name: 'Admins', href: '/admins', icon: ShieldCheck, permission: 'admins.manage' },
+  { name: 'Settings', href: '/settings', icon: Settings, permission: 'settings.view' },
 ];
 
 export default function Sidebar() {
   const [location] = useLocation();
   
-  const { data: admin } = useQuery({
-    queryKey: ['/api/auth/me'],
-  });
+  const { admin, can } = usePermissions();
+  const [showChangePassword, setShowChangePassword] = useState(false);
+  const [showTwoFactor, setShowTwoFactor] = useState(false);
 
-  const handleLogout = () => {
-    localStorage.removeItem('authToken');
+  const handleLogout = async () => {
+    await signOut();
     window.location.href = '/login';
   };
 
@@ -55,7 +71,7 @@ export default function Sidebar() {
 
       {/* Navigation Menu */}
       <nav className="flex-1 p-4 space-y-2">
-        {navigation.map((item) => {
+        {navigation.filter(item => !item.permission || can(item.permission)).map((item) => {
           const Icon = item.icon;
           const isActive = location === item.href;
           
@@ -84,9 +100,21 @@ export default function Sidebar() {
           </div>
           <div>
             <p className="font-medium text-foreground">{admin?.name || 'Admin User'}</p>
-            <p className="text-sm text-muted-foreground">Administrator</p>
+            <p className="text-sm text-muted-foreground">{admin ? ROLE_LABELS[admin.role] : 'Administrator'}</p>
           </div>
         </div>
+        <button
+          onClick={() => setShowChangePassword(true)}
+          className="w-full text-left text-sm text-muted-foreground hover:text-foreground px-2 py-1 rounded"
+        >
+          Change Password
+        </button>
+        <button
+          onClick={() => setShowTwoFactor(true)}
+          className="w-full text-left text-sm text-muted-foreground hover:text-foreground px-2 py-1 rounded"
+        >
+          Two-Factor Auth{admin?.twoFactorEnabled ? ' (on)' : ''}
+        </button>
         <button
           onClick={handleLogout}
           className="w-full text-left text-sm text-muted-foreground hover:text-foreground px-2 py-1 rounded"
@@ -94,6 +122,15 @@ export default function Sidebar() {
           Logout
         </button>
       </div>
+
+      <ChangePasswordModal
+        open={showChangePassword}
+        onClose={() => setShowChangePassword(false)}
+      />
+      <TwoFactorModal
+        open={showTwoFactor}
+        onClose={() => setShowTwoFactor(false)}
+      />
     </div>
   );
 }
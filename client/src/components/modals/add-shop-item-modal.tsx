@@ -7,7 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
+import { queryClient, apiRequest } from "@/lib/queryClient";
 
 interface AddShopItemModalProps {
   open: boolean;
@@ -23,25 +23,12 @@ export default function AddShopItemModal({ open, onClose }: AddShopItemModalProp
     stock: null as number | null,
     imageUrl: '',
     isActive: true,
+    requiresFulfillment: false,
   });
 
   const createItemMutation = useMutation({
     mutationFn: async (data: any) => {
-      const token = localStorage.getItem('authToken');
-      const response = await fetch('/api/shop', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify(data),
-      });
-      
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to create shop item');
-      }
-      
+      const response = await apiRequest('POST', '/api/shop', data);
       return response.json();
     },
     onSuccess: () => {
@@ -69,6 +56,7 @@ export default function AddShopItemModal({ open, onClose }: AddShopItemModalProp
       stock: null,
       imageUrl: '',
       isActive: true,
+      requiresFulfillment: false,
     });
     onClose();
   };
@@ -93,6 +81,7 @@ export default function AddShopItemModal({ open, onClose }: AddShopItemModalProp
       stock: formData.stock,
       imageUrl: formData.imageUrl || null,
       isActive: formData.isActive,
+      requiresFulfillment: formData.requiresFulfillment,
     };
 
     createItemMutation.mutate(dataToSend);
@@ -187,6 +176,17 @@ export default function AddShopItemModal({ open, onClose }: AddShopItemModalProp
             />
           </div>
           
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>Manual Fulfillment</Label>
+              <p className="text-sm text-gray-600">Orders stay pending until you fulfill them</p>
+            </div>
+            <Switch
+              checked={formData.requiresFulfillment}
+              onCheckedChange={(checked) => handleInputChange('requiresFulfillment', checked)}
+            />
+          </div>
+          
           <div className="flex space-x-3 mt-6">
             <Button 
               type="button" 
@@ -1,37 +1,183 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { AlertCircle, Send } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, CalendarClock, FlaskConical, Plus, Send, Users, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import SegmentBuilder, { isSegmentComplete, useSegmentPreview } from "@/components/segment-builder";
+import { describeSegment, type SegmentCriteria } from "@shared/segments";
+import { WEEKDAY_NAMES, describeTiming, nextOccurrence, type ScheduleTiming } from "@shared/broadcast-schedules";
+import {
+  BOT_ACTIONS, CAPTION_LIMIT, MESSAGE_LIMIT, MAX_BROADCAST_BUTTONS, broadcastContentError,
+  type BroadcastButton, type BroadcastContent,
+} from "@shared/broadcast-content";
+import TelegramPreview from "@/components/telegram-preview";
 
 interface BroadcastMessageModalProps {
   open: boolean;
   onClose: () => void;
+  // A scheduled broadcast to edit instead of starting a new one
+  schedule?: any;
 }
 
-export default function BroadcastMessageModal({ open, onClose }: BroadcastMessageModalProps) {
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const timeZones = Intl.supportedValuesOf('timeZone');
+
+function defaultTiming(): ScheduleTiming {
+  // The next full hour, in the admin's own timezone
+  const start = new Date(Date.now() + 60 * 60 * 1000);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return {
+    repeat: 'none',
+    timezone: browserTimeZone,
+    localDate: `${start.getFullYear()}-${pad(start.getMonth() + 1)}-${pad(start.getDate())}`,
+    localTime: `${pad(start.getHours())}:00`,
+    weekday: start.getDay(),
+  };
+}
+
+// The media type, or 'none' for a text message
+type MediaChoice = 'none' | 'photo' | 'video' | 'document';
+
+export default function BroadcastMessageModal({ open, onClose, schedule }: BroadcastMessageModalProps) {
   const [message, setMessage] = useState("");
+  const [mediaType, setMediaType] = useState<MediaChoice>('none');
+  const [mediaUrl, setMediaUrl] = useState("");
+  const [buttons, setButtons] = useState<BroadcastButton[]>([]);
+  // 'all', 'custom', or a saved segment's id
+  const [audience, setAudience] = useState('all');
+  const [criteria, setCriteria] = useState<SegmentCriteria>({});
+  const [saveAs, setSaveAs] = useState("");
+  const [sendLater, setSendLater] = useState(false);
+  const [timing, setTiming] = useState<ScheduleTiming>(defaultTiming);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const broadcastMutation = useMutation({
-    mutationFn: async (data: { message: string }) => {
-      const response = await apiRequest('POST', '/api/broadcast', data);
+  useEffect(() => {
+    if (!open) return;
+    if (schedule) {
+      setMessage(schedule.message);
+      setMediaType(schedule.media?.type ?? 'none');
+      setMediaUrl(schedule.media?.url ?? "");
+      setButtons(schedule.buttons);
+      const custom = !schedule.segmentId && Object.keys(schedule.criteria).length > 0;
+      setAudience(schedule.segmentId ? String(schedule.segmentId) : custom ? 'custom' : 'all');
+      setCriteria(custom ? schedule.criteria : {});
+      setSendLater(true);
+      setTiming({
+        repeat: schedule.repeat,
+        timezone: schedule.timezone,
+        localDate: schedule.localDate ?? defaultTiming().localDate,
+        localTime: schedule.localTime,
+        weekday: schedule.weekday ?? defaultTiming().weekday,
+      });
+    } else {
+      setMessage("");
+      setMediaType('none');
+      setMediaUrl("");
+      setButtons([]);
+      setAudience('all');
+      setCriteria({});
+      setSendLater(false);
+      setTiming(defaultTiming());
+    }
+    setSaveAs("");
+  }, [open, schedule]);
+
+  const { data: segments = [] } = useQuery<any[]>({
+    queryKey: ['/api/segments'],
+    enabled: open,
+  });
+  const { data: raffles = [] } = useQuery<any[]>({
+    queryKey: ['/api/raffles'],
+    enabled: open && buttons.some(button => button.type === 'action'),
+  });
+  const savedSegment = segments.find(segment => String(segment.id) === audience);
+  const audienceCriteria: SegmentCriteria = audience === 'custom' ? criteria : savedSegment?.criteria ?? {};
+  const { data: preview } = useSegmentPreview(audienceCriteria, open && audience !== 'custom');
+  const firstSend = sendLater ? nextOccurrence(timing, new Date()) : null;
+
+  const content: BroadcastContent = {
+    message: message.trim(),
+    media: mediaType === 'none' ? null : { type: mediaType, url: mediaUrl.trim() },
+    buttons: buttons.map(button => ({ ...button, text: button.text.trim() })),
+  };
+  const contentReady = !broadcastContentError(content)
+    && (!content.media || content.media.url !== '')
+    && content.buttons.every(button => button.text && (button.type === 'url' ? button.url : button.action));
+
+  const setTimingField = <K extends keyof ScheduleTiming>(key: K, value: ScheduleTiming[K]) => {
+    setTiming(current => ({ ...current, [key]: value }));
+  };
+  const setButton = (index: number, button: BroadcastButton) => {
+    setButtons(current => current.map((existing, i) => i === index ? button : existing));
+  };
+
+  const testMutation = useMutation({
+    mutationFn: async (data: BroadcastContent) => {
+      const response = await apiRequest('POST', '/api/broadcasts/test', data);
       return response.json();
     },
-    onSuccess: (data) => {
+    onSuccess: () => {
       toast({
-        title: "Message Sent Successfully",
-        description: `Sent to ${data.success} users, failed for ${data.failed} users.`,
+        title: "Test Sent",
+        description: "Check your Telegram chat with the bot.",
       });
-      setMessage("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Test Failed",
+        description: error.message || "Failed to send the test message.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const broadcastMutation = useMutation({
+    mutationFn: async (data: BroadcastContent) => {
+      let segmentId = savedSegment?.id;
+      if (audience === 'custom' && saveAs.trim()) {
+        const response = await apiRequest('POST', '/api/segments', { name: saveAs.trim(), criteria });
+        segmentId = (await response.json()).id;
+        queryClient.invalidateQueries({ queryKey: ['/api/segments'] });
+      }
+
+      // An edit always names the audience, so switching back to everyone clears the old one
+      const audienceFields = segmentId !== undefined ? { segmentId }
+        : audience === 'custom' || schedule ? { criteria: audienceCriteria }
+        : {};
+      if (!sendLater) {
+        const response = await apiRequest('POST', '/api/broadcasts', { ...data, ...audienceFields });
+        return response.json();
+      }
+
+      const body = { ...data, ...audienceFields, ...timing };
+      const response = schedule
+        ? await apiRequest('PATCH', `/api/broadcast-schedules/${schedule.id}`, body)
+        : await apiRequest('POST', '/api/broadcast-schedules', body);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      if (sendLater) {
+        toast({
+          title: schedule ? "Schedule Updated" : "Broadcast Scheduled",
+          description: describeTiming(result),
+        });
+        queryClient.invalidateQueries({ queryKey: ['/api/broadcast-schedules'] });
+      } else {
+        toast({
+          title: "Broadcast Started",
+          description: `Sending to ${result.totalRecipients} users in the background. Follow its progress on the Broadcasts page.`,
+        });
+        queryClient.invalidateQueries({ queryKey: ['/api/broadcasts'] });
+      }
       onClose();
-      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
     },
     onError: (error: any) => {
       toast({
@@ -42,52 +188,279 @@ export default function BroadcastMessageModal({ open, onClose }: BroadcastMessag
     },
   });
 
+  const canSubmit = contentReady && isSegmentComplete(audienceCriteria) && (!sendLater || firstSend);
+  const messageLimit = mediaType === 'none' ? MESSAGE_LIMIT : CAPTION_LIMIT;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (message.trim()) {
-      broadcastMutation.mutate({ message: message.trim() });
+    if (canSubmit) {
+      broadcastMutation.mutate(content);
     }
   };
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
         <DialogHeader>
-          <DialogTitle>Send Announcement to All Users</DialogTitle>
+          <DialogTitle>{schedule ? 'Edit Scheduled Broadcast' : 'Send Announcement'}</DialogTitle>
         </DialogHeader>
         <form onSubmit={handleSubmit} className="space-y-4">
           <Alert>
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
-              This message will be sent to all active users via Telegram bot.
-              Make sure your message is clear and appropriate.
+              This message will be sent to the active users in the audience you choose via Telegram bot.
+              Large audiences take a while; you can close this page while it sends.
             </AlertDescription>
           </Alert>
-          
+
+          <div className="space-y-2">
+            <Label>Audience</Label>
+            <Select value={audience} onValueChange={setAudience}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All active users</SelectItem>
+                {segments.map((segment) => (
+                  <SelectItem key={segment.id} value={String(segment.id)}>{segment.name}</SelectItem>
+                ))}
+                <SelectItem value="custom">Custom segment...</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {audience === 'custom' ? (
+              <div className="rounded-md border p-3 space-y-3">
+                <SegmentBuilder value={criteria} onChange={setCriteria} />
+                <Input
+                  placeholder="Save as segment (optional name)"
+                  value={saveAs}
+                  onChange={(e) => setSaveAs(e.target.value)}
+                  maxLength={100}
+                />
+              </div>
+            ) : (
+              <p className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                <Users className="h-4 w-4" />
+                {savedSegment && `${describeSegment(savedSegment.criteria)} · `}
+                {preview ? `${preview.active} recipients` : 'Counting...'}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>When</Label>
+            {!schedule && (
+              <Select value={sendLater ? 'later' : 'now'} onValueChange={(value) => setSendLater(value === 'later')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="now">Send now</SelectItem>
+                  <SelectItem value="later">Schedule for later</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+
+            {sendLater && (
+              <div className="rounded-md border p-3 space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <Select value={timing.repeat} onValueChange={(value) => setTimingField('repeat', value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Once</SelectItem>
+                      <SelectItem value="daily">Every day</SelectItem>
+                      <SelectItem value="weekly">Every week</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {timing.repeat === 'none' && (
+                    <Input
+                      type="date"
+                      value={timing.localDate ?? ''}
+                      onChange={(e) => setTimingField('localDate', e.target.value)}
+                      required
+                    />
+                  )}
+                  {timing.repeat === 'weekly' && (
+                    <Select value={String(timing.weekday)} onValueChange={(value) => setTimingField('weekday', parseInt(value))}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WEEKDAY_NAMES.map((name, day) => (
+                          <SelectItem key={day} value={String(day)}>{name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Input
+                    type="time"
+                    value={timing.localTime}
+                    onChange={(e) => setTimingField('localTime', e.target.value)}
+                    required
+                  />
+                  <Select value={timing.timezone} onValueChange={(value) => setTimingField('timezone', value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {timeZones.map((zone) => (
+                        <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <p className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                  <CalendarClock className="h-4 w-4" />
+                  {firstSend
+                    ? `${timing.repeat === 'none' ? 'Sends' : 'First send'} ${firstSend.toLocaleString()} your time`
+                    : 'That time has already passed'}
+                </p>
+              </div>
+            )}
+          </div>
+
           <div className="space-y-2">
-            <Label htmlFor="message">Announcement Message</Label>
+            <Label>Media</Label>
+            <div className="flex gap-2">
+              <Select value={mediaType} onValueChange={(value) => setMediaType(value as MediaChoice)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Text only</SelectItem>
+                  <SelectItem value="photo">Photo</SelectItem>
+                  <SelectItem value="video">Video</SelectItem>
+                  <SelectItem value="document">Document</SelectItem>
+                </SelectContent>
+              </Select>
+              {mediaType !== 'none' && (
+                <Input
+                  type="url"
+                  placeholder="https://example.com/file.jpg"
+                  value={mediaUrl}
+                  onChange={(e) => setMediaUrl(e.target.value)}
+                  required
+                />
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="message">{mediaType === 'none' ? 'Announcement Message' : 'Caption'}</Label>
             <Textarea
               id="message"
-              placeholder="Enter your announcement message here..."
+              placeholder={mediaType === 'none' ? "Enter your announcement message here..." : "Optional caption..."}
               value={message}
               onChange={(e) => setMessage(e.target.value)}
               rows={6}
-              required
-              maxLength={4096}
-              className="resize-none"
+              required={mediaType === 'none'}
+              maxLength={messageLimit}
+              className="resize-none font-mono text-sm"
             />
-            <p className="text-xs text-muted-foreground text-right">
-              {message.length}/4096 characters
+            <p className="flex justify-between text-xs text-muted-foreground">
+              <span>*bold* _italic_ `code` [link](https://...)</span>
+              <span>{message.length}/{messageLimit} characters</span>
             </p>
           </div>
 
+          <div className="space-y-2">
+            <Label>Buttons</Label>
+            {buttons.map((button, index) => (
+              <div key={index} className="flex gap-2">
+                <Select
+                  value={button.type}
+                  onValueChange={(type) => setButton(index, type === 'url'
+                    ? { type: 'url', text: button.text, url: '' }
+                    : { type: 'action', text: button.text, action: '' })}
+                >
+                  <SelectTrigger className="w-28 shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="url">Link</SelectItem>
+                    <SelectItem value="action">Bot screen</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="Button text"
+                  value={button.text}
+                  onChange={(e) => setButton(index, { ...button, text: e.target.value })}
+                  maxLength={64}
+                />
+                {button.type === 'url' ? (
+                  <Input
+                    placeholder="https://..."
+                    value={button.url}
+                    onChange={(e) => setButton(index, { ...button, url: e.target.value })}
+                  />
+                ) : (
+                  <Select value={button.action || undefined} onValueChange={(action) => setButton(index, { ...button, action })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Opens..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(BOT_ACTIONS).map(([action, label]) => (
+                        <SelectItem key={action} value={action}>{label}</SelectItem>
+                      ))}
+                      {raffles.filter(raffle => raffle.isActive).map((raffle) => (
+                        <SelectItem key={raffle.id} value={`raffle_${raffle.id}`}>Raffle: {raffle.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="shrink-0"
+                  onClick={() => setButtons(current => current.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {buttons.length < MAX_BROADCAST_BUTTONS && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setButtons(current => [...current, { type: 'url', text: '', url: '' }])}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Button
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Preview</Label>
+            <TelegramPreview message={content.message} media={content.media} buttons={content.buttons} />
+          </div>
+
           <div className="flex justify-end space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="mr-auto"
+              disabled={!contentReady || testMutation.isPending}
+              onClick={() => testMutation.mutate(content)}
+            >
+              <FlaskConical className="h-4 w-4 mr-2" />
+              {testMutation.isPending ? 'Sending...' : 'Send Test to Myself'}
+            </Button>
             <Button type="button" variant="outline" onClick={onClose}>
               Cancel
             </Button>
-            <Button type="submit" disabled={!message.trim() || broadcastMutation.isPending}>
+            <Button type="submit" disabled={!canSubmit || broadcastMutation.isPending}>
               {broadcastMutation.isPending ? (
-                <>Sending...</>
+                <>{sendLater ? 'Saving...' : 'Sending...'}</>
+              ) : sendLater ? (
+                <>
+                  <CalendarClock className="h-4 w-4 mr-2" />
+                  {schedule ? 'Save Changes' : 'Schedule Announcement'}
+                </>
               ) : (
                 <>
                   <Send className="h-4 w-4 mr-2" />
@@ -100,4 +473,4 @@ export default function BroadcastMessageModal({ open, onClose }: BroadcastMessag
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
@@ -6,7 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
+import { queryClient, apiRequest } from "@/lib/queryClient";
 
 interface CreateRaffleModalProps {
   open: boolean;
@@ -21,30 +21,18 @@ export default function CreateRaffleModal({ open, onClose }: CreateRaffleModalPr
     prizeDescription: '',
     entryCost: 10,
     maxEntries: null as number | null,
+    maxEntriesPerUser: null as number | null,
     startDate: '',
     endDate: '',
   });
 
   const createRaffleMutation = useMutation({
     mutationFn: async (data: any) => {
-      const token = localStorage.getItem('authToken');
-      const response = await fetch('/api/raffles', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          ...data,
-          startDate: data.startDate ? new Date(data.startDate).toISOString() : new Date().toISOString(),
-          endDate: new Date(data.endDate).toISOString(),
-        }),
+      const response = await apiRequest('POST', '/api/raffles', {
+        ...data,
+        startDate: data.startDate ? new Date(data.startDate).toISOString() : new Date().toISOString(),
+        endDate: new Date(data.endDate).toISOString(),
       });
-      
-      if (!response.ok) {
-        throw new Error('Failed to create raffle');
-      }
-      
       return response.json();
     },
     onSuccess: () => {
@@ -72,6 +60,7 @@ export default function CreateRaffleModal({ open, onClose }: CreateRaffleModalPr
       prizeDescription: '',
       entryCost: 10,
       maxEntries: null,
+      maxEntriesPerUser: null,
       startDate: '',
       endDate: '',
     });
@@ -100,6 +89,15 @@ export default function CreateRaffleModal({ open, onClose }: CreateRaffleModalPr
       return;
     }
 
+    if (formData.maxEntries && formData.maxEntriesPerUser && formData.maxEntriesPerUser > formData.maxEntries) {
+      toast({
+        title: "Validation Error",
+        description: "Tickets per user cannot exceed max entries",
+        variant: "destructive",
+      });
+      return;
+    }
+
     createRaffleMutation.mutate(formData);
   };
 
@@ -157,7 +155,7 @@ export default function CreateRaffleModal({ open, onClose }: CreateRaffleModalPr
             />
           </div>
           
-          <div className="grid grid-cols-2 gap-4">
+          <div className="grid grid-cols-3 gap-4">
             <div className="space-y-2">
               <Label htmlFor="entryCost">Entry Cost (Coins) *</Label>
               <Input
@@ -182,6 +180,18 @@ export default function CreateRaffleModal({ open, onClose }: CreateRaffleModalPr
                 onChange={(e) => handleInputChange('maxEntries', e.target.value ? parseInt(e.target.value) : null)}
               />
             </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="maxEntriesPerUser">Max Tickets per User</Label>
+              <Input
+                id="maxEntriesPerUser"
+                type="number"
+                min="1"
+                placeholder="Unlimited"
+                value={formData.maxEntriesPerUser || ''}
+                onChange={(e) => handleInputChange('maxEntriesPerUser', e.target.value ? parseInt(e.target.value) : null)}
+              />
+            </div>
           </div>
           
           <div className="grid grid-cols-2 gap-4">
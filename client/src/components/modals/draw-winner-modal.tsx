@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Trophy, ShieldCheck, ShieldAlert } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+
+interface DrawWinnerModalProps {
+  open: boolean;
+  onClose: () => void;
+  raffle: any;
+}
+
+function displayName(user: any, userId: number) {
+  if (user?.firstName || user?.lastName) {
+    return `${user.firstName || ''} ${user.lastName || ''}`.trim();
+  }
+  return user?.username ? `@${user.username}` : `User ${userId}`;
+}
+
+export default function DrawWinnerModal({ open, onClose, raffle }: DrawWinnerModalProps) {
+  const { toast } = useToast();
+  const [winnerCount, setWinnerCount] = useState(1);
+
+  const isDrawn = !!raffle?.drawnAt;
+
+  const { data: existingDraw, isLoading } = useQuery<any>({
+    queryKey: [`/api/raffles/${raffle?.id}/draw`],
+    enabled: !!raffle?.id && open && isDrawn,
+  });
+
+  const drawMutation = useMutation({
+    mutationFn: async (count: number) => {
+      const response = await apiRequest('POST', `/api/raffles/${raffle.id}/draw`, { winnerCount: count });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData([`/api/raffles/${raffle.id}/draw`], data);
+      queryClient.invalidateQueries({ queryKey: ['/api/raffles'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      toast({
+        title: "Winner drawn",
+        description: `${data.winners.length} winner${data.winners.length > 1 ? 's' : ''} selected`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to draw winner",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!raffle) return null;
+
+  const result = drawMutation.data || existingDraw;
+
+  const handleClose = () => {
+    drawMutation.reset();
+    setWinnerCount(1);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Trophy className="h-5 w-5" />
+            <span>Draw Winner - {raffle.title}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {!result && !isDrawn && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Winners are picked at random, weighted by each user's ticket count. Drawing closes the raffle
+              and cannot be undone.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="winnerCount">Number of Winners</Label>
+              <Input
+                id="winnerCount"
+                type="number"
+                min="1"
+                value={winnerCount}
+                onChange={(e) => setWinnerCount(Math.max(1, parseInt(e.target.value) || 1))}
+              />
+            </div>
+            <div className="flex space-x-3">
+              <Button variant="outline" className="flex-1" onClick={handleClose} disabled={drawMutation.isPending}>
+                Cancel
+              </Button>
+              <Button className="flex-1" onClick={() => drawMutation.mutate(winnerCount)} disabled={drawMutation.isPending}>
+                {drawMutation.isPending ? 'Drawing...' : 'Draw Winner'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isDrawn && !result && isLoading && (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+            <p className="text-sm text-gray-600 mt-2">Loading draw...</p>
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {result.winners.map((winner: any) => (
+                <div key={winner.id} className="flex items-center justify-between p-3 bg-green-50 border border-green-200 rounded-lg">
+                  <div className="flex items-center space-x-3">
+                    <span className="text-sm font-medium text-green-800">#{winner.rank}</span>
+                    <div>
+                      <p className="font-medium">{displayName(winner.user, winner.userId)}</p>
+                      <p className="text-sm text-gray-500">Telegram ID: {winner.user?.telegramId}</p>
+                    </div>
+                  </div>
+                  <Badge variant="secondary">{winner.tickets} ticket{winner.tickets > 1 ? 's' : ''}</Badge>
+                </div>
+              ))}
+            </div>
+
+            <div className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Draw Proof</span>
+                {result.verified ? (
+                  <Badge className="bg-green-500"><ShieldCheck className="h-3 w-3 mr-1" />Verified</Badge>
+                ) : (
+                  <Badge variant="destructive"><ShieldAlert className="h-3 w-3 mr-1" />Verification failed</Badge>
+                )}
+              </div>
+              <div className="text-xs text-gray-600 space-y-1 font-mono break-all">
+                <p>Algorithm: {result.proof.algorithm}</p>
+                <p>Seed: {result.proof.seed}</p>
+                <p>Entrants: {result.proof.entrants.length} users, {result.proof.totalTickets} tickets</p>
+                <p>Entrants hash: {result.proof.entrantsHash}</p>
+                <p>Winning tickets: {result.proof.winners.map((w: any) => `#${w.rank}→${w.ticket}`).join(', ')}</p>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
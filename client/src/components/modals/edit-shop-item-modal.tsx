@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
@@ -22,6 +23,7 @@ export default function EditShopItemModal({ open, onClose, item }: EditShopItemM
     cost: 1,
     stock: null as number | null,
     imageUrl: '',
+    requiresFulfillment: false,
   });
 
   useEffect(() => {
@@ -32,6 +34,7 @@ export default function EditShopItemModal({ open, onClose, item }: EditShopItemM
         cost: item.cost || 1,
         stock: item.stock !== null ? item.stock : null,
         imageUrl: item.imageUrl || '',
+        requiresFulfillment: !!item.requiresFulfillment,
       });
     }
   }, [item]);
@@ -65,6 +68,7 @@ export default function EditShopItemModal({ open, onClose, item }: EditShopItemM
       cost: 1,
       stock: null,
       imageUrl: '',
+      requiresFulfillment: false,
     });
     onClose();
   };
@@ -146,7 +150,11 @@ export default function EditShopItemModal({ open, onClose, item }: EditShopItemM
                 placeholder="Unlimited"
                 value={formData.stock || ''}
                 onChange={(e) => handleInputChange('stock', e.target.value ? parseInt(e.target.value) : null)}
+                disabled={item.deliversCodes}
               />
+              {item.deliversCodes && (
+                <p className="text-xs text-gray-500">Set by the unused codes</p>
+              )}
             </div>
           </div>
           
@@ -161,6 +169,17 @@ export default function EditShopItemModal({ open, onClose, item }: EditShopItemM
             />
           </div>
           
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>Manual Fulfillment</Label>
+              <p className="text-sm text-gray-600">Orders stay pending until you fulfill them</p>
+            </div>
+            <Switch
+              checked={formData.requiresFulfillment}
+              onCheckedChange={(checked) => handleInputChange('requiresFulfillment', checked)}
+            />
+          </div>
+          
           <div className="flex space-x-3 mt-6">
             <Button 
               type="button" 
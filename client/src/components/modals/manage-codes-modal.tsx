@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { KeyRound, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+
+interface ManageCodesModalProps {
+  open: boolean;
+  onClose: () => void;
+  item: any;
+}
+
+export default function ManageCodesModal({ open, onClose, item }: ManageCodesModalProps) {
+  const { toast } = useToast();
+  const [bulkCodes, setBulkCodes] = useState('');
+
+  const { data: codes = [], isLoading } = useQuery<any[]>({
+    queryKey: [`/api/shop/${item?.id}/codes`],
+    enabled: !!item?.id && open,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/shop/${item.id}/codes`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/shop'] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (text: string) => {
+      const response = await apiRequest('POST', `/api/shop/${item.id}/codes`, { codes: text });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      invalidate();
+      setBulkCodes('');
+      toast({
+        title: "Codes uploaded",
+        description: `Added ${result.added} code${result.added === 1 ? '' : 's'}${result.skipped ? `, skipped ${result.skipped} already in stock` : ''}`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to upload codes",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (codeId: number) => {
+      const response = await apiRequest('DELETE', `/api/shop/${item.id}/codes/${codeId}`);
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete code",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    setBulkCodes('');
+    onClose();
+  };
+
+  if (!item) return null;
+
+  const unused = codes.filter(code => !code.purchaseId).length;
+  const pastedCount = bulkCodes.split('\n').filter(line => line.trim()).length;
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <KeyRound className="h-5 w-5" />
+            <span>Codes - {item.name}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-4">
+            <Badge variant="secondary">{unused} available</Badge>
+            <Badge variant="outline">{codes.length - unused} sold</Badge>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bulkCodes">Add Codes</Label>
+            <Textarea
+              id="bulkCodes"
+              placeholder="One code per line"
+              rows={5}
+              className="font-mono"
+              value={bulkCodes}
+              onChange={(e) => setBulkCodes(e.target.value)}
+            />
+            <p className="text-xs text-gray-500">
+              Each purchase delivers one code to the buyer. Stock follows the number of unused codes.
+            </p>
+            <Button
+              onClick={() => uploadMutation.mutate(bulkCodes)}
+              disabled={pastedCount === 0 || uploadMutation.isPending}
+            >
+              {uploadMutation.isPending ? 'Uploading...' : `Upload ${pastedCount || ''} Code${pastedCount === 1 ? '' : 's'}`}
+            </Button>
+          </div>
+
+          <div className="max-h-72 overflow-y-auto">
+            {isLoading ? (
+              <p className="text-sm text-gray-600 text-center py-4">Loading codes...</p>
+            ) : codes.length === 0 ? (
+              <p className="text-sm text-gray-600 text-center py-4">No codes uploaded yet</p>
+            ) : (
+              <div className="grid grid-cols-1 gap-2">
+                {codes.map((code) => (
+                  <div key={code.id} className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                    <code className="text-sm">{code.code}</code>
+                    {code.purchaseId ? (
+                      <span className="text-xs text-gray-500">
+                        Sold to {code.user?.firstName || code.user?.username || code.user?.telegramId} • {new Date(code.assignedAt).toLocaleDateString()}
+                      </span>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => deleteMutation.mutate(code.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import SegmentBuilder, { isSegmentComplete } from "@/components/segment-builder";
+import type { SegmentCriteria } from "@shared/segments";
+
+interface SegmentModalProps {
+  open: boolean;
+  onClose: () => void;
+  // The segment to edit, or null to create one
+  segment: any | null;
+}
+
+export default function SegmentModal({ open, onClose, segment }: SegmentModalProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [criteria, setCriteria] = useState<SegmentCriteria>({});
+
+  useEffect(() => {
+    if (open) {
+      setName(segment?.name || '');
+      setCriteria(segment?.criteria || {});
+    }
+  }, [open, segment]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: { name: string; criteria: SegmentCriteria }) => {
+      const response = segment
+        ? await apiRequest('PATCH', `/api/segments/${segment.id}`, data)
+        : await apiRequest('POST', '/api/segments', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/segments'] });
+      toast({
+        title: "Success",
+        description: segment ? "Segment updated" : "Segment saved",
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save segment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim() && isSegmentComplete(criteria)) {
+      saveMutation.mutate({ name: name.trim(), criteria });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{segment ? 'Edit Segment' : 'New Segment'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="segment-name">Name</Label>
+            <Input
+              id="segment-name"
+              placeholder="e.g. Big spenders"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Users who match all of these</Label>
+            <SegmentBuilder value={criteria} onChange={setCriteria} />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim() || !isSegmentComplete(criteria) || saveMutation.isPending}>
+              {saveMutation.isPending ? 'Saving...' : 'Save Segment'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ShieldCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+
+interface TwoFactorModalProps {
+  open: boolean;
+  onClose: () => void;
+  // Owners made to enroll by the "require 2FA" setting can't dismiss the dialog
+  required?: boolean;
+}
+
+interface Enrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+export default function TwoFactorModal({ open, onClose, required = false }: TwoFactorModalProps) {
+  const { toast } = useToast();
+  const { admin } = usePermissions();
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [showDisable, setShowDisable] = useState(false);
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/auth/2fa/setup');
+      return response.json();
+    },
+    onSuccess: setEnrollment,
+    onError: onError("Failed to start setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest('POST', '/api/auth/2fa/enable', { code });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      setEnrollment(null);
+      setCode('');
+      setRecoveryCodes(result.recoveryCodes);
+    },
+    onError: onError("That code didn't work"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest('POST', '/api/auth/2fa/recovery-codes', { code });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      setCode('');
+      setRecoveryCodes(result.recoveryCodes);
+    },
+    onError: onError("That code didn't work"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (data: { password: string; code: string }) => {
+      const response = await apiRequest('POST', '/api/auth/2fa/disable', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+      toast({
+        title: "Two-factor authentication is off",
+        description: "You'll only need your password to sign in",
+      });
+      handleClose();
+    },
+    onError: onError("Failed to turn off two-factor authentication"),
+  });
+
+  const reset = () => {
+    setEnrollment(null);
+    setRecoveryCodes(null);
+    setCode('');
+    setPassword('');
+    setShowDisable(false);
+  };
+
+  const handleClose = () => {
+    if (required && !recoveryCodes) return;
+    reset();
+    onClose();
+  };
+
+  // Recovery codes are only shown once, so /api/auth/me is refreshed after they've been saved
+  const handleCodesSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+    reset();
+    onClose();
+  };
+
+  const renderBody = () => {
+    if (recoveryCodes) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+            authenticator. They won't be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+            {recoveryCodes.map((recoveryCode) => (
+              <code key={recoveryCode} className="text-sm text-center">{recoveryCode}</code>
+            ))}
+          </div>
+          <div className="flex space-x-3">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => navigator.clipboard.writeText(recoveryCodes.join('\n'))}
+            >
+              Copy
+            </Button>
+            <Button className="flex-1" onClick={handleCodesSaved}>
+              I've Saved Them
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (enrollment) {
+      return (
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            enableMutation.mutate(code);
+          }}
+        >
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy.
+          </p>
+          <div className="flex justify-center">
+            <img src={enrollment.qrCode} alt="Two-factor QR code" className="w-48 h-48" />
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs text-gray-500">Can't scan it? Enter this key instead:</p>
+            <code className="block text-sm break-all p-2 bg-gray-50 dark:bg-gray-800 rounded">{enrollment.secret}</code>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="enrollCode">Code from the app</Label>
+            <Input
+              id="enrollCode"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              required
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={enableMutation.isPending}>
+            {enableMutation.isPending ? 'Verifying...' : 'Turn On'}
+          </Button>
+        </form>
+      );
+    }
+
+    if (!admin?.twoFactorEnabled) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {required
+              ? 'Owners of this panel must use two-factor authentication. Set it up to continue.'
+              : 'Protect your account with a code from your phone in addition to your password.'}
+          </p>
+          <Button className="w-full" onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+            {setupMutation.isPending ? 'Preparing...' : 'Set Up Two-Factor Authentication'}
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <form
+        className="space-y-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (showDisable) {
+            disableMutation.mutate({ password, code });
+          } else {
+            regenerateMutation.mutate(code);
+          }
+        }}
+      >
+        <div className="flex items-center gap-2">
+          <Badge>On</Badge>
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            {admin.recoveryCodesLeft} recovery code{admin.recoveryCodesLeft === 1 ? '' : 's'} left
+          </span>
+        </div>
+
+        {showDisable && (
+          <div className="space-y-2">
+            <Label htmlFor="disablePassword">Password</Label>
+            <Input
+              id="disablePassword"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="manageCode">Authentication code</Label>
+          <Input
+            id="manageCode"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder="123456"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            required
+          />
+        </div>
+
+        {showDisable ? (
+          <div className="flex space-x-3">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => setShowDisable(false)}>
+              Back
+            </Button>
+            <Button type="submit" variant="destructive" className="flex-1" disabled={disableMutation.isPending}>
+              {disableMutation.isPending ? 'Turning off...' : 'Turn Off'}
+            </Button>
+          </div>
+        ) : (
+          <div className="flex space-x-3">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => setShowDisable(true)}>
+              Turn Off
+            </Button>
+            <Button type="submit" className="flex-1" disabled={regenerateMutation.isPending}>
+              {regenerateMutation.isPending ? 'Generating...' : 'New Recovery Codes'}
+            </Button>
+          </div>
+        )}
+      </form>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <ShieldCheck className="h-5 w-5" />
+            <span>Two-Factor Authentication</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {renderBody()}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,13 +10,17 @@ interface ViewEntriesModalProps {
 }
 
 export default function ViewEntriesModal({ open, onClose, raffle }: ViewEntriesModalProps) {
-  const { data: entries = [], isLoading } = useQuery({
+  const { data: entries = [], isLoading } = useQuery<any[]>({
     queryKey: [`/api/raffles/${raffle?.id}/entries`],
     enabled: !!raffle?.id && open,
   });
 
   if (!raffle) return null;
 
+  // Each ticket is one equally likely draw, so a user's chance of winning is their share of all tickets
+  const totalTickets = entries.reduce((acc: number, entry: any) => acc + entry.entries, 0);
+  const sortedEntries = [...entries].sort((a: any, b: any) => b.entries - a.entries);
+
   return (
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl">
@@ -29,9 +33,13 @@ export default function ViewEntriesModal({ open, onClose, raffle }: ViewEntriesM
         
         <div className="space-y-4">
           <div className="flex items-center justify-between">
-            <span className="text-sm text-gray-600">Total Entries:</span>
+            <span className="text-sm text-gray-600">Participants:</span>
             <Badge variant="secondary">{entries.length}</Badge>
           </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-600">Total Tickets:</span>
+            <Badge variant="secondary">{totalTickets}</Badge>
+          </div>
 
           <div className="max-h-96 overflow-y-auto">
             {isLoading ? (
@@ -46,7 +54,7 @@ export default function ViewEntriesModal({ open, onClose, raffle }: ViewEntriesM
               </div>
             ) : (
               <div className="grid grid-cols-1 gap-2">
-                {entries.map((entry: any, index: number) => (
+                {sortedEntries.map((entry: any, index: number) => (
                   <div key={entry.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                     <div className="flex items-center space-x-3">
                       <span className="text-sm font-medium text-gray-500">#{index + 1}</span>
@@ -58,7 +66,7 @@ export default function ViewEntriesModal({ open, onClose, raffle }: ViewEntriesM
                         </p>
                         <p className="text-sm text-gray-500">
                           {entry.user?.username && `@${entry.user.username} • `}
-                          Entered: {new Date(entry.createdAt).toLocaleString('en-US', { 
+                          Last entry: {new Date(entry.updatedAt ?? entry.createdAt).toLocaleString('en-US', { 
                             timeZone: 'America/Los_Angeles',
                             year: 'numeric',
                             month: 'numeric',
@@ -70,11 +78,21 @@ export default function ViewEntriesModal({ open, onClose, raffle }: ViewEntriesM
                         </p>
                       </div>
                     </div>
-                    {raffle.winnerId === entry.userId && (
-                      <Badge variant="default" className="bg-green-500">
-                        🏆 Winner
-                      </Badge>
-                    )}
+                    <div className="flex items-center space-x-3">
+                      <div className="text-right">
+                        <p className="text-sm font-medium">
+                          🎟️ {entry.entries} ticket{entry.entries === 1 ? '' : 's'}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {((entry.entries / totalTickets) * 100).toFixed(1)}% win chance
+                        </p>
+                      </div>
+                      {raffle.winnerId === entry.userId && (
+                        <Badge variant="default" className="bg-green-500">
+                          🏆 Winner
+                        </Badge>
+                      )}
+                    </div>
                   </div>
                 ))}
               </div>
@@ -0,0 +1,153 @@
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users } from "lucide-react";
+import type { SegmentCriteria } from "@shared/segments";
+
+interface SegmentBuilderProps {
+  value: SegmentCriteria;
+  onChange: (criteria: SegmentCriteria) => void;
+}
+
+// What a criterion starts at when its box is ticked
+const DEFAULTS: Required<SegmentCriteria> = {
+  coinsAbove: 100,
+  streakBroken: true,
+  joinedWithinDays: 7,
+  enteredRaffleId: 0,
+  boughtItemId: 0,
+  isReferrer: true,
+  onboardingIncomplete: true,
+};
+
+export function segmentPreviewUrl(criteria: SegmentCriteria): string {
+  return `/api/segments/preview?criteria=${encodeURIComponent(JSON.stringify(criteria))}`;
+}
+
+// A raffle or item still has to be picked before the criterion means anything
+export function isSegmentComplete(criteria: SegmentCriteria): boolean {
+  return criteria.enteredRaffleId !== 0 && criteria.boughtItemId !== 0;
+}
+
+export function useSegmentPreview(criteria: SegmentCriteria, enabled = true) {
+  return useQuery<{ total: number; active: number }>({
+    queryKey: [segmentPreviewUrl(criteria)],
+    enabled: enabled && isSegmentComplete(criteria),
+    placeholderData: keepPreviousData,
+  });
+}
+
+function parseWholeNumber(value: string, min: number): number {
+  const parsed = parseInt(value);
+  return Number.isNaN(parsed) ? min : Math.max(parsed, min);
+}
+
+export default function SegmentBuilder({ value, onChange }: SegmentBuilderProps) {
+  const { data: raffles = [] } = useQuery<any[]>({
+    queryKey: ['/api/raffles'],
+    enabled: value.enteredRaffleId !== undefined,
+  });
+  const { data: items = [] } = useQuery<any[]>({
+    queryKey: ['/api/shop'],
+    enabled: value.boughtItemId !== undefined,
+  });
+  const { data: preview } = useSegmentPreview(value);
+
+  const toggle = <K extends keyof SegmentCriteria>(key: K, checked: boolean) => {
+    const { [key]: _removed, ...rest } = value;
+    onChange(checked ? { ...rest, [key]: DEFAULTS[key] } : rest);
+  };
+  const set = <K extends keyof SegmentCriteria>(key: K, criterion: SegmentCriteria[K]) => {
+    onChange({ ...value, [key]: criterion });
+  };
+
+  const row = (key: keyof SegmentCriteria, label: string, control?: React.ReactNode) => (
+    <div className="flex items-center gap-3 min-h-9">
+      <Checkbox
+        id={`segment-${key}`}
+        checked={value[key] !== undefined}
+        onCheckedChange={(checked) => toggle(key, checked === true)}
+      />
+      <Label htmlFor={`segment-${key}`} className="font-normal whitespace-nowrap">{label}</Label>
+      {value[key] !== undefined && control}
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      {row('coinsAbove', 'More than', (
+        <>
+          <Input
+            type="number"
+            min={0}
+            className="w-24 h-8"
+            value={value.coinsAbove}
+            onChange={(e) => set('coinsAbove', parseWholeNumber(e.target.value, 0))}
+          />
+          <span className="text-sm">coins</span>
+        </>
+      ))}
+      {row('streakBroken', 'Streak broke (missed yesterday after 2+ days)')}
+      {row('joinedWithinDays', 'Joined in the last', (
+        <>
+          <Input
+            type="number"
+            min={1}
+            className="w-20 h-8"
+            value={value.joinedWithinDays}
+            onChange={(e) => set('joinedWithinDays', parseWholeNumber(e.target.value, 1))}
+          />
+          <span className="text-sm">days</span>
+        </>
+      ))}
+      {row('enteredRaffleId', 'Entered raffle', (
+        <Select
+          value={value.enteredRaffleId ? String(value.enteredRaffleId) : undefined}
+          onValueChange={(id) => set('enteredRaffleId', parseInt(id))}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue placeholder="Choose a raffle" />
+          </SelectTrigger>
+          <SelectContent>
+            {raffles.map((raffle) => (
+              <SelectItem key={raffle.id} value={String(raffle.id)}>{raffle.title}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ))}
+      {row('boughtItemId', 'Bought', (
+        <Select
+          value={value.boughtItemId ? String(value.boughtItemId) : undefined}
+          onValueChange={(id) => set('boughtItemId', parseInt(id))}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue placeholder="Choose an item" />
+          </SelectTrigger>
+          <SelectContent>
+            {items.map((item) => (
+              <SelectItem key={item.id} value={String(item.id)}>{item.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ))}
+      {row('isReferrer', 'Referred at least one user')}
+      {row('onboardingIncomplete', "Hasn't finished onboarding")}
+
+      <div className="flex items-center gap-2 pt-2 text-sm text-gray-600 dark:text-gray-400">
+        <Users className="h-4 w-4" />
+        {!isSegmentComplete(value) ? (
+          <span>Choose a raffle or item to count recipients</span>
+        ) : preview ? (
+          <span>
+            <span className="font-semibold text-gray-900 dark:text-white">{preview.active}</span> active users match
+            {preview.total !== preview.active && ` (${preview.total} including inactive or unreachable)`}
+          </span>
+        ) : (
+          <span>Counting...</span>
+        )}
+      </div>
+    </div>
+  );
+}
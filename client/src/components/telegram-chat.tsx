@@ -0,0 +1,82 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MessageCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// This admin's own Telegram chat, where "Send test to myself" delivers broadcasts
+export default function TelegramChat() {
+  const { toast } = useToast();
+  const { admin } = usePermissions();
+  const [telegramId, setTelegramId] = useState('');
+
+  useEffect(() => {
+    setTelegramId(admin?.telegramId ?? '');
+  }, [admin?.telegramId]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (value: string | null) => {
+      const response = await apiRequest('PATCH', '/api/auth/me', { telegramId: value });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+      toast({
+        title: "Success",
+        description: "Your Telegram ID was saved",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save your Telegram ID",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(telegramId.trim() || null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageCircle className="h-5 w-5" />
+          Your Telegram Chat
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <Label htmlFor="own-telegram-id">Your Telegram User ID</Label>
+          <div className="flex gap-2">
+            <Input
+              id="own-telegram-id"
+              inputMode="numeric"
+              placeholder="123456789"
+              value={telegramId}
+              onChange={(e) => setTelegramId(e.target.value)}
+            />
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={saveMutation.isPending || telegramId.trim() === (admin?.telegramId ?? '')}
+            >
+              Save
+            </Button>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Test broadcasts are sent here. Start a chat with the bot first so it can message you.
+          </p>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
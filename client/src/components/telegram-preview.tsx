@@ -0,0 +1,112 @@
+import type { ReactNode } from "react";
+import { AlertCircle, ExternalLink, FileText, Film } from "lucide-react";
+import type { BroadcastButton, BroadcastMedia } from "@shared/broadcast-content";
+
+interface TelegramPreviewProps {
+  message: string;
+  media: BroadcastMedia | null;
+  buttons: BroadcastButton[];
+}
+
+// Telegram's original Markdown, which the bot sends with: *bold*, _italic_, `code`, ```pre```
+// and [text](url). Entities don't nest, and one left open makes Telegram reject the message.
+function renderMarkdown(text: string): { nodes: ReactNode[]; error: string | null } {
+  const nodes: ReactNode[] = [];
+  let plain = '';
+  const flush = () => {
+    if (plain) nodes.push(plain);
+    plain = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && '_*`['.includes(text[i + 1] ?? '')) {
+      plain += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (text.startsWith('```', i)) {
+      const end = text.indexOf('```', i + 3);
+      if (end === -1) return { nodes: [text], error: 'A ``` block is never closed' };
+      flush();
+      nodes.push(<pre key={i} className="my-1 rounded bg-black/5 dark:bg-white/10 p-2 text-xs overflow-x-auto">{text.slice(i + 3, end).replace(/^\n/, '')}</pre>);
+      i = end + 3;
+      continue;
+    }
+
+    if (char === '*' || char === '_' || char === '`') {
+      const end = text.indexOf(char, i + 1);
+      if (end === -1) return { nodes: [text], error: `A ${char} is never closed` };
+      flush();
+      const inner = text.slice(i + 1, end);
+      nodes.push(
+        char === '*' ? <strong key={i}>{inner}</strong>
+          : char === '_' ? <em key={i}>{inner}</em>
+          : <code key={i} className="rounded bg-black/5 dark:bg-white/10 px-1 text-xs">{inner}</code>
+      );
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '[') {
+      const link = /^\[([^\]]+)\]\(([^)\s]+)\)/.exec(text.slice(i));
+      if (!link) return { nodes: [text], error: 'A [ is not a complete [text](url) link' };
+      flush();
+      nodes.push(<a key={i} href={link[2]} target="_blank" rel="noreferrer" className="text-blue-600 dark:text-blue-400 underline">{link[1]}</a>);
+      i += link[0].length;
+      continue;
+    }
+
+    plain += char;
+    i++;
+  }
+  flush();
+  return { nodes, error: null };
+}
+
+// Roughly how the broadcast will look in a Telegram chat
+export default function TelegramPreview({ message, media, buttons }: TelegramPreviewProps) {
+  const { nodes, error } = renderMarkdown(message);
+  const fileName = media ? media.url.split(/[?#]/)[0].split('/').pop() || media.url : '';
+
+  return (
+    <div className="space-y-2">
+      <div className="rounded-lg bg-sky-50 dark:bg-slate-800 p-3">
+        <div className="max-w-sm space-y-1">
+          <div className="overflow-hidden rounded-lg bg-white dark:bg-slate-700 shadow-sm">
+            {media?.type === 'photo' && (
+              <img src={media.url} alt="" className="w-full max-h-64 object-cover bg-gray-100 dark:bg-slate-600" />
+            )}
+            {media && media.type !== 'photo' && (
+              <div className="flex items-center gap-3 p-3 border-b dark:border-slate-600">
+                {media.type === 'video' ? <Film className="h-8 w-8 text-sky-600" /> : <FileText className="h-8 w-8 text-sky-600" />}
+                <span className="text-sm truncate">{fileName}</span>
+              </div>
+            )}
+            {message && (
+              <div className="p-3 text-sm text-gray-900 dark:text-white whitespace-pre-wrap break-words">{nodes}</div>
+            )}
+          </div>
+          {buttons.map((button, index) => (
+            <div
+              key={index}
+              className="flex items-center justify-center gap-1 rounded-md bg-white/70 dark:bg-slate-700/70 py-1.5 text-sm text-sky-700 dark:text-sky-300"
+            >
+              {button.text || 'Button'}
+              {button.type === 'url' && <ExternalLink className="h-3 w-3" />}
+            </div>
+          ))}
+        </div>
+      </div>
+      {error && (
+        <p className="flex items-center gap-2 text-xs text-red-600 dark:text-red-400">
+          <AlertCircle className="h-3 w-3" />
+          {error}; Telegram won't accept the message until it's fixed.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { useInfiniteQuery, keepPreviousData } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export type ListParams = Record<string, string | number | boolean | undefined>;
+
+export function toSearchParams(params: ListParams): URLSearchParams {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') search.set(key, String(value));
+  });
+  return search;
+}
+
+// A cursor-paginated list endpoint such as /api/users. The query key is [url, params], so
+// invalidating [url] refreshes every filtered view, and changing params starts from page one.
+export function usePagedList<T>(url: string, params: ListParams) {
+  const query = useInfiniteQuery({
+    queryKey: [url, params],
+    initialPageParam: undefined as string | undefined,
+    queryFn: async ({ pageParam }) => {
+      const response = await apiRequest('GET', `${url}?${toSearchParams({ ...params, cursor: pageParam })}`);
+      return response.json() as Promise<Page<T>>;
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    // Keep showing the old rows while a new search loads, so the filters don't unmount
+    placeholderData: keepPreviousData,
+  });
+
+  const items = query.data?.pages.flatMap(page => page.items) ?? [];
+  return { ...query, items };
+}
@@ -0,0 +1,25 @@
+import { useQuery } from "@tanstack/react-query";
+import { hasPermission, type AdminRole, type Permission } from "@shared/permissions";
+
+interface CurrentAdmin {
+  id: number;
+  username: string;
+  name: string;
+  role: AdminRole;
+  twoFactorEnabled: boolean;
+  twoFactorSetupRequired: boolean;
+  recoveryCodesLeft: number;
+  telegramId: string | null;
+}
+
+// The signed-in admin and a helper to check what their role allows.
+// The API enforces the same rules; this only hides what would be refused.
+export function usePermissions() {
+  const { data: admin } = useQuery<CurrentAdmin>({
+    queryKey: ['/api/auth/me'],
+  });
+
+  const can = (permission: Permission) => hasPermission(admin?.role, permission);
+
+  return { admin, can };
+}
@@ -0,0 +1,24 @@
+import { authorizedFetch } from "./queryClient";
+
+// Downloads the users CSV, optionally only the users in a saved segment.
+// Returns false if the server refused, so the caller can tell the admin.
+export async function downloadUsersCsv(segment?: { id: number; name: string }): Promise<boolean> {
+  const response = await authorizedFetch(segment ? `/api/users/export?segmentId=${segment.id}` : '/api/users/export');
+  if (!response.ok) {
+    console.error('Export failed:', response.status, response.statusText);
+    return false;
+  }
+
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = segment
+    ? `telegram_bot_users_${segment.name.toLowerCase().replace(/[^a-z0-9]+/g, '_')}.csv`
+    : 'telegram_bot_users.csv';
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+  return true;
+}
@@ -1,5 +1,99 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+const ACCESS_TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+export function storeSession(session: { token: string; refreshToken?: string }) {
+  localStorage.setItem(ACCESS_TOKEN_KEY, session.token);
+  if (session.refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, session.refreshToken);
+  }
+}
+
+export function clearSession() {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+export function hasSession(): boolean {
+  return !!localStorage.getItem(ACCESS_TOKEN_KEY);
+}
+
+// Revokes this browser's session on the server, then forgets the tokens
+export async function signOut() {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  clearSession();
+  if (refreshToken) {
+    await fetch('/api/auth/logout', {
+      method: 'POST',
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken }),
+    }).catch(() => {});
+  }
+}
+
+// Requests that 401 at the same time share one refresh; the server would treat a
+// second use of the same refresh token as theft and end the session
+let pendingRefresh: Promise<boolean> | null = null;
+
+const REFRESH_LOCK = 'admin-token-refresh';
+
+async function exchangeRefreshToken(): Promise<boolean> {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return false;
+
+  const res = await fetch('/api/auth/refresh', {
+    method: 'POST',
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refreshToken }),
+  });
+  if (!res.ok) return false;
+
+  storeSession(await res.json());
+  return true;
+}
+
+// Every tab shares the tokens in localStorage, so tabs take turns through a Web Lock. A tab that
+// gets the lock after another has refreshed finds a newer access token and just uses it.
+function refreshAccessToken(expiredToken: string): Promise<boolean> {
+  if (!pendingRefresh) {
+    const refresh = () => localStorage.getItem(ACCESS_TOKEN_KEY) !== expiredToken
+      ? Promise.resolve(hasSession())
+      : exchangeRefreshToken();
+    pendingRefresh = (navigator.locks ? navigator.locks.request(REFRESH_LOCK, refresh) : refresh())
+      .catch(() => false)
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+  return pendingRefresh;
+}
+
+// fetch() with the access token attached. A 401 triggers one refresh and retry.
+export async function authorizedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = (token: string | null) => {
+    const headers = new Headers(init.headers);
+    if (token) {
+      headers.set("Authorization", `Bearer ${token}`);
+    }
+    return fetch(url, { ...init, headers, credentials: "include" });
+  };
+
+  const token = localStorage.getItem(ACCESS_TOKEN_KEY);
+  const res = await send(token);
+  if (res.status !== 401 || !token) {
+    return res;
+  }
+
+  // Another tab may already have refreshed while this request was in flight
+  const latest = localStorage.getItem(ACCESS_TOKEN_KEY);
+  if (latest && latest !== token) {
+    return send(latest);
+  }
+
+  return (await refreshAccessToken(token)) ? send(localStorage.getItem(ACCESS_TOKEN_KEY)) : res;
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -7,28 +101,31 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+export function newIdempotencyKey(): string {
+  return crypto.randomUUID();
+}
+
+// Mutations carry an Idempotency-Key, so the retry after a token refresh can't apply them twice.
+// Pass your own key to make a user's retry of the same action safe as well.
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  options: { idempotencyKey?: string } = {},
 ): Promise<Response> {
   const headers: Record<string, string> = {};
   
   if (data) {
     headers["Content-Type"] = "application/json";
   }
-  
-  // Add authorization header if token exists
-  const token = localStorage.getItem('authToken');
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
+  if (method !== 'GET') {
+    headers["Idempotency-Key"] = options.idempotencyKey ?? newIdempotencyKey();
   }
   
-  const res = await fetch(url, {
+  const res = await authorizedFetch(url, {
     method,
     headers,
     body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
   });
 
   await throwIfResNotOk(res);
@@ -41,18 +138,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const headers: Record<string, string> = {};
-    
-    // Add authorization header if token exists
-    const token = localStorage.getItem('authToken');
-    if (token) {
-      headers["Authorization"] = `Bearer ${token}`;
-    }
-    
-    const res = await fetch(queryKey.join("/") as string, {
-      headers,
-      credentials: "include",
-    });
+    const res = await authorizedFetch(queryKey.join("/") as string);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
@@ -0,0 +1,338 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ShieldCheck, Plus, Trash2, Lock } from "lucide-react";
+import { useState } from "react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { CoinLoadingCard } from "@/components/ui/coin-spinner";
+import { ADMIN_ROLES, ROLE_LABELS, type AdminRole } from "@shared/permissions";
+
+const roleDescriptions: Record<AdminRole, string> = {
+  owner: 'Everything, including admins and the bot connection',
+  manager: 'Runs raffles, the shop and settings',
+  support: 'Helps users: coins, orders and conversations',
+  viewer: 'Read-only access',
+};
+
+const emptyForm = { name: '', username: '', password: '', role: 'support' as AdminRole };
+
+export default function Admins() {
+  const { toast } = useToast();
+  const { admin: currentAdmin } = usePermissions();
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [adminToRemove, setAdminToRemove] = useState<any>(null);
+
+  const { data: admins = [], isLoading } = useQuery<any[]>({
+    queryKey: ['/api/admins'],
+  });
+  const lockedAdmins = admins.filter(admin => admin.lockedUntil);
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createAdminMutation = useMutation({
+    mutationFn: async (data: typeof emptyForm) => {
+      const response = await apiRequest('POST', '/api/admins', data);
+      return response.json();
+    },
+    onSuccess: (admin) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admins'] });
+      toast({
+        title: "Admin added",
+        description: `Share the password with @${admin.username} so they can sign in`,
+      });
+      setShowAddDialog(false);
+      setFormData(emptyForm);
+    },
+    onError: onError("Failed to add admin"),
+  });
+
+  const updateAdminMutation = useMutation({
+    mutationFn: async ({ id, ...data }: { id: number; role?: AdminRole; isActive?: boolean; resetTwoFactor?: boolean; unlock?: boolean }) => {
+      const response = await apiRequest('PATCH', `/api/admins/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admins'] });
+    },
+    onError: onError("Failed to update admin"),
+  });
+
+  const deleteAdminMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/admins/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admins'] });
+      toast({
+        title: "Success",
+        description: "Admin removed",
+      });
+      setAdminToRemove(null);
+    },
+    onError: onError("Failed to remove admin"),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createAdminMutation.mutate(formData);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">Admin Accounts</h3>
+          <p className="text-gray-600">Who can sign in to this panel, and what they can do</p>
+        </div>
+        <Button onClick={() => setShowAddDialog(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Admin
+        </Button>
+      </div>
+
+      {lockedAdmins.length > 0 && (
+        <div className="flex items-center gap-3 p-4 bg-red-50 dark:bg-red-950 rounded-lg border border-red-200 dark:border-red-900">
+          <Lock className="h-5 w-5 text-red-600 dark:text-red-400" />
+          <p className="text-sm text-gray-900 dark:text-white">
+            {lockedAdmins.length === 1
+              ? `@${lockedAdmins[0].username} is locked out after too many failed sign-ins.`
+              : `${lockedAdmins.length} admins are locked out after too many failed sign-ins.`}
+            {' '}Check the audit log before unlocking.
+          </p>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Admins ({admins.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <CoinLoadingCard message="Loading admins..." />
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    <th className="pb-3">Admin</th>
+                    <th className="pb-3">Role</th>
+                    <th className="pb-3">Active</th>
+                    <th className="pb-3">2FA</th>
+                    <th className="pb-3">Added</th>
+                    <th className="pb-3">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {admins.map((admin) => {
+                    const isSelf = admin.id === currentAdmin?.id;
+                    return (
+                      <tr key={admin.id} className="border-b border-gray-100 dark:border-gray-800">
+                        <td className="py-3">
+                          <p className="font-medium text-gray-900 dark:text-white">
+                            {admin.name}
+                            {isSelf && <Badge variant="outline" className="ml-2">You</Badge>}
+                          </p>
+                          <p className="text-sm text-gray-500 dark:text-gray-400">@{admin.username}</p>
+                        </td>
+                        <td className="py-3">
+                          <Select
+                            value={admin.role}
+                            onValueChange={(role) => updateAdminMutation.mutate({ id: admin.id, role: role as AdminRole })}
+                            disabled={isSelf || updateAdminMutation.isPending}
+                          >
+                            <SelectTrigger className="w-36">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {ADMIN_ROLES.map(role => (
+                                <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </td>
+                        <td className="py-3">
+                          <div className="flex items-center gap-2">
+                            <Switch
+                              checked={admin.isActive}
+                              onCheckedChange={(isActive) => updateAdminMutation.mutate({ id: admin.id, isActive })}
+                              disabled={isSelf || updateAdminMutation.isPending}
+                            />
+                            {admin.lockedUntil && (
+                              <Badge variant="destructive" title={`Until ${new Date(admin.lockedUntil).toLocaleString()}`}>
+                                Locked
+                              </Badge>
+                            )}
+                          </div>
+                        </td>
+                        <td className="py-3">
+                          <Badge variant={admin.twoFactorEnabled ? 'default' : 'secondary'}>
+                            {admin.twoFactorEnabled ? 'On' : 'Off'}
+                          </Badge>
+                        </td>
+                        <td className="py-3">
+                          <span className="text-sm text-gray-500 dark:text-gray-400">
+                            {new Date(admin.createdAt).toLocaleDateString()}
+                          </span>
+                        </td>
+                        <td className="py-3">
+                          {!isSelf && (
+                            <div className="flex gap-2">
+                              {admin.lockedUntil && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => updateAdminMutation.mutate({ id: admin.id, unlock: true })}
+                                  disabled={updateAdminMutation.isPending}
+                                >
+                                  Unlock
+                                </Button>
+                              )}
+                              {admin.twoFactorEnabled && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => updateAdminMutation.mutate({ id: admin.id, resetTwoFactor: true })}
+                                  disabled={updateAdminMutation.isPending}
+                                >
+                                  Reset 2FA
+                                </Button>
+                              )}
+                              <Button size="sm" variant="outline" onClick={() => setAdminToRemove(admin)}>
+                                <Trash2 className="h-4 w-4" />
+                                Remove
+                              </Button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add Admin Dialog */}
+      <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Admin</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="adminName">Name</Label>
+              <Input
+                id="adminName"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="adminUsername">Username</Label>
+              <Input
+                id="adminUsername"
+                value={formData.username}
+                onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="adminPassword">Temporary Password</Label>
+              <Input
+                id="adminPassword"
+                type="password"
+                minLength={8}
+                value={formData.password}
+                onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                required
+              />
+              <p className="text-xs text-gray-500">At least 8 characters. They can change it after signing in.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="adminRole">Role</Label>
+              <Select value={formData.role} onValueChange={(role) => setFormData({ ...formData, role: role as AdminRole })}>
+                <SelectTrigger id="adminRole">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ADMIN_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">{roleDescriptions[formData.role]}</p>
+            </div>
+
+            <div className="flex space-x-3">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setShowAddDialog(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" className="flex-1" disabled={createAdminMutation.isPending}>
+                {createAdminMutation.isPending ? 'Adding...' : 'Add Admin'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Remove Admin Confirmation */}
+      <AlertDialog open={!!adminToRemove} onOpenChange={(open) => !open && setAdminToRemove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove @{adminToRemove?.username}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They will be signed out and can no longer sign in. Their past actions stay in the audit log.
+              To keep the account but block access, turn off Active instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => adminToRemove && deleteAdminMutation.mutate(adminToRemove.id)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollText, Search, Download } from "lucide-react";
+import { useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CoinLoadingCard } from "@/components/ui/coin-spinner";
+
+const entityTypes = [
+  { value: 'all', label: 'All Areas' },
+  { value: 'users', label: 'Users' },
+  { value: 'raffles', label: 'Raffles' },
+  { value: 'shop', label: 'Shop' },
+  { value: 'purchases', label: 'Orders' },
+  { value: 'conversations', label: 'Conversations' },
+  { value: 'settings', label: 'Settings' },
+  { value: 'ledger', label: 'Ledger' },
+  { value: 'broadcast', label: 'Broadcasts' },
+  { value: 'segments', label: 'Segments' },
+  { value: 'admins', label: 'Admins' },
+  { value: 'sign_in', label: 'Failed Sign-ins' },
+];
+
+const methodVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  POST: 'default',
+  PUT: 'secondary',
+  PATCH: 'secondary',
+  DELETE: 'destructive',
+};
+
+function rangeStart(range: string): string | undefined {
+  const now = new Date();
+  if (range === 'today') return new Date(now.getFullYear(), now.getMonth(), now.getDate()).toISOString();
+  if (range === 'week') return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString();
+  if (range === 'month') return new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString();
+  return undefined;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export default function AuditLog() {
+  const { toast } = useToast();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterEntity, setFilterEntity] = useState('all');
+  const [filterDateRange, setFilterDateRange] = useState('all');
+
+  const filters = {
+    search: searchTerm.trim() || undefined,
+    entityType: filterEntity,
+    from: rangeStart(filterDateRange),
+  };
+
+  const buildParams = () => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined) params.set(key, value);
+    });
+    return params;
+  };
+
+  const { data: entries = [], isLoading } = useQuery<any[]>({
+    queryKey: ['/api/audit-log', filters],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/audit-log?${buildParams()}`);
+      return response.json();
+    },
+  });
+
+  const handleExport = async () => {
+    try {
+      const response = await apiRequest('GET', `/api/audit-log/export?${buildParams()}`);
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'admin_audit_log.csv';
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Audit log export error:', error);
+      toast({
+        title: "Export Failed",
+        description: "Unable to export the audit log. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            placeholder="Search by admin, route, ID or description..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+
+        <Select value={filterEntity} onValueChange={setFilterEntity}>
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {entityTypes.map(type => (
+              <SelectItem key={type.value} value={type.value}>
+                {type.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={filterDateRange} onValueChange={setFilterDateRange}>
+          <SelectTrigger className="w-full sm:w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Time</SelectItem>
+            <SelectItem value="today">Today</SelectItem>
+            <SelectItem value="week">This Week</SelectItem>
+            <SelectItem value="month">This Month</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Button variant="outline" onClick={handleExport}>
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ScrollText className="h-5 w-5" />
+            Admin Activity ({entries.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <CoinLoadingCard message="Loading audit log..." />
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No admin activity matches these filters.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    <th className="pb-3">Time</th>
+                    <th className="pb-3">Admin</th>
+                    <th className="pb-3">Action</th>
+                    <th className="pb-3">Target</th>
+                    <th className="pb-3">Changes</th>
+                    <th className="pb-3">IP</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map((entry) => (
+                    <tr key={entry.id} className="border-b border-gray-100 dark:border-gray-800 align-top">
+                      <td className="py-3">
+                        <span className="text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </span>
+                      </td>
+                      <td className="py-3">
+                        <p className="font-medium text-gray-900 dark:text-white">
+                          {entry.admin?.name || (entry.entityType === 'sign_in' ? 'Not signed in' : 'Deleted admin')}
+                        </p>
+                        {entry.admin && (
+                          <p className="text-sm text-gray-500 dark:text-gray-400">@{entry.admin.username}</p>
+                        )}
+                      </td>
+                      <td className="py-3">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={methodVariants[entry.method] || 'outline'}>{entry.method}</Badge>
+                          <code className="text-xs text-gray-700 dark:text-gray-300">{entry.path}</code>
+                        </div>
+                        {entry.statusCode >= 400 && (
+                          <Badge variant="outline" className="mt-1 text-red-600">Failed ({entry.statusCode})</Badge>
+                        )}
+                        {entry.description && (
+                          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{entry.description}</p>
+                        )}
+                      </td>
+                      <td className="py-3">
+                        <span className="text-sm text-gray-900 dark:text-white">
+                          {entry.entityType || '—'}{entry.entityId && ` #${entry.entityId}`}
+                        </span>
+                      </td>
+                      <td className="py-3">
+                        {entry.changes && Object.keys(entry.changes).length > 0 ? (
+                          <div className="space-y-1">
+                            {Object.entries(entry.changes as Record<string, { before: unknown; after: unknown }>).map(([field, change]) => (
+                              <p key={field} className="text-xs text-gray-600 dark:text-gray-400 max-w-sm break-all">
+                                <span className="font-medium text-gray-900 dark:text-white">{field}</span>:{' '}
+                                <span className="line-through">{formatValue(change.before)}</span>
+                                {' → '}
+                                <span>{formatValue(change.after)}</span>
+                              </p>
+                            ))}
+                          </div>
+                        ) : (
+                          <span className="text-sm text-gray-400">—</span>
+                        )}
+                      </td>
+                      <td className="py-3">
+                        <span className="text-xs text-gray-500 dark:text-gray-400">{entry.ip || '—'}</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
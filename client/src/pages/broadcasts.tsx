@@ -0,0 +1,436 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Calendar } from "@/components/ui/calendar";
+import { Megaphone, Plus, Download, Pencil, Trash2, Filter, CalendarClock } from "lucide-react";
+import { useState, useMemo } from "react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { downloadUsersCsv } from "@/lib/export-users";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { CoinLoadingCard } from "@/components/ui/coin-spinner";
+import BroadcastMessageModal from "@/components/modals/broadcast-message-modal";
+import SegmentModal from "@/components/modals/segment-modal";
+import { describeSegment } from "@shared/segments";
+import { describeTiming, occurrencesBetween } from "@shared/broadcast-schedules";
+import { summarizeContent } from "@shared/broadcast-content";
+
+const statusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  sending: 'outline',
+  completed: 'default',
+  cancelled: 'destructive',
+};
+
+// How often progress refreshes while something is still sending
+const PROGRESS_REFRESH_MS = 2000;
+
+// Local calendar day, for grouping sends on the calendar
+function dayKey(date: Date): string {
+  return date.toDateString();
+}
+
+function percentDone(broadcast: any): number {
+  if (!broadcast.totalRecipients) return 100;
+  return Math.round(((broadcast.sent + broadcast.failed) / broadcast.totalRecipients) * 100);
+}
+
+export default function Broadcasts() {
+  const { toast } = useToast();
+  const [showNewBroadcast, setShowNewBroadcast] = useState(false);
+  const [reportId, setReportId] = useState<number | null>(null);
+  // undefined while closed, null for a new segment
+  const [editingSegment, setEditingSegment] = useState<any | null | undefined>(undefined);
+  const [editingSchedule, setEditingSchedule] = useState<any | null>(null);
+  const [calendarMonth, setCalendarMonth] = useState(() => new Date());
+  const [calendarDay, setCalendarDay] = useState<Date | undefined>(() => new Date());
+  const { can } = usePermissions();
+
+  const { data: broadcasts = [], isLoading } = useQuery<any[]>({
+    queryKey: ['/api/broadcasts'],
+    refetchInterval: (query) =>
+      query.state.data?.some(broadcast => broadcast.status === 'sending') ? PROGRESS_REFRESH_MS : false,
+  });
+
+  const { data: segments = [] } = useQuery<any[]>({
+    queryKey: ['/api/segments'],
+  });
+
+  const { data: schedules = [] } = useQuery<any[]>({
+    queryKey: ['/api/broadcast-schedules'],
+  });
+
+  // Every send in the month on show, recurring ones included, grouped by day
+  const sendsByDay = useMemo(() => {
+    const from = new Date(calendarMonth.getFullYear(), calendarMonth.getMonth(), 1);
+    const to = new Date(calendarMonth.getFullYear(), calendarMonth.getMonth() + 1, 1);
+    const byDay = new Map<string, { schedule: any; at: Date }[]>();
+    for (const schedule of schedules) {
+      for (const at of occurrencesBetween(schedule, from, to)) {
+        byDay.set(dayKey(at), [...(byDay.get(dayKey(at)) ?? []), { schedule, at }]);
+      }
+    }
+    byDay.forEach(sends => sends.sort((a, b) => a.at.getTime() - b.at.getTime()));
+    return byDay;
+  }, [schedules, calendarMonth]);
+  const sendDays = Array.from(sendsByDay.values()).map(sends => sends[0].at);
+  const selectedDaySends = calendarDay ? sendsByDay.get(dayKey(calendarDay)) ?? [] : [];
+
+  const { data: report } = useQuery<any>({
+    queryKey: ['/api/broadcasts', reportId],
+    enabled: reportId !== null,
+    refetchInterval: (query) => query.state.data?.status === 'sending' ? PROGRESS_REFRESH_MS : false,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/broadcasts/${id}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/broadcasts'] });
+      toast({
+        title: "Broadcast cancelled",
+        description: "Nobody else will receive it. Messages already sent stay sent.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel broadcast",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelScheduleMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/broadcast-schedules/${id}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/broadcast-schedules'] });
+      toast({
+        title: "Schedule cancelled",
+        description: "It won't send again.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel scheduled broadcast",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteSegmentMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/segments/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/segments'] });
+      toast({
+        title: "Segment deleted",
+        description: "Broadcasts already sent to it keep their audience.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete segment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const exportSegment = async (segment: any) => {
+    if (!await downloadUsersCsv(segment)) {
+      toast({
+        title: "Export Failed",
+        description: "Unable to export this segment. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">Broadcasts</h3>
+          <p className="text-gray-600">Announcements send now or on a schedule, and keep going in the background even if the server restarts</p>
+        </div>
+        <Button onClick={() => setShowNewBroadcast(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Broadcast
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Scheduled
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col md:flex-row gap-6">
+            <Calendar
+              mode="single"
+              selected={calendarDay}
+              onSelect={setCalendarDay}
+              month={calendarMonth}
+              onMonthChange={setCalendarMonth}
+              modifiers={{ hasSends: sendDays }}
+              modifiersClassNames={{ hasSends: 'font-bold underline decoration-primary decoration-2 underline-offset-4' }}
+              className="rounded-md border self-start"
+            />
+            <div className="flex-1 min-w-0 space-y-4">
+              {calendarDay && (
+                <div>
+                  <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">{calendarDay.toDateString()}</p>
+                  {selectedDaySends.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Nothing is scheduled for this day.</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {selectedDaySends.map(({ schedule, at }) => (
+                        <li key={`${schedule.id}-${at.getTime()}`} className="text-sm text-gray-700 dark:text-gray-300 truncate">
+                          <span className="font-medium">{at.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span> · {summarizeContent(schedule)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {schedules.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Nothing is scheduled. Choose "Schedule for later" when creating a broadcast.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {schedules.map((schedule) => (
+                    <div key={schedule.id} className="flex justify-between items-start gap-4 border-b border-gray-100 dark:border-gray-800 pb-3">
+                      <div className="min-w-0">
+                        <p className="text-sm text-gray-900 dark:text-white line-clamp-2">{summarizeContent(schedule)}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          {describeTiming(schedule)} · {describeSegment(schedule.criteria)}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          Next: {new Date(schedule.nextRunAt).toLocaleString()}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <Button size="sm" variant="outline" onClick={() => setEditingSchedule(schedule)} title="Edit">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => cancelScheduleMutation.mutate(schedule.id)}
+                          disabled={cancelScheduleMutation.isPending}
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Megaphone className="h-5 w-5" />
+            Recent Broadcasts
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <CoinLoadingCard message="Loading broadcasts..." />
+          ) : broadcasts.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No broadcasts have been sent yet.</p>
+          ) : (
+            <div className="space-y-4">
+              {broadcasts.map((broadcast) => (
+                <div key={broadcast.id} className="border-b border-gray-100 dark:border-gray-800 pb-4 space-y-2">
+                  <div className="flex justify-between items-start gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm text-gray-900 dark:text-white whitespace-pre-wrap line-clamp-3">{summarizeContent(broadcast)}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {new Date(broadcast.createdAt).toLocaleString()} · {describeSegment(broadcast.criteria)}
+                        {broadcast.scheduleId && ' · scheduled'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant={statusVariants[broadcast.status] || 'outline'}>{broadcast.status}</Badge>
+                      {broadcast.status === 'sending' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => cancelMutation.mutate(broadcast.id)}
+                          disabled={cancelMutation.isPending}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                      <Button size="sm" variant="outline" onClick={() => setReportId(broadcast.id)}>
+                        Report
+                      </Button>
+                    </div>
+                  </div>
+                  <Progress value={percentDone(broadcast)} className="h-2" />
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {broadcast.sent} sent · {broadcast.failed} failed · {broadcast.pending} waiting · {broadcast.totalRecipients} recipients
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2">
+            <Filter className="h-5 w-5" />
+            Segments
+          </CardTitle>
+          <Button size="sm" variant="outline" onClick={() => setEditingSegment(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Segment
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {segments.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Save an audience here, or while sending a broadcast, to reuse it for later broadcasts and exports.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {segments.map((segment) => (
+                <div key={segment.id} className="flex justify-between items-center gap-4 border-b border-gray-100 dark:border-gray-800 pb-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">{segment.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{describeSegment(segment.criteria)}</p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {can('users.export') && (
+                      <Button size="sm" variant="outline" onClick={() => exportSegment(segment)} title="Export users">
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => setEditingSegment(segment)} title="Edit">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => deleteSegmentMutation.mutate(segment.id)}
+                      disabled={deleteSegmentMutation.isPending}
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Delivery Report */}
+      <Dialog open={reportId !== null} onOpenChange={(open) => !open && setReportId(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Delivery Report</DialogTitle>
+          </DialogHeader>
+
+          {!report ? (
+            <CoinLoadingCard message="Loading report..." />
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div>
+                  <p className="text-2xl font-bold text-green-600 dark:text-green-400">{report.sent}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Sent</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-red-600 dark:text-red-400">{report.failed}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Failed</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-gray-900 dark:text-white">{report.pending}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Waiting</p>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {report.completedAt
+                  ? `${report.status === 'cancelled' ? 'Cancelled' : 'Finished'} ${new Date(report.completedAt).toLocaleString()}`
+                  : `Started ${new Date(report.createdAt).toLocaleString()}, still sending`}
+              </p>
+
+              {report.failures.length > 0 && (
+                <div className="max-h-80 overflow-y-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        <th className="pb-2">User</th>
+                        <th className="pb-2">Attempts</th>
+                        <th className="pb-2">Error</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.failures.map((failure: any) => (
+                        <tr key={failure.userId} className="border-b border-gray-100 dark:border-gray-800">
+                          <td className="py-2 text-sm text-gray-900 dark:text-white">
+                            {failure.firstName || failure.username || 'Unknown'}
+                            <span className="text-gray-500 dark:text-gray-400"> @{failure.username || failure.telegramId}</span>
+                          </td>
+                          <td className="py-2 text-sm text-gray-900 dark:text-white">{failure.attempts}</td>
+                          <td className="py-2 text-sm text-red-600 dark:text-red-400">{failure.error}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {report.failures.length < report.failed && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                      Showing the first {report.failures.length} of {report.failed} failures.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <BroadcastMessageModal
+        open={showNewBroadcast}
+        onClose={() => setShowNewBroadcast(false)}
+      />
+
+      <BroadcastMessageModal
+        open={editingSchedule !== null}
+        onClose={() => setEditingSchedule(null)}
+        schedule={editingSchedule}
+      />
+
+      <SegmentModal
+        open={editingSegment !== undefined}
+        onClose={() => setEditingSegment(undefined)}
+        segment={editingSegment ?? null}
+      />
+    </div>
+  );
+}
@@ -1,28 +1,64 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Coins as CoinsIcon, TrendingUp, TrendingDown, DollarSign } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Coins as CoinsIcon, TrendingUp, TrendingDown, DollarSign, Scale, CheckCircle, AlertTriangle } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 
 export default function Coins() {
-  const { data: users = [], isLoading } = useQuery({
-    queryKey: ['/api/users'],
+  const { toast } = useToast();
+
+  const { data: stats, isLoading } = useQuery<any>({
+    queryKey: ['/api/dashboard/stats'],
+  });
+
+  const { data: summary } = useQuery<any>({
+    queryKey: ['/api/transactions/summary'],
   });
 
-  const { data: transactions = [] } = useQuery({
-    queryKey: ['/api/transactions'],
+  const { data: topUsersPage } = useQuery<any>({
+    queryKey: ['/api/users', { sort: 'coins', order: 'desc', limit: 10 }],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/users?sort=coins&order=desc&limit=10');
+      return response.json();
+    },
   });
 
+  const { data: reconciliation } = useQuery<any>({
+    queryKey: ['/api/ledger/reconciliation'],
+  });
+
+  const reconcileMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/ledger/reconciliation');
+      return response.json();
+    },
+    onSuccess: (report) => {
+      queryClient.setQueryData(['/api/ledger/reconciliation'], report);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to check the ledger",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const mismatches: any[] = reconciliation?.mismatches || [];
+  const ledgerBalanced = mismatches.length === 0 && reconciliation?.unbalancedTransactions === 0;
+
   // Calculate coin statistics
-  const totalCoins = users.reduce((sum, user) => sum + user.coins, 0);
-  const avgCoinsPerUser = users.length > 0 ? Math.round(totalCoins / users.length) : 0;
+  const totalCoins = stats?.totalCoins || 0;
+  const avgCoinsPerUser = stats?.totalUsers > 0 ? Math.round(totalCoins / stats.totalUsers) : 0;
   
-  const dailyRewards = transactions.filter(t => t.type === 'daily_reward').length;
-  const referralRewards = transactions.filter(t => t.type === 'referral').length;
-  const raffleEntries = transactions.filter(t => t.type === 'raffle_entry').length;
-  const shopPurchases = transactions.filter(t => t.type === 'shop_purchase').length;
+  const byType = summary?.byType || {};
+  const dailyRewards = byType.daily_reward || 0;
+  const referralRewards = byType.referral || 0;
+  const raffleEntries = byType.raffle_entry || 0;
+  const shopPurchases = byType.shop_purchase || 0;
 
-  const topUsers = [...users]
-    .sort((a, b) => b.coins - a.coins)
-    .slice(0, 10);
+  const topUsers: any[] = topUsersPage?.items || [];
 
   if (isLoading) {
     return (
@@ -197,6 +233,81 @@ export default function Coins() {
           </CardContent>
         </Card>
       </div>
+
+      {/* Ledger Check */}
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="h-5 w-5" />
+              Ledger Check
+            </CardTitle>
+            <Button size="sm" variant="outline" onClick={() => reconcileMutation.mutate()} disabled={reconcileMutation.isPending}>
+              {reconcileMutation.isPending ? 'Checking...' : 'Run Check'}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!reconciliation ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Balances haven't been checked against the ledger yet.</p>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                {ledgerBalanced ? (
+                  <CheckCircle className="h-5 w-5 text-green-600 dark:text-green-400" />
+                ) : (
+                  <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400" />
+                )}
+                <p className="text-sm text-gray-900 dark:text-white">
+                  {ledgerBalanced
+                    ? `All ${reconciliation.usersChecked} balances match the ledger.`
+                    : `${mismatches.length} of ${reconciliation.usersChecked} balances don't match the ledger` +
+                      (reconciliation.unbalancedTransactions > 0
+                        ? `, and ${reconciliation.unbalancedTransactions} transactions don't balance.`
+                        : '.')}
+                </p>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Last checked {new Date(reconciliation.createdAt).toLocaleString()}
+              </p>
+
+              {mismatches.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        <th className="pb-3">User</th>
+                        <th className="pb-3">Balance</th>
+                        <th className="pb-3">Ledger</th>
+                        <th className="pb-3">Difference</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {mismatches.map((mismatch) => (
+                        <tr key={mismatch.userId} className="border-b border-gray-100 dark:border-gray-800">
+                          <td className="py-2">
+                            <p className="font-medium text-gray-900 dark:text-white">
+                              {mismatch.firstName || mismatch.username || 'Unknown'}
+                            </p>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                              @{mismatch.username || mismatch.telegramId}
+                            </p>
+                          </td>
+                          <td className="py-2 text-sm text-gray-900 dark:text-white">{mismatch.balance}</td>
+                          <td className="py-2 text-sm text-gray-900 dark:text-white">{mismatch.ledgerBalance}</td>
+                          <td className="py-2 text-sm font-medium text-red-600 dark:text-red-400">
+                            {mismatch.balance - mismatch.ledgerBalance > 0 ? '+' : ''}{mismatch.balance - mismatch.ledgerBalance}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
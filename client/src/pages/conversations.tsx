@@ -0,0 +1,138 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { MessageSquare, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CoinLoadingCard } from "@/components/ui/coin-spinner";
+import { usePermissions } from "@/hooks/use-permissions";
+
+const stateLabels: Record<string, string> = {
+  expecting_invite_code: 'Entering invite code',
+  expecting_raffle_quantity: 'Choosing raffle tickets',
+  browsing_raffles: 'Browsing raffles',
+  browsing_shop: 'Browsing the shop',
+};
+
+export default function Conversations() {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+
+  // Refresh regularly so expired flows drop off the list
+  const { data: conversations = [], isLoading } = useQuery<any[]>({
+    queryKey: ['/api/conversations'],
+    refetchInterval: 30000,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async (telegramId: string) => {
+      const response = await apiRequest('DELETE', `/api/conversations/${telegramId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+      toast({
+        title: "Success",
+        description: "Conversation cleared",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to clear conversation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CoinLoadingCard message="Loading conversations..." />
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5" />
+            Active Conversations ({conversations.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {conversations.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              The bot is not waiting on any users right now.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    <th className="pb-3">User</th>
+                    <th className="pb-3">State</th>
+                    <th className="pb-3">Payload</th>
+                    <th className="pb-3">Last Update</th>
+                    <th className="pb-3">Expires</th>
+                    <th className="pb-3">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {conversations.map((conversation) => (
+                    <tr key={conversation.id} className="border-b border-gray-100 dark:border-gray-800">
+                      <td className="py-3">
+                        <p className="font-medium text-gray-900 dark:text-white">
+                          {conversation.user?.firstName || conversation.user?.username || 'Unknown'}
+                        </p>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          {conversation.telegramId}
+                        </p>
+                      </td>
+                      <td className="py-3">
+                        <Badge variant="secondary">
+                          {stateLabels[conversation.state] || conversation.state}
+                        </Badge>
+                      </td>
+                      <td className="py-3">
+                        <code className="text-sm bg-gray-100 dark:bg-gray-800 dark:text-white px-2 py-1 rounded">
+                          {JSON.stringify(conversation.payload)}
+                        </code>
+                      </td>
+                      <td className="py-3">
+                        <span className="text-sm text-gray-500 dark:text-gray-400">
+                          {new Date(conversation.updatedAt).toLocaleString()}
+                        </span>
+                      </td>
+                      <td className="py-3">
+                        <span className="text-sm text-gray-500 dark:text-gray-400">
+                          {new Date(conversation.expiresAt).toLocaleString()}
+                        </span>
+                      </td>
+                      <td className="py-3">
+                        {can('conversations.manage') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => clearMutation.mutate(conversation.telegramId)}
+                            disabled={clearMutation.isPending}
+                          >
+                            <X className="h-4 w-4" />
+                            Clear
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
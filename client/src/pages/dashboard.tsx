@@ -2,13 +2,17 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Users, Coins, Gift, Calendar, Plus, ShoppingCart, Download, Megaphone } from "lucide-react";
+import { Users, Coins, Gift, Calendar, Plus, ShoppingCart, Download, Megaphone, GraduationCap } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
 import { useState } from "react";
 import CreateRaffleModal from "@/components/modals/create-raffle-modal";
 import AddShopItemModal from "@/components/modals/add-shop-item-modal";
 import BroadcastMessageModal from "@/components/modals/broadcast-message-modal";
 import { CoinLoadingCard } from "@/components/ui/coin-spinner";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadUsersCsv } from "@/lib/export-users";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
@@ -18,68 +22,31 @@ export default function Dashboard() {
   const [showBroadcastMessage, setShowBroadcastMessage] = useState(false);
   const [activityRange, setActivityRange] = useState<string>('7days');
   const { toast } = useToast();
+  const { can } = usePermissions();
 
   const { data: stats, isLoading } = useQuery({
     queryKey: ['/api/dashboard/stats'],
     refetchInterval: 30000, // Refresh every 30 seconds
   });
 
-  const { data: users = [] } = useQuery({
-    queryKey: ['/api/users'],
+  const { data: onboardingFunnel } = useQuery<any>({
+    queryKey: ['/api/onboarding/funnel'],
   });
 
-  const { data: transactions = [] } = useQuery({
-    queryKey: ['/api/transactions'],
+  const days = activityRange === '7days' ? 7 : activityRange === '30days' ? 30 : 90;
+  const { data: activity = [] } = useQuery<any[]>({
+    queryKey: ['/api/dashboard/activity', { days }],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/dashboard/activity?days=${days}`);
+      return response.json();
+    },
   });
 
-  // Process user activity data
-  const processActivityData = () => {
-    // Use the actual date from the system - July 14, 2025
-    const now = new Date('2025-07-14T23:00:00');
-    const days = activityRange === '7days' ? 7 : activityRange === '30days' ? 30 : 90;
-    const startDate = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
-    
-    // Initialize date map
-    const dateMap: Record<string, { registrations: number; dailyActive: number }> = {};
-    
-    // Fill all dates in range
-    for (let i = 0; i < days; i++) {
-      const date = new Date(startDate.getTime() + i * 24 * 60 * 60 * 1000);
-      const dateKey = date.toISOString().split('T')[0];
-      dateMap[dateKey] = { registrations: 0, dailyActive: 0 };
-    }
-    
-    // Count registrations
-    users.forEach(user => {
-      const userDate = new Date(user.createdAt);
-      if (userDate >= startDate && userDate <= now) {
-        const dateKey = userDate.toISOString().split('T')[0];
-        if (dateMap[dateKey]) {
-          dateMap[dateKey].registrations++;
-        }
-      }
-    });
-    
-    // Count daily active users (based on transactions)
-    transactions.forEach(transaction => {
-      const transactionDate = new Date(transaction.createdAt);
-      if (transactionDate >= startDate && transactionDate <= now) {
-        const dateKey = transactionDate.toISOString().split('T')[0];
-        if (dateMap[dateKey] && transaction.type === 'daily_reward') {
-          dateMap[dateKey].dailyActive++;
-        }
-      }
-    });
-    
-    // Convert to array for chart
-    return Object.entries(dateMap).map(([date, data]) => ({
-      date: new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-      registrations: data.registrations,
-      dailyActive: data.dailyActive,
-    }));
-  };
-
-  const activityData = processActivityData();
+  const activityData = activity.map(day => ({
+    date: new Date(day.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }),
+    registrations: day.registrations,
+    dailyActive: day.dailyActive,
+  }));
 
   if (isLoading) {
     return (
@@ -327,72 +294,62 @@ export default function Dashboard() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              <Button 
-                className="w-full" 
-                onClick={() => setShowCreateRaffle(true)}
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Create New Raffle
-              </Button>
-              <Button 
-                className="w-full" 
-                variant="outline"
-                onClick={() => setShowAddShopItem(true)}
-              >
-                <ShoppingCart className="h-4 w-4 mr-2" />
-                Add Shop Item
-              </Button>
-              <Button 
-                className="w-full" 
-                variant="outline"
-                onClick={() => setShowBroadcastMessage(true)}
-              >
-                <Megaphone className="h-4 w-4 mr-2" />
-                Send Announcement
-              </Button>
-              <Button 
-                className="w-full" 
-                variant="outline"
-                onClick={async () => {
-                  try {
-                    const token = localStorage.getItem('authToken');
-                    const response = await fetch('/api/users/export', {
-                      headers: {
-                        'Authorization': `Bearer ${token}`
+              {can('raffles.manage') && (
+                <Button 
+                  className="w-full" 
+                  onClick={() => setShowCreateRaffle(true)}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create New Raffle
+                </Button>
+              )}
+              {can('shop.manage') && (
+                <Button 
+                  className="w-full" 
+                  variant="outline"
+                  onClick={() => setShowAddShopItem(true)}
+                >
+                  <ShoppingCart className="h-4 w-4 mr-2" />
+                  Add Shop Item
+                </Button>
+              )}
+              {can('broadcast.send') && (
+                <Button 
+                  className="w-full" 
+                  variant="outline"
+                  onClick={() => setShowBroadcastMessage(true)}
+                >
+                  <Megaphone className="h-4 w-4 mr-2" />
+                  Send Announcement
+                </Button>
+              )}
+              {can('users.export') && (
+                <Button 
+                  className="w-full" 
+                  variant="outline"
+                  onClick={async () => {
+                    try {
+                      if (await downloadUsersCsv()) {
+                        toast({
+                          title: "Export Successful",
+                          description: "User data has been exported to CSV file",
+                        });
+                      } else {
+                        toast({
+                          title: "Export Failed",
+                          description: "Unable to export user data. Please try again.",
+                          variant: "destructive",
+                        });
                       }
-                    });
-                    
-                    if (response.ok) {
-                      const blob = await response.blob();
-                      const url = window.URL.createObjectURL(blob);
-                      const a = document.createElement('a');
-                      a.href = url;
-                      a.download = 'telegram_bot_users.csv';
-                      document.body.appendChild(a);
-                      a.click();
-                      window.URL.revokeObjectURL(url);
-                      document.body.removeChild(a);
-                      
-                      toast({
-                        title: "Export Successful",
-                        description: "User data has been exported to CSV file",
-                      });
-                    } else {
-                      console.error('Export failed:', response.status, response.statusText);
-                      toast({
-                        title: "Export Failed",
-                        description: "Unable to export user data. Please try again.",
-                        variant: "destructive",
-                      });
+                    } catch (error) {
+                      console.error('Export error:', error);
                     }
-                  } catch (error) {
-                    console.error('Export error:', error);
-                  }
-                }}
-              >
-                <Download className="h-4 w-4 mr-2" />
-                Export Users Data
-              </Button>
+                  }}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Export Users Data
+                </Button>
+              )}
             </div>
 
             {/* Bot Status */}
@@ -417,6 +374,48 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      {/* Onboarding Funnel */}
+      {onboardingFunnel && (
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <CardTitle className="flex items-center gap-2">
+                <GraduationCap className="h-5 w-5" />
+                Onboarding Funnel
+              </CardTitle>
+              <span className="text-sm font-medium text-muted-foreground">
+                {onboardingFunnel.completed} of {onboardingFunnel.totalUsers} users finished
+              </span>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              <div className="flex justify-between items-center text-sm">
+                <span className="font-medium text-muted-foreground">Not started</span>
+                <span className="font-bold text-foreground">{onboardingFunnel.notStarted}</span>
+              </div>
+              {onboardingFunnel.steps.map((step: any) => {
+                const percent = onboardingFunnel.totalUsers > 0
+                  ? Math.round((step.reached / onboardingFunnel.totalUsers) * 100)
+                  : 0;
+                return (
+                  <div key={step.key} className="space-y-1">
+                    <div className="flex justify-between items-center text-sm">
+                      <span className="font-medium text-foreground">{step.step}. {step.title}</span>
+                      <span className="text-muted-foreground">
+                        <span className="font-bold text-foreground">{step.reached}</span> reached ({percent}%)
+                        {step.droppedHere > 0 && ` · ${step.droppedHere} stopped here`}
+                      </span>
+                    </div>
+                    <Progress value={percent} />
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Modals */}
       <CreateRaffleModal 
         open={showCreateRaffle} 
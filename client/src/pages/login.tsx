@@ -5,7 +5,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { Send } from "lucide-react";
+import { Send, ShieldCheck } from "lucide-react";
+import { storeSession } from "@/lib/queryClient";
 
 export default function Login() {
   const [, setLocation] = useLocation();
@@ -15,30 +16,39 @@ export default function Login() {
     username: '',
     password: ''
   });
+  // Set once the password is accepted for an admin with two-factor auth
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
 
     try {
-      const response = await fetch('/api/auth/login', {
+      const response = await fetch(challengeToken ? '/api/auth/login/2fa' : '/api/auth/login', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify(challengeToken ? { challengeToken, code } : formData),
       });
 
       const data = await response.json();
 
-      if (response.ok) {
-        localStorage.setItem('authToken', data.token);
+      if (response.ok && data.twoFactorRequired) {
+        setChallengeToken(data.challengeToken);
+      } else if (response.ok) {
+        storeSession(data);
         toast({
           title: "Login successful",
           description: `Welcome back, ${data.admin.name}!`,
         });
         setLocation('/');
       } else {
+        // The challenge only lasts a few minutes; start over from the password
+        if (data.message === 'Login expired, please sign in again') {
+          handleBack();
+        }
         toast({
           title: "Login failed",
           description: data.message || "Invalid credentials",
@@ -56,44 +66,85 @@ export default function Login() {
     }
   };
 
+  const handleBack = () => {
+    setChallengeToken(null);
+    setCode('');
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50">
       <Card className="w-full max-w-md">
         <CardHeader className="text-center">
           <div className="flex justify-center mb-4">
             <div className="w-12 h-12 bg-primary rounded-lg flex items-center justify-center">
-              <Send className="h-6 w-6 text-white" />
+              {challengeToken ? (
+                <ShieldCheck className="h-6 w-6 text-white" />
+              ) : (
+                <Send className="h-6 w-6 text-white" />
+              )}
             </div>
           </div>
-          <CardTitle className="text-2xl">Admin Login</CardTitle>
-          <p className="text-gray-600">Sign in to access the admin panel</p>
+          <CardTitle className="text-2xl">{challengeToken ? 'Two-Factor Check' : 'Admin Login'}</CardTitle>
+          <p className="text-gray-600">
+            {challengeToken
+              ? 'Enter the 6-digit code from your authenticator app'
+              : 'Sign in to access the admin panel'}
+          </p>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="username">Username</Label>
-              <Input
-                id="username"
-                type="text"
-                value={formData.username}
-                onChange={(e) => setFormData(prev => ({ ...prev, username: e.target.value }))}
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                value={formData.password}
-                onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
-                required
-              />
-            </div>
-            <Button type="submit" className="w-full" disabled={loading}>
-              {loading ? 'Signing in...' : 'Sign In'}
-            </Button>
-          </form>
+          {challengeToken ? (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="code">Authentication Code</Label>
+                <Input
+                  id="code"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                />
+                <p className="text-xs text-gray-500">
+                  Lost your device? Enter one of your recovery codes instead.
+                </p>
+              </div>
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? 'Verifying...' : 'Verify'}
+              </Button>
+              <Button type="button" variant="ghost" className="w-full" onClick={handleBack} disabled={loading}>
+                Back
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="username">Username</Label>
+                <Input
+                  id="username"
+                  type="text"
+                  value={formData.username}
+                  onChange={(e) => setFormData(prev => ({ ...prev, username: e.target.value }))}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={formData.password}
+                  onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? 'Signing in...' : 'Sign In'}
+              </Button>
+            </form>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -1,4 +1,4 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
@@ -6,127 +6,83 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { History, Search, Filter, Download, Activity, TrendingUp, BarChart3 } from "lucide-react";
 import { useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import { usePagedList, toSearchParams } from "@/hooks/use-paged-list";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 
+// Start of the selected date range, as sent to the API
+function rangeStart(range: string): string | undefined {
+  const now = new Date();
+  if (range === 'today') return new Date(now.getFullYear(), now.getMonth(), now.getDate()).toISOString();
+  if (range === 'week') return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString();
+  if (range === 'month') return new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString();
+  return undefined;
+}
+
 export default function Logs() {
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState<string>('all');
   const [filterDateRange, setFilterDateRange] = useState<string>('all');
   const [activityRange, setActivityRange] = useState<string>('7days');
 
-  const { data: transactions = [], isLoading } = useQuery({
-    queryKey: ['/api/transactions'],
-  });
-
-  const { data: users = [] } = useQuery({
-    queryKey: ['/api/users'],
-  });
-
-  // Create a map of user IDs to user data for quick lookup
-  const userMap = users.reduce((acc, user) => {
-    acc[user.id] = user;
-    return acc;
-  }, {} as Record<number, any>);
-
-  // Process user activity data
-  const processActivityData = () => {
-    // Use the actual date from the system - July 14, 2025
-    const now = new Date('2025-07-14T23:00:00');
-    const days = activityRange === '7days' ? 7 : activityRange === '30days' ? 30 : 90;
-    const startDate = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
-    
-    // Initialize date map
-    const dateMap: Record<string, { registrations: number; dailyActive: number }> = {};
-    
-    // Fill all dates in range
-    for (let i = 0; i < days; i++) {
-      const date = new Date(startDate.getTime() + i * 24 * 60 * 60 * 1000);
-      const dateKey = date.toISOString().split('T')[0];
-      dateMap[dateKey] = { registrations: 0, dailyActive: 0 };
-    }
-    
-    // Count registrations
-    users.forEach(user => {
-      const userDate = new Date(user.createdAt);
-      if (userDate >= startDate && userDate <= now) {
-        const dateKey = userDate.toISOString().split('T')[0];
-        if (dateMap[dateKey]) {
-          dateMap[dateKey].registrations++;
-        }
-      }
-    });
-    
-    // Count daily active users (based on transactions)
-    transactions.forEach(transaction => {
-      const transactionDate = new Date(transaction.createdAt);
-      if (transactionDate >= startDate && transactionDate <= now) {
-        const dateKey = transactionDate.toISOString().split('T')[0];
-        if (dateMap[dateKey] && transaction.type === 'daily_reward') {
-          dateMap[dateKey].dailyActive++;
-        }
-      }
-    });
-    
-    // Convert to array for chart
-    return Object.entries(dateMap).map(([date, data]) => ({
-      date: new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-      registrations: data.registrations,
-      dailyActive: data.dailyActive,
-    }));
+  const filters = {
+    search: searchTerm.trim() || undefined,
+    type: filterType,
+    from: rangeStart(filterDateRange),
   };
 
-  const activityData = processActivityData();
+  const {
+    items: transactions,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = usePagedList<any>('/api/transactions', filters);
 
-  // Filter transactions
-  const filteredTransactions = transactions.filter(transaction => {
-    const user = userMap[transaction.userId];
-    const userName = user?.firstName || user?.username || user?.telegramId || '';
-    
-    const matchesSearch = searchTerm === '' || 
-      userName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      transaction.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      transaction.type.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesType = filterType === 'all' || transaction.type === filterType;
-    
-    let matchesDate = true;
-    if (filterDateRange !== 'all') {
-      const transactionDate = new Date(transaction.createdAt);
-      const now = new Date();
-      
-      switch (filterDateRange) {
-        case 'today':
-          matchesDate = transactionDate.toDateString() === now.toDateString();
-          break;
-        case 'week':
-          const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-          matchesDate = transactionDate >= weekAgo;
-          break;
-        case 'month':
-          const monthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-          matchesDate = transactionDate >= monthAgo;
-          break;
-      }
-    }
-    
-    return matchesSearch && matchesType && matchesDate;
+  const { data: summary } = useQuery<any>({
+    queryKey: ['/api/transactions/summary', filters],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/transactions/summary?${toSearchParams(filters)}`);
+      return response.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const days = activityRange === '7days' ? 7 : activityRange === '30days' ? 30 : 90;
+  const { data: activity = [] } = useQuery<any[]>({
+    queryKey: ['/api/dashboard/activity', { days }],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/dashboard/activity?days=${days}`);
+      return response.json();
+    },
   });
 
+  const activityData = activity.map(day => ({
+    date: new Date(day.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }),
+    registrations: day.registrations,
+    dailyActive: day.dailyActive,
+  }));
+
   const transactionTypes = [
     { value: 'all', label: 'All Types' },
     { value: 'daily_reward', label: 'Daily Rewards' },
     { value: 'referral', label: 'Referral Rewards' },
+    { value: 'onboarding', label: 'Tutorial Bonuses' },
     { value: 'raffle_entry', label: 'Raffle Entries' },
     { value: 'shop_purchase', label: 'Shop Purchases' },
+    { value: 'shop_refund', label: 'Shop Refunds' },
     { value: 'admin_adjustment', label: 'Admin Adjustments' },
+    { value: 'opening_balance', label: 'Opening Balances' },
   ];
 
   const getTransactionTypeColor = (type: string) => {
     switch (type) {
       case 'daily_reward': return 'default';
       case 'referral': return 'secondary';
+      case 'onboarding': return 'default';
       case 'raffle_entry': return 'destructive';
       case 'shop_purchase': return 'outline';
+      case 'shop_refund': return 'secondary';
       case 'admin_adjustment': return 'secondary';
       default: return 'outline';
     }
@@ -136,9 +92,12 @@ export default function Logs() {
     switch (type) {
       case 'daily_reward': return 'Daily Reward';
       case 'referral': return 'Referral';
+      case 'onboarding': return 'Tutorial Bonus';
       case 'raffle_entry': return 'Raffle Entry';
       case 'shop_purchase': return 'Shop Purchase';
+      case 'shop_refund': return 'Shop Refund';
       case 'admin_adjustment': return 'Admin Adjustment';
+      case 'opening_balance': return 'Opening Balance';
       default: return type;
     }
   };
@@ -277,7 +236,7 @@ export default function Logs() {
         <Card>
           <CardContent className="pt-4">
             <div className="text-center">
-              <p className="text-2xl font-bold text-gray-900 dark:text-white">{filteredTransactions.length}</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{summary?.total ?? 0}</p>
               <p className="text-sm text-gray-600 dark:text-gray-400">Total Transactions</p>
             </div>
           </CardContent>
@@ -287,7 +246,7 @@ export default function Logs() {
           <CardContent className="pt-4">
             <div className="text-center">
               <p className="text-2xl font-bold text-green-600">
-                {filteredTransactions.filter(t => t.amount > 0).length}
+                {summary?.earned ?? 0}
               </p>
               <p className="text-sm text-gray-600 dark:text-gray-400">Coins Earned</p>
             </div>
@@ -298,7 +257,7 @@ export default function Logs() {
           <CardContent className="pt-4">
             <div className="text-center">
               <p className="text-2xl font-bold text-red-600">
-                {filteredTransactions.filter(t => t.amount < 0).length}
+                {summary?.spent ?? 0}
               </p>
               <p className="text-sm text-gray-600 dark:text-gray-400">Coins Spent</p>
             </div>
@@ -309,7 +268,7 @@ export default function Logs() {
           <CardContent className="pt-4">
             <div className="text-center">
               <p className="text-2xl font-bold text-blue-600">
-                {filteredTransactions.reduce((sum, t) => sum + t.amount, 0)}
+                {summary?.net ?? 0}
               </p>
               <p className="text-sm text-gray-600 dark:text-gray-400">Net Change</p>
             </div>
@@ -322,7 +281,7 @@ export default function Logs() {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <History className="h-5 w-5" />
-            Transaction History ({filteredTransactions.length})
+            Transaction History ({summary?.total ?? transactions.length})
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -338,8 +297,8 @@ export default function Logs() {
                 </tr>
               </thead>
               <tbody className="space-y-4">
-                {filteredTransactions.map((transaction) => {
-                  const user = userMap[transaction.userId];
+                {transactions.map((transaction) => {
+                  const user = transaction.user;
                   return (
                     <tr key={transaction.id} className="border-b border-gray-100 dark:border-gray-700">
                       <td className="py-3">
@@ -386,12 +345,20 @@ export default function Logs() {
             </table>
           </div>
           
-          {filteredTransactions.length === 0 && (
+          {transactions.length === 0 && (
             <div className="text-center py-8">
               <History className="h-12 w-12 text-gray-400 mx-auto mb-4" />
               <p className="text-gray-500">No transactions found matching your criteria</p>
             </div>
           )}
+
+          {hasNextPage && (
+            <div className="flex justify-center pt-4">
+              <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                {isFetchingNextPage ? 'Loading...' : 'Load More'}
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
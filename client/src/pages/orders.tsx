@@ -0,0 +1,281 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ShoppingBag, Check, X } from "lucide-react";
+import { useState } from "react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CoinLoadingCard } from "@/components/ui/coin-spinner";
+import { usePermissions } from "@/hooks/use-permissions";
+
+type OrderAction = 'fulfill' | 'cancel';
+
+const statusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: 'outline',
+  completed: 'default',
+  cancelled: 'destructive',
+};
+
+export default function Orders() {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [filterStatus, setFilterStatus] = useState('all');
+  const [filterItem, setFilterItem] = useState('all');
+  const [filterUser, setFilterUser] = useState<any>(null);
+  const [pendingAction, setPendingAction] = useState<{ order: any; action: OrderAction } | null>(null);
+  const [note, setNote] = useState('');
+
+  const filters = {
+    status: filterStatus,
+    itemId: filterItem === 'all' ? undefined : filterItem,
+    userId: filterUser?.id,
+  };
+
+  const { data: orders = [], isLoading } = useQuery<any[]>({
+    queryKey: ['/api/purchases', filters],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined) params.set(key, String(value));
+      });
+      const response = await apiRequest('GET', `/api/purchases?${params}`);
+      return response.json();
+    },
+  });
+
+  const { data: items = [] } = useQuery<any[]>({
+    queryKey: ['/api/shop'],
+  });
+
+  const updateOrderMutation = useMutation({
+    mutationFn: async ({ id, action, note }: { id: number; action: OrderAction; note: string }) => {
+      const response = await apiRequest('POST', `/api/purchases/${id}/${action}`, { note });
+      return response.json();
+    },
+    onSuccess: (_order, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/purchases'] });
+      // Cancelling refunds coins and restores stock
+      queryClient.invalidateQueries({ queryKey: ['/api/shop'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+      toast({
+        title: "Success",
+        description: action === 'fulfill' ? "Order marked as fulfilled" : "Order cancelled and refunded",
+      });
+      closeDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const closeDialog = () => {
+    setPendingAction(null);
+    setNote('');
+  };
+
+  const pendingCount = orders.filter(order => order.status === 'pending').length;
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-4">
+        <Select value={filterStatus} onValueChange={setFilterStatus}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Statuses</SelectItem>
+            <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="completed">Completed</SelectItem>
+            <SelectItem value="cancelled">Cancelled</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value={filterItem} onValueChange={setFilterItem}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Items</SelectItem>
+            {items.map((item) => (
+              <SelectItem key={item.id} value={String(item.id)}>{item.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {filterUser ? (
+          <Badge variant="secondary" className="flex items-center gap-1">
+            {filterUser.firstName || filterUser.username || filterUser.telegramId}
+            <button onClick={() => setFilterUser(null)} aria-label="Clear user filter">
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ) : (
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            Click a buyer to see only their orders
+          </span>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShoppingBag className="h-5 w-5" />
+            Orders ({orders.length})
+            {pendingCount > 0 && <Badge variant="outline">{pendingCount} pending</Badge>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <CoinLoadingCard message="Loading orders..." />
+          ) : orders.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No orders match these filters.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    <th className="pb-3">Order</th>
+                    <th className="pb-3">Buyer</th>
+                    <th className="pb-3">Item</th>
+                    <th className="pb-3">Cost</th>
+                    <th className="pb-3">Status</th>
+                    <th className="pb-3">Placed</th>
+                    <th className="pb-3">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {orders.map((order) => (
+                    <tr key={order.id} className="border-b border-gray-100 dark:border-gray-800">
+                      <td className="py-3">
+                        <span className="text-sm font-medium text-gray-900 dark:text-white">#{order.id}</span>
+                      </td>
+                      <td className="py-3">
+                        <button className="text-left" onClick={() => setFilterUser(order.user)}>
+                          <p className="font-medium text-gray-900 dark:text-white hover:underline">
+                            {order.user.firstName || order.user.username || 'Unknown'}
+                          </p>
+                          <p className="text-sm text-gray-500 dark:text-gray-400">
+                            @{order.user.username || order.user.telegramId}
+                          </p>
+                        </button>
+                      </td>
+                      <td className="py-3">
+                        <span className="text-sm text-gray-900 dark:text-white">{order.item.name}</span>
+                        {order.quantity > 1 && (
+                          <span className="text-sm text-gray-500 dark:text-gray-400"> x{order.quantity}</span>
+                        )}
+                      </td>
+                      <td className="py-3">
+                        <span className="text-sm font-medium text-gray-900 dark:text-white">{order.totalCost} coins</span>
+                      </td>
+                      <td className="py-3">
+                        <Badge variant={statusVariants[order.status] || 'secondary'}>{order.status}</Badge>
+                        {order.note && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{order.note}</p>
+                        )}
+                      </td>
+                      <td className="py-3">
+                        <span className="text-sm text-gray-500 dark:text-gray-400">
+                          {new Date(order.createdAt).toLocaleString()}
+                        </span>
+                      </td>
+                      <td className="py-3">
+                        <div className="flex gap-2">
+                          {can('orders.manage') && order.status === 'pending' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setPendingAction({ order, action: 'fulfill' })}
+                            >
+                              <Check className="h-4 w-4" />
+                              Fulfill
+                            </Button>
+                          )}
+                          {can('orders.manage') && order.status !== 'cancelled' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setPendingAction({ order, action: 'cancel' })}
+                            >
+                              <X className="h-4 w-4" />
+                              Cancel
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!pendingAction} onOpenChange={closeDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {pendingAction?.action === 'fulfill' ? 'Fulfill' : 'Cancel'} Order #{pendingAction?.order.id}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {pendingAction?.action === 'fulfill'
+                ? `The buyer will be told their ${pendingAction?.order.item.name} is on its way.`
+                : `${pendingAction?.order.totalCost} coins will be refunded and the item returned to stock.`}
+            </p>
+
+            <div className="space-y-2">
+              <Label htmlFor="note">Note to buyer</Label>
+              <Textarea
+                id="note"
+                placeholder="Optional - sent to the buyer with the update"
+                rows={3}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+
+            <div className="flex space-x-3">
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={closeDialog}
+                disabled={updateOrderMutation.isPending}
+              >
+                Back
+              </Button>
+              <Button
+                className="flex-1"
+                variant={pendingAction?.action === 'cancel' ? 'destructive' : 'default'}
+                disabled={updateOrderMutation.isPending}
+                onClick={() => pendingAction && updateOrderMutation.mutate({
+                  id: pendingAction.order.id,
+                  action: pendingAction.action,
+                  note,
+                })}
+              >
+                {updateOrderMutation.isPending
+                  ? 'Saving...'
+                  : pendingAction?.action === 'fulfill' ? 'Mark Fulfilled' : 'Cancel & Refund'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -2,19 +2,23 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Gift, Plus, Users, Calendar, Coins } from "lucide-react";
+import { Gift, Plus, Users, Calendar, Coins, Ticket } from "lucide-react";
 import { useState } from "react";
 import CreateRaffleModal from "@/components/modals/create-raffle-modal";
 import ViewEntriesModal from "@/components/modals/view-entries-modal";
-import { queryClient } from "@/lib/queryClient";
+import DrawWinnerModal from "@/components/modals/draw-winner-modal";
+import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { CoinLoadingCard } from "@/components/ui/coin-spinner";
+import { usePermissions } from "@/hooks/use-permissions";
 
 export default function Raffles() {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [selectedRaffle, setSelectedRaffle] = useState<any>(null);
   const [showEntriesModal, setShowEntriesModal] = useState(false);
+  const [showDrawModal, setShowDrawModal] = useState(false);
   const { toast } = useToast();
+  const { can } = usePermissions();
 
   const { data: raffles = [], isLoading } = useQuery({
     queryKey: ['/api/raffles'],
@@ -22,20 +26,7 @@ export default function Raffles() {
 
   const updateRaffleMutation = useMutation({
     mutationFn: async ({ id, ...data }: { id: number; [key: string]: any }) => {
-      const token = localStorage.getItem('authToken');
-      const response = await fetch(`/api/raffles/${id}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify(data),
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to update raffle');
-      }
-      
+      const response = await apiRequest('PATCH', `/api/raffles/${id}`, data);
       return response.json();
     },
     onSuccess: () => {
@@ -83,10 +74,12 @@ export default function Raffles() {
           <h3 className="text-lg font-semibold">Active Raffles</h3>
           <p className="text-gray-600">Manage your bot's raffle system</p>
         </div>
-        <Button onClick={() => setShowCreateModal(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Create Raffle
-        </Button>
+        {can('raffles.manage') && (
+          <Button onClick={() => setShowCreateModal(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Raffle
+          </Button>
+        )}
       </div>
 
       {/* Raffles Grid */}
@@ -131,6 +124,16 @@ export default function Raffles() {
                   </span>
                 </div>
                 
+                {raffle.maxEntriesPerUser && (
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <Ticket className="h-4 w-4 text-gray-500" />
+                      <span className="text-sm text-gray-600">Per User Limit</span>
+                    </div>
+                    <span className="text-sm font-medium">{raffle.maxEntriesPerUser} tickets</span>
+                  </div>
+                )}
+                
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-2">
                     <Calendar className="h-4 w-4 text-gray-500" />
@@ -144,20 +147,22 @@ export default function Raffles() {
                 {raffle.winnerId && (
                   <div className="bg-green-50 border border-green-200 rounded-lg p-3">
                     <p className="text-sm text-green-800">
-                      🏆 Winner selected! User ID: {raffle.winnerId}
+                      🏆 Winner drawn! User ID: {raffle.winnerId}
                     </p>
                   </div>
                 )}
                 
                 <div className="flex space-x-2 mt-4">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleToggleRaffle(raffle)}
-                    disabled={updateRaffleMutation.isPending}
-                  >
-                    {raffle.isActive ? 'Deactivate' : 'Activate'}
-                  </Button>
+                  {can('raffles.manage') && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleToggleRaffle(raffle)}
+                      disabled={updateRaffleMutation.isPending}
+                    >
+                      {raffle.isActive ? 'Deactivate' : 'Activate'}
+                    </Button>
+                  )}
                   <Button 
                     variant="outline" 
                     size="sm"
@@ -168,6 +173,18 @@ export default function Raffles() {
                   >
                     View Entries
                   </Button>
+                  {(raffle.drawnAt || can('raffles.draw')) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setSelectedRaffle(raffle);
+                        setShowDrawModal(true);
+                      }}
+                    >
+                      {raffle.drawnAt ? 'View Draw' : 'Draw Winner'}
+                    </Button>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -181,10 +198,12 @@ export default function Raffles() {
             <Gift className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-semibold text-gray-900 mb-2">No raffles yet</h3>
             <p className="text-gray-600 mb-4">Create your first raffle to engage your users</p>
-            <Button onClick={() => setShowCreateModal(true)}>
-              <Plus className="h-4 w-4 mr-2" />
-              Create Your First Raffle
-            </Button>
+            {can('raffles.manage') && (
+              <Button onClick={() => setShowCreateModal(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Create Your First Raffle
+              </Button>
+            )}
           </CardContent>
         </Card>
       )}
@@ -202,6 +221,15 @@ export default function Raffles() {
         }}
         raffle={selectedRaffle}
       />
+
+      <DrawWinnerModal
+        open={showDrawModal}
+        onClose={() => {
+          setShowDrawModal(false);
+          setSelectedRaffle(null);
+        }}
+        raffle={selectedRaffle}
+      />
     </div>
   );
 }
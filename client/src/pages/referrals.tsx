@@ -3,38 +3,25 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { UserPlus, Users, TrendingUp } from "lucide-react";
 
-export default function Referrals() {
-  const { data: users = [], isLoading } = useQuery({
-    queryKey: ['/api/users'],
-  });
+// "First Last", or whatever part of the name we have
+function displayName(user: any, fallback: string): string {
+  if (user?.firstName && user?.lastName) return `${user.firstName} ${user.lastName}`;
+  return user?.firstName || user?.username || fallback;
+}
 
-  const { data: transactions = [] } = useQuery({
-    queryKey: ['/api/transactions'],
+export default function Referrals() {
+  const { data: stats, isLoading } = useQuery<any>({
+    queryKey: ['/api/referrals/stats'],
   });
 
   // Calculate referral statistics
-  const referralTransactions = transactions.filter(t => t.type === 'referral');
-  const totalReferrals = referralTransactions.length;
-  const uniqueReferrers = new Set(referralTransactions.map(t => t.userId)).size;
-  
-  const usersWithReferrals = users.filter(user => user.referredBy);
-  const usersWithoutReferrals = users.filter(user => !user.referredBy);
-
-  // Top referrers
-  const referralCounts = users.reduce((acc, user) => {
-    if (user.referredBy) {
-      acc[user.referredBy] = (acc[user.referredBy] || 0) + 1;
-    }
-    return acc;
-  }, {} as Record<string, number>);
-
-  const topReferrers = Object.entries(referralCounts)
-    .sort(([, a], [, b]) => b - a)
-    .slice(0, 10)
-    .map(([referralCode, count]) => {
-      const referrer = users.find(u => u.referralCode === referralCode);
-      return { referrer, count };
-    });
+  const totalReferrals = stats?.totalReferrals || 0;
+  const uniqueReferrers = stats?.uniqueReferrers || 0;
+  const totalUsers = stats?.totalUsers || 0;
+  const referredUsers = stats?.referredUsers || 0;
+  const directUsers = totalUsers - referredUsers;
+  const topReferrers: any[] = stats?.topReferrers || [];
+  const recentReferrals: any[] = stats?.recentReferrals || [];
 
   if (isLoading) {
     return (
@@ -91,7 +78,7 @@ export default function Referrals() {
               <div>
                 <p className="text-sm text-gray-600 dark:text-gray-400">Referral Rate</p>
                 <p className="text-3xl font-bold text-gray-900 dark:text-white">
-                  {users.length > 0 ? Math.round((usersWithReferrals.length / users.length) * 100) : 0}%
+                  {totalUsers > 0 ? Math.round((referredUsers / totalUsers) * 100) : 0}%
                 </p>
                 <p className="text-sm text-orange-600 dark:text-orange-400">of all users</p>
               </div>
@@ -113,20 +100,18 @@ export default function Referrals() {
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {topReferrers.map(({ referrer, count }, index) => (
-              <div key={referrer?.id || index} className="flex items-center justify-between py-2">
+            {topReferrers.map(({ referralCode, referrer, count }, index) => (
+              <div key={referralCode} className="flex items-center justify-between py-2">
                 <div className="flex items-center space-x-3">
                   <div className="w-8 h-8 bg-gray-300 dark:bg-gray-700 rounded-full flex items-center justify-center">
                     <span className="text-sm font-bold text-gray-900 dark:text-white">#{index + 1}</span>
                   </div>
                   <div>
                     <p className="font-medium text-gray-900 dark:text-white">
-                      {referrer?.firstName && referrer?.lastName 
-                        ? `${referrer.firstName} ${referrer.lastName}`
-                        : referrer?.firstName || referrer?.username || 'Unknown'}
+                      {displayName(referrer, 'Unknown')}
                     </p>
                     <p className="text-sm text-gray-500 dark:text-gray-400">
-                      Code: {referrer?.referralCode || 'N/A'}
+                      Code: {referralCode}
                     </p>
                   </div>
                 </div>
@@ -160,9 +145,9 @@ export default function Referrals() {
                   <span className="text-sm text-gray-600">Via Referral</span>
                 </div>
                 <div className="text-right">
-                  <span className="text-sm font-medium text-gray-900">{usersWithReferrals.length}</span>
+                  <span className="text-sm font-medium text-gray-900">{referredUsers}</span>
                   <span className="text-xs text-gray-500 ml-1">
-                    ({users.length > 0 ? Math.round((usersWithReferrals.length / users.length) * 100) : 0}%)
+                    ({totalUsers > 0 ? Math.round((referredUsers / totalUsers) * 100) : 0}%)
                   </span>
                 </div>
               </div>
@@ -172,9 +157,9 @@ export default function Referrals() {
                   <span className="text-sm text-gray-600">Direct</span>
                 </div>
                 <div className="text-right">
-                  <span className="text-sm font-medium text-gray-900">{usersWithoutReferrals.length}</span>
+                  <span className="text-sm font-medium text-gray-900">{directUsers}</span>
                   <span className="text-xs text-gray-500 ml-1">
-                    ({users.length > 0 ? Math.round((usersWithoutReferrals.length / users.length) * 100) : 0}%)
+                    ({totalUsers > 0 ? Math.round((directUsers / totalUsers) * 100) : 0}%)
                   </span>
                 </div>
               </div>
@@ -216,32 +201,25 @@ export default function Referrals() {
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {usersWithReferrals.slice(0, 10).map((referredUser) => {
-              const referrer = users.find(u => u.referralCode === referredUser.referredBy);
-              return (
-                <div key={referredUser.id} className="flex items-center justify-between py-2">
-                  <div>
-                    <p className="font-medium text-gray-900 dark:text-white">
-                      {referredUser.firstName && referredUser.lastName 
-                        ? `${referredUser.firstName} ${referredUser.lastName}`
-                        : referredUser.firstName || referredUser.username || 'User'}
-                    </p>
-                    <p className="text-sm text-gray-500 dark:text-gray-400">
-                      Referred by: {referrer?.firstName && referrer?.lastName 
-                        ? `${referrer.firstName} ${referrer.lastName}`
-                        : referrer?.firstName || referrer?.username || 'Unknown'}
-                    </p>
-                  </div>
-                  <div className="text-right">
-                    <p className="text-sm text-gray-500 dark:text-gray-400">
-                      Code: {referredUser.referredBy}
-                    </p>
-                  </div>
+            {recentReferrals.map(({ user: referredUser, referredBy, referrer }) => (
+              <div key={referredUser.id} className="flex items-center justify-between py-2">
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    {displayName(referredUser, 'User')}
+                  </p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Referred by: {displayName(referrer, 'Unknown')}
+                  </p>
                 </div>
-              );
-            })}
+                <div className="text-right">
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Code: {referredBy}
+                  </p>
+                </div>
+              </div>
+            ))}
             
-            {usersWithReferrals.length === 0 && (
+            {recentReferrals.length === 0 && (
               <div className="text-center py-8">
                 <UserPlus className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                 <p className="text-gray-500">No referrals yet</p>
@@ -5,10 +5,14 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
-import { Settings as SettingsIcon, Save, Key, Coins, Users, Bot, AlertTriangle, RotateCcw } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Settings as SettingsIcon, Save, Key, Coins, Users, Bot, AlertTriangle, RotateCcw, ShieldCheck } from "lucide-react";
 import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
+import { usePermissions } from "@/hooks/use-permissions";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import ActiveSessions from "@/components/active-sessions";
+import TelegramChat from "@/components/telegram-chat";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -22,36 +26,33 @@ import {
 
 export default function Settings() {
   const { toast } = useToast();
+  const { can } = usePermissions();
+  const canEditBot = can('settings.bot');
   const [showResetDialog, setShowResetDialog] = useState(false);
   const [formData, setFormData] = useState({
     botToken: '',
+    publicBaseUrl: '',
+    botMode: 'auto',
     dailyRewardAmount: 1,
     referralRewardAmount: 1,
+    onboardingBonusAmount: 5,
     maxRaffleEntries: 100,
     shopEnabled: true,
     rafflesEnabled: true,
     referralsEnabled: true,
+    maintenanceMode: false,
+    maintenanceMessage: '',
+    adminTelegramIds: '',
+    requireTwoFactorForOwners: false,
   });
 
-  const { data: settings, isLoading } = useQuery({
+  const { data: settings, isLoading } = useQuery<any>({
     queryKey: ['/api/settings'],
   });
 
   const resetUserPointsMutation = useMutation({
     mutationFn: async () => {
-      const token = localStorage.getItem('authToken');
-      const response = await fetch('/api/users/reset-points', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to reset user points');
-      }
-      
+      const response = await apiRequest('POST', '/api/users/reset-points');
       return response.json();
     },
     onSuccess: () => {
@@ -74,24 +75,13 @@ export default function Settings() {
 
   const updateSettingsMutation = useMutation({
     mutationFn: async (data: any) => {
-      const token = localStorage.getItem('authToken');
-      const response = await fetch('/api/settings', {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify(data),
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to update settings');
-      }
-      
+      const response = await apiRequest('PATCH', '/api/settings', data);
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+      // Requiring two-factor may apply to the admin who just saved
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
       toast({
         title: "Success",
         description: "Settings updated successfully",
@@ -111,8 +101,18 @@ export default function Settings() {
       setFormData(prev => ({
         ...prev,
         botToken: settings.botToken || '',
+        publicBaseUrl: settings.publicBaseUrl || '',
+        botMode: settings.botMode || 'auto',
         dailyRewardAmount: settings.dailyRewardAmount || 1,
         referralRewardAmount: settings.referralRewardAmount || 1,
+        onboardingBonusAmount: settings.onboardingBonusAmount ?? 5,
+        shopEnabled: settings.shopEnabled ?? true,
+        rafflesEnabled: settings.rafflesEnabled ?? true,
+        referralsEnabled: settings.referralsEnabled ?? true,
+        maintenanceMode: settings.maintenanceMode ?? false,
+        maintenanceMessage: settings.maintenanceMessage || '',
+        adminTelegramIds: settings.adminTelegramIds || '',
+        requireTwoFactorForOwners: settings.requireTwoFactorForOwners ?? false,
       }));
     }
   }, [settings]);
@@ -163,13 +163,50 @@ export default function Settings() {
                   value={formData.botToken}
                   onChange={(e) => handleInputChange('botToken', e.target.value)}
                   className="pl-10"
+                  disabled={!canEditBot}
                 />
               </div>
               <p className="text-sm text-gray-600">
-                Get your bot token from @BotFather on Telegram
+                {canEditBot
+                  ? 'Get your bot token from @BotFather on Telegram'
+                  : 'Only owners can change the bot connection'}
               </p>
             </div>
             
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="publicBaseUrl">Public URL</Label>
+                <Input
+                  id="publicBaseUrl"
+                  placeholder="https://your-app.example.com"
+                  value={formData.publicBaseUrl}
+                  onChange={(e) => handleInputChange('publicBaseUrl', e.target.value)}
+                  disabled={!canEditBot}
+                />
+                <p className="text-sm text-gray-600">
+                  Telegram sends updates to this URL + /telegram
+                </p>
+              </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor="botMode">Update Mode</Label>
+                <Select value={formData.botMode} onValueChange={(value) => handleInputChange('botMode', value)} disabled={!canEditBot}>
+                  <SelectTrigger id="botMode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Automatic</SelectItem>
+                    <SelectItem value="webhook">Webhook</SelectItem>
+                    <SelectItem value="polling">Long polling</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-gray-600">
+                  Automatic uses a webhook when a public URL is set, otherwise polling
+                  {settings?.activeBotMode && ` (currently: ${settings.activeBotMode})`}
+                </p>
+              </div>
+            </div>
+            
             <Separator />
             
             <div className="flex items-center justify-between">
@@ -220,6 +257,19 @@ export default function Settings() {
                 />
                 <p className="text-sm text-gray-600">Coins given for successful referrals</p>
               </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor="onboardingBonus">Tutorial Bonus Amount</Label>
+                <Input
+                  id="onboardingBonus"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={formData.onboardingBonusAmount}
+                  onChange={(e) => handleInputChange('onboardingBonusAmount', parseInt(e.target.value))}
+                />
+                <p className="text-sm text-gray-600">One-time coins for finishing the bot tutorial</p>
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -269,6 +319,65 @@ export default function Settings() {
                 onCheckedChange={(checked) => handleInputChange('referralsEnabled', checked)}
               />
             </div>
+            
+            <Separator />
+            
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label>Maintenance Mode</Label>
+                <p className="text-sm text-gray-600">Pause the bot for everyone except the admin Telegram IDs below</p>
+              </div>
+              <Switch
+                checked={formData.maintenanceMode}
+                onCheckedChange={(checked) => handleInputChange('maintenanceMode', checked)}
+              />
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="maintenanceMessage">Maintenance Message</Label>
+              <Input
+                id="maintenanceMessage"
+                placeholder="🛠️ We're doing some maintenance right now. Please check back soon!"
+                value={formData.maintenanceMessage}
+                onChange={(e) => handleInputChange('maintenanceMessage', e.target.value)}
+              />
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="adminTelegramIds">Admin Telegram IDs</Label>
+              <Input
+                id="adminTelegramIds"
+                placeholder="123456789, 987654321"
+                value={formData.adminTelegramIds}
+                onChange={(e) => handleInputChange('adminTelegramIds', e.target.value)}
+              />
+              <p className="text-sm text-gray-600">Comma-separated. These accounts can keep using the bot during maintenance.</p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Security */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Security
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label>Require Two-Factor for Owners</Label>
+                <p className="text-sm text-gray-600">
+                  Owners without two-factor authentication must set it up before they can use the panel
+                </p>
+              </div>
+              <Switch
+                checked={formData.requireTwoFactorForOwners}
+                onCheckedChange={(checked) => handleInputChange('requireTwoFactorForOwners', checked)}
+                disabled={!can('admins.manage')}
+              />
+            </div>
           </CardContent>
         </Card>
 
@@ -301,7 +410,7 @@ export default function Settings() {
         </Card>
 
         {/* Danger Zone */}
-        <Card className="border-red-200 dark:border-red-900">
+        {can('users.reset_points') && <Card className="border-red-200 dark:border-red-900">
           <CardHeader>
             <CardTitle className="flex items-center gap-2 text-red-600 dark:text-red-400">
               <AlertTriangle className="h-5 w-5" />
@@ -328,13 +437,13 @@ export default function Settings() {
               </div>
             </div>
           </CardContent>
-        </Card>
+        </Card>}
 
         {/* Save Button */}
         <div className="flex justify-end">
           <Button 
             type="submit" 
-            disabled={updateSettingsMutation.isPending}
+            disabled={updateSettingsMutation.isPending || !can('settings.manage')}
             className="min-w-32"
           >
             {updateSettingsMutation.isPending ? (
@@ -352,6 +461,10 @@ export default function Settings() {
         </div>
       </form>
 
+      {/* This admin's own signed-in devices and Telegram chat */}
+      <ActiveSessions />
+      <TelegramChat />
+
       {/* Reset Points Confirmation Dialog */}
       <AlertDialog open={showResetDialog} onOpenChange={setShowResetDialog}>
         <AlertDialogContent>
@@ -2,19 +2,23 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Store, Plus, Package, Coins } from "lucide-react";
+import { Store, Plus, Package, Coins, ClipboardCheck, KeyRound } from "lucide-react";
 import { useState } from "react";
 import AddShopItemModal from "@/components/modals/add-shop-item-modal";
 import EditShopItemModal from "@/components/modals/edit-shop-item-modal";
-import { queryClient } from "@/lib/queryClient";
+import ManageCodesModal from "@/components/modals/manage-codes-modal";
+import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { CoinLoadingCard } from "@/components/ui/coin-spinner";
+import { usePermissions } from "@/hooks/use-permissions";
 
 export default function Shop() {
   const [showAddModal, setShowAddModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showCodesModal, setShowCodesModal] = useState(false);
   const [selectedItem, setSelectedItem] = useState<any>(null);
   const { toast } = useToast();
+  const { can } = usePermissions();
 
   const { data: items = [], isLoading } = useQuery({
     queryKey: ['/api/shop'],
@@ -22,20 +26,7 @@ export default function Shop() {
 
   const updateItemMutation = useMutation({
     mutationFn: async ({ id, ...data }: { id: number; [key: string]: any }) => {
-      const token = localStorage.getItem('authToken');
-      const response = await fetch(`/api/shop/${id}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify(data),
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to update item');
-      }
-      
+      const response = await apiRequest('PATCH', `/api/shop/${id}`, data);
       return response.json();
     },
     onSuccess: () => {
@@ -83,10 +74,12 @@ export default function Shop() {
           <h3 className="text-lg font-semibold">Shop Items</h3>
           <p className="text-gray-600">Manage items users can purchase with coins</p>
         </div>
-        <Button onClick={() => setShowAddModal(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Item
-        </Button>
+        {can('shop.manage') && (
+          <Button onClick={() => setShowAddModal(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Item
+          </Button>
+        )}
       </div>
 
       {/* Items Grid */}
@@ -128,7 +121,7 @@ export default function Shop() {
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-2">
                       <Package className="h-4 w-4 text-gray-500" />
-                      <span className="text-sm text-gray-600">Stock</span>
+                      <span className="text-sm text-gray-600">{item.deliversCodes ? 'Codes' : 'Stock'}</span>
                     </div>
                     <span className="text-sm font-medium">
                       {item.stock > 0 ? `${item.stock} available` : 'Out of stock'}
@@ -136,7 +129,14 @@ export default function Shop() {
                   </div>
                 )}
                 
-                <div className="flex space-x-2 mt-4">
+                {item.requiresFulfillment && (
+                  <div className="flex items-center space-x-2">
+                    <ClipboardCheck className="h-4 w-4 text-gray-500" />
+                    <span className="text-sm text-gray-600">Fulfilled manually by an admin</span>
+                  </div>
+                )}
+                
+                {can('shop.manage') && <div className="flex space-x-2 mt-4">
                   <Button
                     variant="outline"
                     size="sm"
@@ -155,7 +155,18 @@ export default function Shop() {
                   >
                     Edit
                   </Button>
-                </div>
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    onClick={() => {
+                      setSelectedItem(item);
+                      setShowCodesModal(true);
+                    }}
+                  >
+                    <KeyRound className="h-4 w-4 mr-1" />
+                    Codes
+                  </Button>
+                </div>}
               </div>
             </CardContent>
           </Card>
@@ -168,10 +179,12 @@ export default function Shop() {
             <Store className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-semibold text-gray-900 mb-2">No items yet</h3>
             <p className="text-gray-600 mb-4">Add items to your shop for users to purchase</p>
-            <Button onClick={() => setShowAddModal(true)}>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Your First Item
-            </Button>
+            {can('shop.manage') && (
+              <Button onClick={() => setShowAddModal(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Your First Item
+              </Button>
+            )}
           </CardContent>
         </Card>
       )}
@@ -189,6 +202,15 @@ export default function Shop() {
         }}
         item={selectedItem}
       />
+      
+      <ManageCodesModal
+        open={showCodesModal}
+        onClose={() => {
+          setShowCodesModal(false);
+          setSelectedItem(null);
+        }}
+        item={selectedItem}
+      />
     </div>
   );
 }
@@ -1,19 +1,42 @@
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Users as UsersIcon, Search, Filter, Plus, Minus } from "lucide-react";
 import { useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, newIdempotencyKey } from "@/lib/queryClient";
 import { CoinLoadingCard } from "@/components/ui/coin-spinner";
+import { usePermissions } from "@/hooks/use-permissions";
+import { usePagedList } from "@/hooks/use-paged-list";
+import type { UserReachability } from "@shared/schema";
+
+const sortOptions = [
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'createdAt:asc', label: 'Oldest first' },
+  { value: 'coins:desc', label: 'Most coins' },
+  { value: 'coins:asc', label: 'Fewest coins' },
+];
+
+// Whether the bot can still message the user; see USER_REACHABILITY in shared/schema.ts
+const reachabilityLabels: Record<UserReachability, string> = {
+  reachable: 'Reachable',
+  blocked: 'Blocked the bot',
+  chat_not_found: 'Chat not found',
+  deactivated: 'Account deleted',
+};
 
 export default function Users() {
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'inactive'>('all');
+  const [filterReachability, setFilterReachability] = useState<'all' | UserReachability>('all');
+  const [sortBy, setSortBy] = useState('createdAt:desc');
+  const [minCoins, setMinCoins] = useState('');
+  const [maxCoins, setMaxCoins] = useState('');
   const [adjustCoinDialog, setAdjustCoinDialog] = useState<{
     open: boolean;
     user: any | null;
@@ -21,15 +44,26 @@ export default function Users() {
   }>({ open: false, user: null, type: 'add' });
   const [adjustAmount, setAdjustAmount] = useState('');
   const [adjustReason, setAdjustReason] = useState('');
+  // Kept while the dialog's values stay the same, so pressing the button again after a lost
+  // response returns the first result instead of adjusting twice
+  const [adjustKey, setAdjustKey] = useState(newIdempotencyKey);
   const { toast } = useToast();
+  const { can } = usePermissions();
 
-  const { data: users = [], isLoading } = useQuery({
-    queryKey: ['/api/users'],
+  const [sort, order] = sortBy.split(':');
+  const { items: users, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = usePagedList<any>('/api/users', {
+    search: searchTerm.trim() || undefined,
+    isActive: filterStatus === 'all' ? undefined : filterStatus === 'active',
+    reachability: filterReachability === 'all' ? undefined : filterReachability,
+    minCoins: minCoins || undefined,
+    maxCoins: maxCoins || undefined,
+    sort,
+    order,
   });
 
   const adjustCoinsMutation = useMutation({
-    mutationFn: async ({ userId, amount, type, reason }: { userId: number; amount: number; type: 'add' | 'withdraw'; reason: string }) => {
-      const response = await apiRequest('POST', `/api/users/${userId}/adjust-coins`, { amount, type, reason });
+    mutationFn: async ({ userId, amount, type, reason, idempotencyKey }: { userId: number; amount: number; type: 'add' | 'withdraw'; reason: string; idempotencyKey: string }) => {
+      const response = await apiRequest('POST', `/api/users/${userId}/adjust-coins`, { amount, type, reason }, { idempotencyKey });
       return response.json();
     },
     onSuccess: () => {
@@ -41,6 +75,7 @@ export default function Users() {
       setAdjustCoinDialog({ open: false, user: null, type: 'add' });
       setAdjustAmount('');
       setAdjustReason('');
+      setAdjustKey(newIdempotencyKey());
     },
     onError: (error: any) => {
       toast({
@@ -69,22 +104,10 @@ export default function Users() {
       amount,
       type: adjustCoinDialog.type,
       reason: adjustReason,
+      idempotencyKey: adjustKey,
     });
   };
 
-  const filteredUsers = users.filter(user => {
-    const matchesSearch = searchTerm === '' || 
-      user.firstName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      user.username?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      user.telegramId.includes(searchTerm);
-    
-    const matchesStatus = filterStatus === 'all' || 
-      (filterStatus === 'active' && user.isActive) ||
-      (filterStatus === 'inactive' && !user.isActive);
-    
-    return matchesSearch && matchesStatus;
-  });
-
   if (isLoading) {
     return (
       <Card>
@@ -129,6 +152,45 @@ export default function Users() {
             Inactive
           </Button>
         </div>
+        <Select value={filterReachability} onValueChange={(value) => setFilterReachability(value as 'all' | UserReachability)}>
+          <SelectTrigger className="w-full sm:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any reachability</SelectItem>
+            {Object.entries(reachabilityLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            placeholder="Min coins"
+            value={minCoins}
+            onChange={(e) => setMinCoins(e.target.value)}
+            className="w-28"
+          />
+          <Input
+            type="number"
+            placeholder="Max coins"
+            value={maxCoins}
+            onChange={(e) => setMaxCoins(e.target.value)}
+            className="w-28"
+          />
+        </div>
+        <Select value={sortBy} onValueChange={setSortBy}>
+          <SelectTrigger className="w-full sm:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sortOptions.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
 
       {/* Users List */}
@@ -136,7 +198,7 @@ export default function Users() {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <UsersIcon className="h-5 w-5" />
-            Users ({filteredUsers.length})
+            Users ({users.length}{hasNextPage ? '+' : ''})
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -155,7 +217,7 @@ export default function Users() {
                 </tr>
               </thead>
               <tbody className="space-y-4">
-                {filteredUsers.map((user) => (
+                {users.map((user) => (
                   <tr key={user.id} className="border-b border-gray-100 dark:border-gray-800">
                     <td className="py-3">
                       <div className="flex items-center space-x-3">
@@ -196,9 +258,17 @@ export default function Users() {
                       </span>
                     </td>
                     <td className="py-3">
-                      <Badge variant={user.isActive ? 'default' : 'secondary'}>
-                        {user.isActive ? 'Active' : 'Inactive'}
-                      </Badge>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant={user.isActive ? 'default' : 'secondary'}>
+                          {user.isActive ? 'Active' : 'Inactive'}
+                        </Badge>
+                        <Badge
+                          variant={user.reachability === 'reachable' ? 'outline' : 'destructive'}
+                          title={user.unreachableSince ? `Since ${new Date(user.unreachableSince).toLocaleString()}` : undefined}
+                        >
+                          {reachabilityLabels[user.reachability as UserReachability] ?? user.reachability}
+                        </Badge>
+                      </div>
                     </td>
                     <td className="py-3">
                       <span className="text-sm text-gray-500 dark:text-gray-400">
@@ -206,11 +276,14 @@ export default function Users() {
                       </span>
                     </td>
                     <td className="py-3">
-                      <div className="flex gap-2">
+                      {can('users.adjust_coins') && <div className="flex gap-2">
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => setAdjustCoinDialog({ open: true, user, type: 'add' })}
+                          onClick={() => {
+                            setAdjustCoinDialog({ open: true, user, type: 'add' });
+                            setAdjustKey(newIdempotencyKey());
+                          }}
                         >
                           <Plus className="h-4 w-4" />
                           Add
@@ -218,12 +291,15 @@ export default function Users() {
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => setAdjustCoinDialog({ open: true, user, type: 'withdraw' })}
+                          onClick={() => {
+                            setAdjustCoinDialog({ open: true, user, type: 'withdraw' });
+                            setAdjustKey(newIdempotencyKey());
+                          }}
                         >
                           <Minus className="h-4 w-4" />
                           Withdraw
                         </Button>
-                      </div>
+                      </div>}
                     </td>
                   </tr>
                 ))}
@@ -231,12 +307,20 @@ export default function Users() {
             </table>
           </div>
           
-          {filteredUsers.length === 0 && (
+          {users.length === 0 && (
             <div className="text-center py-8">
               <UsersIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
               <p className="text-gray-500">No users found matching your criteria</p>
             </div>
           )}
+
+          {hasNextPage && (
+            <div className="flex justify-center pt-4">
+              <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                {isFetchingNextPage ? 'Loading...' : 'Load More'}
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -259,7 +343,10 @@ export default function Users() {
                 type="number"
                 min="1"
                 value={adjustAmount}
-                onChange={(e) => setAdjustAmount(e.target.value)}
+                onChange={(e) => {
+                  setAdjustAmount(e.target.value);
+                  setAdjustKey(newIdempotencyKey());
+                }}
                 placeholder="Enter amount"
               />
             </div>
@@ -268,7 +355,10 @@ export default function Users() {
               <Input
                 id="reason"
                 value={adjustReason}
-                onChange={(e) => setAdjustReason(e.target.value)}
+                onChange={(e) => {
+                  setAdjustReason(e.target.value);
+                  setAdjustKey(newIdempotencyKey());
+                }}
                 placeholder="Enter reason for adjustment"
               />
             </div>
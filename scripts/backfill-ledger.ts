@@ -0,0 +1,134 @@
+import { config } from 'dotenv';
+import { TRANSACTION_TYPES, LEDGER_ACCOUNTS } from '../shared/schema';
+
+config();
+
+// Older transaction types that are now written as one of TRANSACTION_TYPES
+const LEGACY_TYPES: Record<string, string> = {
+  admin_add: 'admin_adjustment',
+  admin_withdraw: 'admin_adjustment',
+};
+
+const enumValues = (values: readonly string[]) => values.map(value => `'${value}'`).join(', ');
+
+// Moves an existing database onto the coin ledger. Run this once before `npm run db:push`:
+// it turns transactions.type into an enum, creates ledger_entries, posts every existing
+// transaction to it, and records an opening balance for any coins that earlier code added
+// or removed without a transaction, so the first reconciliation starts from zero mismatches.
+async function backfillLedger() {
+  const { pool } = await import('../server/db');
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const existing = await client.query(`SELECT to_regclass('public.ledger_entries') AS name`);
+    if (existing.rows[0].name) {
+      await client.query('ROLLBACK');
+      console.log('✅ ledger_entries already exists; nothing to backfill');
+      process.exit(0);
+    }
+
+    await client.query(`
+      DO $$ BEGIN
+        CREATE TYPE transaction_type AS ENUM (${enumValues(TRANSACTION_TYPES)});
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$
+    `);
+    await client.query(`
+      DO $$ BEGIN
+        CREATE TYPE ledger_account AS ENUM (${enumValues(LEDGER_ACCOUNTS)});
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$
+    `);
+
+    const column = await client.query(`
+      SELECT udt_name FROM information_schema.columns
+      WHERE table_name = 'transactions' AND column_name = 'type'
+    `);
+    if (column.rows[0]?.udt_name === 'text') {
+      for (const [legacy, current] of Object.entries(LEGACY_TYPES)) {
+        await client.query(`UPDATE transactions SET type = $1 WHERE type = $2`, [current, legacy]);
+      }
+
+      const unknown = await client.query(
+        `SELECT DISTINCT type FROM transactions WHERE type <> ALL($1::text[])`,
+        [TRANSACTION_TYPES],
+      );
+      if (unknown.rows.length > 0) {
+        throw new Error(`Unknown transaction types: ${unknown.rows.map(row => row.type).join(', ')}`);
+      }
+
+      await client.query(`ALTER TABLE transactions ALTER COLUMN type TYPE transaction_type USING type::transaction_type`);
+    }
+
+    await client.query(`
+      CREATE TABLE ledger_entries (
+        id serial PRIMARY KEY,
+        transaction_id integer NOT NULL,
+        account ledger_account NOT NULL,
+        account_id integer,
+        amount integer NOT NULL,
+        created_at timestamp DEFAULT now() NOT NULL,
+        CONSTRAINT ledger_entries_transaction_id_transactions_id_fk
+          FOREIGN KEY (transaction_id) REFERENCES transactions(id)
+      )
+    `);
+    await client.query(`CREATE INDEX ledger_entries_account_idx ON ledger_entries (account, account_id)`);
+    await client.query(`CREATE INDEX ledger_entries_transaction_idx ON ledger_entries (transaction_id)`);
+
+    // Each transaction becomes the user's side plus the opposite amount on the account it came
+    // from or went to. Very old raffle and shop rows have no metadata, so their pool or sink id is unknown.
+    const posted = await client.query(`
+      INSERT INTO ledger_entries (transaction_id, account, account_id, amount, created_at)
+      SELECT id, 'user_wallet', user_id, amount, created_at FROM transactions
+      UNION ALL
+      SELECT
+        id,
+        CASE
+          WHEN type = 'raffle_entry' THEN 'raffle_pool'
+          WHEN type IN ('shop_purchase', 'shop_refund') THEN 'shop_sink'
+          ELSE 'system_mint'
+        END::ledger_account,
+        CASE
+          WHEN type = 'raffle_entry' THEN (metadata->>'raffleId')::integer
+          WHEN type IN ('shop_purchase', 'shop_refund') THEN (metadata->>'itemId')::integer
+        END,
+        -amount,
+        created_at
+      FROM transactions
+    `);
+
+    const opened = await client.query(`
+      WITH gaps AS (
+        SELECT u.id AS user_id, u.coins - COALESCE(SUM(e.amount), 0) AS difference
+        FROM users u
+        LEFT JOIN ledger_entries e ON e.account = 'user_wallet' AND e.account_id = u.id
+        GROUP BY u.id
+        HAVING u.coins <> COALESCE(SUM(e.amount), 0)
+      ), opening AS (
+        INSERT INTO transactions (user_id, type, amount, description)
+        SELECT user_id, 'opening_balance', difference, 'Opening balance: coins from before the ledger with no transaction'
+        FROM gaps
+        RETURNING id, user_id, amount
+      )
+      INSERT INTO ledger_entries (transaction_id, account, account_id, amount)
+      SELECT id, 'user_wallet', user_id, amount FROM opening
+      UNION ALL
+      SELECT id, 'system_mint', NULL, -amount FROM opening
+    `);
+
+    await client.query('COMMIT');
+    console.log(`✅ Posted ${posted.rowCount! / 2} transactions to the ledger`);
+    console.log(`✅ Recorded opening balances for ${opened.rowCount! / 2} users whose coins had no matching transactions`);
+    process.exit(0);
+  } catch (error: any) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error backfilling ledger:', error.message);
+    process.exit(1);
+  } finally {
+    client.release();
+  }
+}
+
+backfillLedger();
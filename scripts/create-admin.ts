@@ -1,4 +1,5 @@
 import { createAdmin } from '../server/auth';
+import { isAdminRole } from '../shared/permissions';
 import { config } from 'dotenv';
 
 config();
@@ -7,12 +8,19 @@ async function createDefaultAdmin() {
   const username = process.env.ADMIN_USERNAME || 'admin';
   const password = process.env.ADMIN_PASSWORD || 'admin123';
   const name = 'Admin User';
+  const role = process.env.ADMIN_ROLE || 'owner';
+
+  if (!isAdminRole(role)) {
+    console.error(`❌ Unknown role "${role}". Use owner, manager, support or viewer.`);
+    process.exit(1);
+  }
 
   try {
-    const admin = await createAdmin(username, password, name);
+    const admin = await createAdmin(username, password, name, role);
     console.log('✅ Admin account created successfully!');
     console.log(`   Username: ${username}`);
     console.log(`   Password: ${password}`);
+    console.log(`   Role: ${role}`);
     console.log('\n⚠️  IMPORTANT: Please change the admin password after first login!');
     process.exit(0);
   } catch (error: any) {
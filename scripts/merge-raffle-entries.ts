@@ -0,0 +1,50 @@
+import { config } from 'dotenv';
+
+config();
+
+// Older versions of the bot inserted one raffle_entries row per ticket. Run this once
+// before `npm run db:push` so the unique (raffle_id, user_id) constraint can be added.
+async function mergeRaffleEntries() {
+  const { pool } = await import('../server/db');
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    await client.query(`ALTER TABLE raffle_entries ADD COLUMN IF NOT EXISTS updated_at timestamp NOT NULL DEFAULT now()`);
+
+    // Keep the earliest row for each user and fold the other rows' tickets into it
+    const merged = await client.query(`
+      WITH totals AS (
+        SELECT raffle_id, user_id, MIN(id) AS keep_id, SUM(entries) AS total, MAX(created_at) AS last_entry
+        FROM raffle_entries
+        GROUP BY raffle_id, user_id
+        HAVING COUNT(*) > 1
+      )
+      UPDATE raffle_entries e
+      SET entries = t.total, updated_at = t.last_entry
+      FROM totals t
+      WHERE e.id = t.keep_id
+      RETURNING e.id
+    `);
+
+    const removed = await client.query(`
+      DELETE FROM raffle_entries e
+      USING raffle_entries keep
+      WHERE keep.raffle_id = e.raffle_id
+        AND keep.user_id = e.user_id
+        AND keep.id < e.id
+    `);
+
+    await client.query('COMMIT');
+    console.log(`✅ Merged ${merged.rowCount} user entries, removed ${removed.rowCount} duplicate rows`);
+    process.exit(0);
+  } catch (error: any) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error merging raffle entries:', error.message);
+    process.exit(1);
+  } finally {
+    client.release();
+  }
+}
+
+mergeRaffleEntries();
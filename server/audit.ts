@@ -0,0 +1,101 @@
+import type { NextFunction, Request, Response } from 'express';
+import type { AuditChanges } from '@shared/schema';
+import { storage } from './storage';
+
+// Records every POST/PATCH/DELETE an admin makes. Handlers describe what they changed with
+// setAuditDetails(); anything they don't describe is still logged with the route and status.
+
+const AUDITED_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Never copied into the log, only marked as changed
+const SECRET_FIELDS = /token|password|secret/i;
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = ['updatedAt'];
+
+export interface AuditDetails {
+  entityType?: string;
+  entityId?: string | number | null;
+  description?: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+export function setAuditDetails(res: Response, details: AuditDetails) {
+  res.locals.audit = { ...res.locals.audit, ...details };
+}
+
+// Fields whose value differs between the two snapshots. A missing snapshot means
+// the entity was created (no before) or deleted (no after).
+export function diffRecords(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of Array.from(keys)) {
+    if (IGNORED_FIELDS.includes(key)) continue;
+
+    const from = before?.[key] ?? null;
+    const to = after?.[key] ?? null;
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+    changes[key] = SECRET_FIELDS.test(key)
+      ? { before: from === null ? null : '[redacted]', after: to === null ? null : '[redacted]' }
+      : { before: from, after: to };
+  }
+
+  return changes;
+}
+
+// For events with no signed-in admin behind them, such as failed sign-ins
+export function recordAuditEvent(req: Request, statusCode: number, details: AuditDetails & { adminId?: number | null }) {
+  storage.createAuditLogEntry({
+    adminId: details.adminId ?? null,
+    method: req.method,
+    path: req.originalUrl.split('?')[0],
+    statusCode,
+    entityType: details.entityType ?? null,
+    entityId: details.entityId != null ? String(details.entityId) : null,
+    description: details.description ?? null,
+    changes: null,
+    ip: req.ip ?? null,
+  }).catch(error => {
+    console.error('Audit log error:', error);
+  });
+}
+
+export function auditMutations(req: Request, res: Response, next: NextFunction) {
+  if (!AUDITED_METHODS.includes(req.method) || !req.path.startsWith('/api/')) {
+    return next();
+  }
+
+  res.on('finish', () => {
+    // Only requests that got past requireAuth have an admin to attribute them to
+    if (!req.admin) return;
+
+    const details: AuditDetails = res.locals.audit || {};
+    // '/api/raffles/12/draw' -> raffles, 12
+    const [, resource, id] = req.path.split('/').filter(Boolean);
+    const changes = details.before !== undefined || details.after !== undefined
+      ? diffRecords(details.before, details.after)
+      : null;
+
+    storage.createAuditLogEntry({
+      adminId: req.admin.id,
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      statusCode: res.statusCode,
+      entityType: details.entityType ?? resource ?? null,
+      entityId: details.entityId != null ? String(details.entityId) : id ?? null,
+      description: details.description ?? null,
+      changes,
+      ip: req.ip ?? null,
+    }).catch(error => {
+      console.error('Audit log error:', error);
+    });
+  });
+
+  next();
+}
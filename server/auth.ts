@@ -1,27 +1,117 @@
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import type { NextFunction, Request, Response } from 'express';
 import { storage } from './storage';
+import { generateTotpSecret, verifyTotp, buildOtpauthUrl, generateRecoveryCodes, hashRecoveryCode } from './totp';
+import type { Admin } from '@shared/schema';
+import { hasPermission, isAdminRole, type AdminRole, type Permission } from '@shared/permissions';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+// Values from old defaults and .env.example that must never sign real tokens
+const PLACEHOLDER_SECRETS = ['your-secret-key-change-in-production', 'your_jwt_secret_here'];
+
+function resolveJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (secret && !PLACEHOLDER_SECRETS.includes(secret)) {
+    return secret;
+  }
+  
+  // Anyone who knows the fallback could forge an owner token, so production refuses to start
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set to a long random value in production');
+  }
+  
+  console.warn('JWT_SECRET is not set; using an insecure development secret');
+  return 'insecure-development-secret';
+}
+
+const JWT_SECRET = resolveJwtSecret();
+
+// Access tokens are short-lived; the client trades its refresh token for a new one
+const ACCESS_TOKEN_TTL = '15m';
+// Sliding: every refresh pushes the session's expiry out again
+const REFRESH_TOKEN_TTL_DAYS = 30;
 
 export interface AuthenticatedAdmin {
   id: number;
   username: string;
   name: string;
+  role: AdminRole;
+}
+
+interface TokenPayload extends AuthenticatedAdmin {
+  // Admin's tokenVersion when the token was issued
+  ver?: number;
+  // admin_sessions row the token belongs to
+  sid?: number;
+}
+
+export interface SessionClient {
+  userAgent?: string;
+  ip?: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+interface TwoFactorChallengePayload {
+  id: number;
+  ver: number;
+  purpose: '2fa';
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// bot_settings key; when 'true', owners must turn on two-factor auth before using the panel
+export const REQUIRE_OWNER_2FA_SETTING = 'require_2fa_for_owners';
+
+const TOTP_ISSUER = 'HelloKorean Admin';
+
+// Routes an owner can still reach while they are being made to enroll in two-factor auth
+const TWO_FACTOR_SETUP_PATHS = ['/api/auth/me', '/api/auth/2fa/setup', '/api/auth/2fa/enable'];
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by requireAuth
+      admin?: AuthenticatedAdmin;
+      adminSessionId?: number;
+    }
+  }
+}
+
+export function toAuthenticatedAdmin(admin: Admin): AuthenticatedAdmin {
+  return {
+    id: admin.id,
+    username: admin.username,
+    name: admin.name,
+    role: isAdminRole(admin.role) ? admin.role : 'viewer',
+  };
 }
 
-export async function createAdmin(username: string, password: string, name: string) {
+export async function createAdmin(username: string, password: string, name: string, role: AdminRole = 'owner') {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (await storage.getAdminByUsername(username)) {
+    throw new Error('An admin with that username already exists');
+  }
+  
   const hashedPassword = await bcrypt.hash(password, 10);
   return await storage.createAdmin({
     username,
     password: hashedPassword,
     name,
+    role,
   });
 }
 
-export async function authenticateAdmin(username: string, password: string): Promise<AuthenticatedAdmin | null> {
+export async function authenticateAdmin(username: string, password: string): Promise<Admin | null> {
   const admin = await storage.getAdminByUsername(username);
-  if (!admin) {
+  if (!admin || !admin.isActive) {
     return null;
   }
   
@@ -30,21 +120,291 @@ export async function authenticateAdmin(username: string, password: string): Pro
     return null;
   }
   
-  return {
-    id: admin.id,
-    username: admin.username,
-    name: admin.name,
-  };
+  return admin;
+}
+
+// Changing a password signs the admin out of every session except the one making the change
+export async function changeAdminPassword(
+  adminId: number,
+  currentPassword: string,
+  newPassword: string,
+  keepSessionId?: number,
+): Promise<Admin> {
+  const admin = await storage.getAdminById(adminId);
+  if (!admin) {
+    throw new Error('Admin not found');
+  }
+  
+  if (!(await bcrypt.compare(currentPassword, admin.password))) {
+    throw new Error('Current password is incorrect');
+  }
+  
+  if (newPassword.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  
+  const updated = await storage.updateAdmin(admin.id, {
+    password: await bcrypt.hash(newPassword, 10),
+    tokenVersion: admin.tokenVersion + 1,
+  });
+  await storage.revokeAdminSessions(admin.id, keepSessionId);
+  return updated;
+}
+
+export async function mustEnrollTwoFactor(admin: Admin): Promise<boolean> {
+  if (admin.totpEnabled || admin.role !== 'owner') {
+    return false;
+  }
+  return (await storage.getBotSetting(REQUIRE_OWNER_2FA_SETTING))?.value === 'true';
+}
+
+// Accepts a current authenticator code or an unused recovery code. Either is used up on success.
+export async function verifyTwoFactorCode(admin: Admin, code: string): Promise<boolean> {
+  if (!admin.totpEnabled || !admin.totpSecret) {
+    return false;
+  }
+  
+  const step = verifyTotp(admin.totpSecret, code);
+  if (step !== null) {
+    return await storage.consumeTotpStep(admin.id, step);
+  }
+  
+  return await storage.consumeRecoveryCode(admin.id, hashRecoveryCode(code));
 }
 
-export function generateToken(admin: AuthenticatedAdmin): string {
-  return jwt.sign(admin, JWT_SECRET, { expiresIn: '24h' });
+// Creates a new secret that only takes effect once enableTwoFactor confirms a code from it
+export async function startTwoFactorEnrollment(adminId: number): Promise<{ secret: string; otpauthUrl: string; qrCode: string }> {
+  const admin = await storage.getAdminById(adminId);
+  if (!admin) {
+    throw new Error('Admin not found');
+  }
+  
+  if (admin.totpEnabled) {
+    throw new Error('Two-factor authentication is already on');
+  }
+  
+  const secret = generateTotpSecret();
+  await storage.updateAdmin(admin.id, { totpSecret: secret });
+  
+  const otpauthUrl = buildOtpauthUrl(TOTP_ISSUER, admin.username, secret);
+  const qrCode = await QRCode.toDataURL(otpauthUrl);
+  return { secret, otpauthUrl, qrCode };
 }
 
-export function verifyToken(token: string): AuthenticatedAdmin | null {
+// Returns the recovery codes in plain text; only their hashes are stored
+export async function enableTwoFactor(adminId: number, code: string): Promise<string[]> {
+  const admin = await storage.getAdminById(adminId);
+  if (!admin) {
+    throw new Error('Admin not found');
+  }
+  
+  if (admin.totpEnabled) {
+    throw new Error('Two-factor authentication is already on');
+  }
+  
+  const step = admin.totpSecret ? verifyTotp(admin.totpSecret, code) : null;
+  if (step === null) {
+    throw new Error('Invalid code');
+  }
+  
+  const recoveryCodes = generateRecoveryCodes();
+  await storage.updateAdmin(admin.id, {
+    totpEnabled: true,
+    totpLastStep: step,
+    recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+  });
+  return recoveryCodes;
+}
+
+export async function disableTwoFactor(adminId: number, password: string, code: string): Promise<void> {
+  const admin = await storage.getAdminById(adminId);
+  if (!admin) {
+    throw new Error('Admin not found');
+  }
+  
+  if (!(await bcrypt.compare(password, admin.password))) {
+    throw new Error('Current password is incorrect');
+  }
+  
+  if (!(await verifyTwoFactorCode(admin, code))) {
+    throw new Error('Invalid code');
+  }
+  
+  if (await mustEnrollTwoFactor({ ...admin, totpEnabled: false })) {
+    throw new Error('Two-factor authentication is required for owners');
+  }
+  
+  await storage.updateAdmin(admin.id, resetTwoFactorFields());
+}
+
+export async function regenerateRecoveryCodes(adminId: number, code: string): Promise<string[]> {
+  const admin = await storage.getAdminById(adminId);
+  if (!admin) {
+    throw new Error('Admin not found');
+  }
+  
+  if (!(await verifyTwoFactorCode(admin, code))) {
+    throw new Error('Invalid code');
+  }
+  
+  const recoveryCodes = generateRecoveryCodes();
+  await storage.updateAdmin(admin.id, { recoveryCodes: recoveryCodes.map(hashRecoveryCode) });
+  return recoveryCodes;
+}
+
+export function resetTwoFactorFields(): Partial<Admin> {
+  return { totpSecret: null, totpEnabled: false, totpLastStep: null, recoveryCodes: [] };
+}
+
+// Short-lived token proving the password step passed; exchanged for a session with a 2FA code
+export function generateTwoFactorChallenge(admin: Admin): string {
+  const payload: TwoFactorChallengePayload = { id: admin.id, ver: admin.tokenVersion, purpose: '2fa' };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: '5m' });
+}
+
+// The admin a challenge was issued to. The code itself is checked by the caller, through
+// checkLoginAttempt so wrong codes count towards the lockout.
+export async function getTwoFactorChallengeAdmin(challengeToken: string): Promise<Admin> {
+  let payload: TwoFactorChallengePayload;
   try {
-    return jwt.verify(token, JWT_SECRET) as AuthenticatedAdmin;
+    payload = jwt.verify(challengeToken, JWT_SECRET) as TwoFactorChallengePayload;
+  } catch (error) {
+    throw new Error('Login expired, please sign in again');
+  }
+  
+  const admin = await storage.getAdminById(payload.id);
+  if (payload.purpose !== '2fa' || !admin || !admin.isActive || admin.tokenVersion !== payload.ver) {
+    throw new Error('Login expired, please sign in again');
+  }
+  
+  return admin;
+}
+
+export function generateToken(admin: Admin, sessionId: number): string {
+  const payload: TokenPayload = { ...toAuthenticatedAdmin(admin), ver: admin.tokenVersion, sid: sessionId };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+}
+
+function generateRefreshToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function hashRefreshToken(refreshToken: string): string {
+  return crypto.createHash('sha256').update(refreshToken).digest('hex');
+}
+
+function refreshTokenExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Called once the admin has fully signed in (password, and 2FA if they use it)
+export async function createSession(admin: Admin, client: SessionClient): Promise<SessionTokens> {
+  const refreshToken = generateRefreshToken();
+  const session = await storage.createAdminSession({
+    adminId: admin.id,
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    userAgent: client.userAgent?.slice(0, 255) ?? null,
+    ip: client.ip ?? null,
+    expiresAt: refreshTokenExpiry(),
+  });
+  return { token: generateToken(admin, session.id), refreshToken };
+}
+
+// Exchanges a refresh token for a new access token and a new refresh token. A token that was
+// already rotated away means someone else holds a copy, so the whole session is revoked.
+export async function refreshSession(refreshToken: string): Promise<SessionTokens & { admin: Admin }> {
+  const tokenHash = hashRefreshToken(refreshToken);
+  const session = await storage.findAdminSessionByTokenHash(tokenHash);
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    throw new Error('Session expired');
+  }
+  
+  if (session.refreshTokenHash !== tokenHash) {
+    console.warn(`Refresh token reused for admin session ${session.id}; revoking it`);
+    await storage.revokeAdminSession(session.adminId, session.id);
+    throw new Error('Session expired');
+  }
+  
+  const admin = await storage.getAdminById(session.adminId);
+  if (!admin || !admin.isActive) {
+    throw new Error('Session expired');
+  }
+  
+  const nextRefreshToken = generateRefreshToken();
+  const rotated = await storage.rotateAdminSession(session.id, tokenHash, hashRefreshToken(nextRefreshToken), refreshTokenExpiry());
+  if (!rotated) {
+    throw new Error('Session expired');
+  }
+  
+  return { token: generateToken(admin, session.id), refreshToken: nextRefreshToken, admin };
+}
+
+// Signing out only needs the refresh token, so it still works after the access token expired
+export async function endSession(refreshToken: string): Promise<void> {
+  const session = await storage.findAdminSessionByTokenHash(hashRefreshToken(refreshToken));
+  if (session) {
+    await storage.revokeAdminSession(session.adminId, session.id);
+  }
+}
+
+export function verifyToken(token: string): TokenPayload | null {
+  try {
+    return jwt.verify(token, JWT_SECRET) as TokenPayload;
   } catch (error) {
     return null;
   }
 }
+
+// Middleware to check authentication. The admin and their session are re-read on every request
+// so that disabling them, changing their role or signing the session out applies at once.
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ message: 'No token provided' });
+  }
+  
+  const payload = verifyToken(token);
+  // A 2FA challenge token is signed with the same key but must never work as a session
+  if (!payload || 'purpose' in payload) {
+    return res.status(401).json({ message: 'Invalid token' });
+  }
+  
+  // Tokens issued before sessions existed have no sid and must sign in again
+  if (!payload.sid) {
+    return res.status(401).json({ message: 'Session expired' });
+  }
+  
+  try {
+    const [admin, session] = await Promise.all([
+      storage.getAdminById(payload.id),
+      storage.getAdminSession(payload.sid),
+    ]);
+    if (!admin || !admin.isActive || payload.ver !== admin.tokenVersion) {
+      return res.status(401).json({ message: 'Session expired' });
+    }
+    if (!session || session.revokedAt || session.adminId !== admin.id) {
+      return res.status(401).json({ message: 'Session expired' });
+    }
+    
+    if (!TWO_FACTOR_SETUP_PATHS.includes(req.path) && await mustEnrollTwoFactor(admin)) {
+      return res.status(403).json({ message: 'Set up two-factor authentication to continue' });
+    }
+    
+    req.admin = toAuthenticatedAdmin(admin);
+    req.adminSessionId = session.id;
+    next();
+  } catch (error) {
+    console.error('Auth check error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+}
+
+// Middleware for routes that need more than a login. Use after requireAuth.
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasPermission(req.admin?.role, permission)) {
+      return res.status(403).json({ message: "You don't have permission to do this" });
+    }
+    next();
+  };
+}
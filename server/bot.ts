@@ -1,11 +1,17 @@
 import TelegramBot from 'node-telegram-bot-api';
 import { storage } from './storage';
 import { nanoid } from 'nanoid';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import type { Purchase, Raffle, ShopItem, User } from '@shared/schema';
+import { TUTORIAL_STEPS, renderTutorialStep } from './tutorial';
+import { startConversation, getConversation, endConversation } from './conversation';
+import { getFeatureFlags, getUnavailableMessage, type Feature, type FeatureFlags } from './features';
+import { runOnce, TELEGRAM_CALLBACK_SCOPE } from './idempotency';
+import { BROADCAST_ACTION_PREFIX, type BroadcastContent } from '@shared/broadcast-content';
 
 let bot: TelegramBot | null = null;
-
-// User state management for tracking what input we're expecting
-const userStates = new Map<string, { state: string; timestamp: number }>();
+let botMode: 'webhook' | 'polling' = 'webhook';
+let webhookSecret: string | null = null;
 
 async function initializeBot() {
   // Stop existing bot instance if any
@@ -33,14 +39,30 @@ async function initializeBot() {
 
   console.log('Initializing Telegram bot...');
   try {
-    // Clear any pending updates first
-    const clearUpdatesUrl = `https://api.telegram.org/bot${BOT_TOKEN}/getUpdates?offset=-1`;
-    await fetch(clearUpdatesUrl);
+    const publicBaseUrl = await getPublicBaseUrl();
+    const configuredMode = (await storage.getBotSetting('bot_mode'))?.value || process.env.BOT_MODE;
+    // Without a public URL Telegram can't reach us, so fall back to polling
+    botMode = configuredMode === 'polling' || configuredMode === 'webhook'
+      ? configuredMode
+      : publicBaseUrl ? 'webhook' : 'polling';
     
-    bot = new TelegramBot(BOT_TOKEN, { polling: false }); // Disable polling, no webhook server
-
-// Set webhook to your Railway public URL
-await bot.setWebHook(`https://TELEBOT-18-production-acca.up.railway.app/telegram`);
+    bot = new TelegramBot(BOT_TOKEN, { polling: false });
+    
+    if (botMode === 'webhook') {
+      if (!publicBaseUrl) {
+        throw new Error('Webhook mode needs a public base URL. Set it in settings or PUBLIC_BASE_URL.');
+      }
+      
+      webhookSecret = await getOrCreateWebhookSecret();
+      await bot.setWebHook(`${publicBaseUrl}/telegram`, { secret_token: webhookSecret });
+      console.log(`Webhook registered at ${publicBaseUrl}/telegram`);
+    } else {
+      // A leftover webhook makes getUpdates fail, so remove it before polling
+      webhookSecret = null;
+      await bot.deleteWebHook();
+      await bot.startPolling();
+      console.log('Bot is using long polling');
+    }
 
     setupBotHandlers();
     console.log('Telegram bot initialized successfully!');
@@ -51,6 +73,40 @@ await bot.setWebHook(`https://TELEBOT-18-production-acca.up.railway.app/telegram
   return bot;
 }
 
+// Public HTTPS origin Telegram should deliver webhooks to, without a trailing slash
+async function getPublicBaseUrl(): Promise<string | null> {
+  const configured = (await storage.getBotSetting('public_base_url'))?.value
+    || process.env.PUBLIC_BASE_URL
+    || (process.env.RAILWAY_PUBLIC_DOMAIN ? `https://${process.env.RAILWAY_PUBLIC_DOMAIN}` : '');
+  return configured ? configured.replace(/\/+$/, '') : null;
+}
+
+// Telegram echoes this back in X-Telegram-Bot-Api-Secret-Token on every webhook call
+async function getOrCreateWebhookSecret(): Promise<string> {
+  const existing = (await storage.getBotSetting('webhook_secret'))?.value;
+  if (existing) return existing;
+  
+  const secret = randomBytes(32).toString('hex');
+  await storage.setBotSetting({
+    key: 'webhook_secret',
+    value: secret,
+    description: 'Secret Telegram sends with each webhook request',
+  });
+  return secret;
+}
+
+// Checks the secret header of an incoming webhook request in constant time
+function verifyWebhookSecret(header: string | undefined): boolean {
+  if (!webhookSecret || !header) return false;
+  const expected = Buffer.from(webhookSecret);
+  const received = Buffer.from(header);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+function getBotMode(): 'webhook' | 'polling' | null {
+  return bot ? botMode : null;
+}
+
 // Generate unique referral code
 function generateReferralCode(): string {
   return nanoid(8).toUpperCase();
@@ -78,6 +134,75 @@ function canClaimDailyReward(lastReward: Date | null): boolean {
   return todayPST.getTime() > lastRewardPST.getTime();
 }
 
+// Turns the errors thrown by storage.buyRaffleEntries/buyShopItem into a reply for the user.
+// Returns null for anything unexpected so the caller can rethrow it.
+function describeSpendError(error: unknown, insufficientHint: string): string | null {
+  const message = error instanceof Error ? error.message : '';
+  switch (message) {
+    case 'Insufficient coins':
+      return `❌ Not enough coins! ${insufficientHint}`;
+    case 'Raffle is full':
+      return '❌ This raffle is full!';
+    case 'Raffle is closed':
+      return '❌ This raffle has already ended.';
+    case 'Entry limit reached':
+      return '❌ You already hold the maximum number of tickets allowed for this raffle.';
+    case 'Invalid quantity':
+      return '❌ Please choose a whole number of tickets.';
+    case 'Raffle not found':
+      return 'Raffle not found!';
+    case 'Out of stock':
+      return '❌ This item is out of stock!';
+    case 'Item is unavailable':
+    case 'Item not found':
+      return '❌ This item is no longer available.';
+    default:
+      return null;
+  }
+}
+
+// Which feature switch guards an inline button, if any
+function getCallbackFeature(data: string): Feature | undefined {
+  if (data === 'view_raffles' || data.startsWith('raffle_')) return 'raffles';
+  if (data === 'view_shop' || data.startsWith('shop_')) return 'shop';
+  if (data === 'referral_link' || data === 'enter_code') return 'referrals';
+  return undefined;
+}
+
+// Main menu shown by /start and "Back to Menu". Disabled features are left out.
+function buildMainMenuKeyboard(user: User, referralReward: number, flags: FeatureFlags) {
+  const keyboard: TelegramBot.InlineKeyboardButton[][] = [
+    [
+      { text: canClaimDailyReward(user.lastDailyReward) ? '✅ Daily Check-in' : '✅ Daily Check-in (Completed)', callback_data: 'daily_checkin' }
+    ]
+  ];
+
+  const spendRow: TelegramBot.InlineKeyboardButton[] = [];
+  if (flags.raffles) spendRow.push({ text: '🎪 Join Raffle', callback_data: 'view_raffles' });
+  if (flags.shop) spendRow.push({ text: '🛍️ Coin Shop', callback_data: 'view_shop' });
+  if (spendRow.length > 0) keyboard.push(spendRow);
+
+  if (flags.referrals) {
+    keyboard.push([
+      { text: `👥 Invite Friends (+${referralReward} coins each)`, callback_data: 'referral_link' }
+    ]);
+    keyboard.push([
+      { text: '💰 My Info', callback_data: 'my_info' },
+      { text: `🎁 Enter Invitation Code (+${referralReward} coins)`, callback_data: 'enter_code' }
+    ]);
+  } else {
+    keyboard.push([{ text: '💰 My Info', callback_data: 'my_info' }]);
+  }
+
+  if (!user.onboardingCompleted) {
+    keyboard.push([
+      { text: user.onboardingStep > 0 ? '🎓 Continue Tutorial' : '🎓 Start Tutorial', callback_data: 'tutorial_start' }
+    ]);
+  }
+
+  return { inline_keyboard: keyboard };
+}
+
 function setupBotHandlers() {
   if (!bot) return;
 
@@ -91,6 +216,22 @@ function setupBotHandlers() {
     console.log('Received message:', msg.text, 'from:', msg.from?.username || msg.from?.id);
   });
 
+  // A user the bot couldn't reach is back as soon as they message it again
+  bot.on('message', (msg) => {
+    if (msg.chat.type !== 'private' || !msg.from) return;
+    storage.setUserReachability(msg.from.id.toString(), 'reachable')
+      .catch(error => console.error('Error updating user reachability:', error));
+  });
+
+  // Telegram also says when a user blocks or unblocks the bot
+  bot.on('my_chat_member', (update) => {
+    if (update.chat.type !== 'private') return;
+    const status = update.new_chat_member.status;
+    if (status !== 'kicked' && status !== 'member') return;
+    storage.setUserReachability(update.from.id.toString(), status === 'kicked' ? 'blocked' : 'reachable')
+      .catch(error => console.error('Error updating user reachability:', error));
+  });
+
   // Add error handler
   bot.on('error', (error) => {
     console.error('Bot error:', error);
@@ -107,6 +248,13 @@ function setupBotHandlers() {
     if (!telegramId) return;
   
   try {
+    const flags = await getFeatureFlags();
+    const unavailable = await getUnavailableMessage(telegramId);
+    if (unavailable) {
+      bot.sendMessage(chatId, unavailable);
+      return;
+    }
+    
     let user = await storage.getUserByTelegramId(telegramId);
     
     if (!user) {
@@ -118,7 +266,6 @@ function setupBotHandlers() {
         lastName: msg.from?.last_name || null,
         referralCode: generateReferralCode(),
         referredBy: referralCode || null,
-        coins: 0,
       };
       
       user = await storage.createUser(newUser);
@@ -140,7 +287,7 @@ function setupBotHandlers() {
     }
     
     // Handle referral reward for new users
-    if (!user.referredBy && referralCode) {
+    if (!user.referredBy && referralCode && flags.referrals) {
       const referrer = await storage.getUserByReferralCode(referralCode);
       if (referrer) {
         // Get referral reward from bot settings
@@ -185,29 +332,27 @@ function setupBotHandlers() {
 
 **Choose what you'd like to do:**`;
 
-    const keyboard = {
-      inline_keyboard: [
-        [
-          { text: '✅ Daily Check-in', callback_data: 'daily_checkin' }
-        ],
-        [
-          { text: '🎪 Join Raffle', callback_data: 'view_raffles' },
-          { text: '🛍️ Coin Shop', callback_data: 'view_shop' }
-        ],
-        [
-          { text: `👥 Invite Friends (+${referralReward} coins each)`, callback_data: 'referral_link' }
-        ],
-        [
-          { text: '💰 My Info', callback_data: 'my_info' },
-          { text: `🎁 Enter Invitation Code (+${referralReward} coins)`, callback_data: 'enter_code' }
-        ]
-      ]
-    };
+    const keyboard = buildMainMenuKeyboard(user, referralReward, flags);
     
-    bot.sendMessage(chatId, welcomeMessage, {
+    await bot.sendMessage(chatId, welcomeMessage, {
       reply_markup: keyboard,
       parse_mode: 'Markdown'
     });
+    
+    // Offer the guided tour to anyone who hasn't started it yet
+    if (!user.onboardingCompleted && user.onboardingStep === 0) {
+      bot.sendMessage(chatId, '🎓 **New here?** Take a quick tour of the bot and earn a bonus when you finish!', {
+        reply_markup: {
+          inline_keyboard: [
+            [
+              { text: '🎓 Start Tutorial', callback_data: 'tutorial_start' },
+              { text: 'Maybe later', callback_data: 'tutorial_later' }
+            ]
+          ]
+        },
+        parse_mode: 'Markdown'
+      });
+    }
   } catch (error) {
     console.error('Error in /start command:', error);
     bot.sendMessage(chatId, 'Sorry, something went wrong. Please try again.');
@@ -222,6 +367,12 @@ bot.onText(/\/daily/, async (msg) => {
   if (!telegramId) return;
   
   try {
+    const unavailable = await getUnavailableMessage(telegramId);
+    if (unavailable) {
+      bot.sendMessage(chatId, unavailable);
+      return;
+    }
+    
     const user = await storage.getUserByTelegramId(telegramId);
     if (!user) {
       bot.sendMessage(chatId, 'Please start the bot first with /start');
@@ -255,6 +406,12 @@ bot.onText(/\/referral/, async (msg) => {
   if (!telegramId) return;
   
   try {
+    const unavailable = await getUnavailableMessage(telegramId, 'referrals');
+    if (unavailable) {
+      bot.sendMessage(chatId, unavailable);
+      return;
+    }
+    
     const user = await storage.getUserByTelegramId(telegramId);
     if (!user) {
       bot.sendMessage(chatId, 'Please start the bot first with /start');
@@ -290,6 +447,12 @@ bot.onText(/\/raffle/, async (msg) => {
   if (!telegramId) return;
   
   try {
+    const unavailable = await getUnavailableMessage(telegramId, 'raffles');
+    if (unavailable) {
+      bot.sendMessage(chatId, unavailable);
+      return;
+    }
+    
     const user = await storage.getUserByTelegramId(telegramId);
     if (!user) {
       bot.sendMessage(chatId, 'Please start the bot first with /start');
@@ -310,11 +473,15 @@ bot.onText(/\/raffle/, async (msg) => {
       message += `🏆 Prize: ${raffle.prizeDescription}\n`;
       message += `💰 Entry cost: ${raffle.entryCost} coins\n`;
       message += `📊 Entries: ${raffle.currentEntries}${raffle.maxEntries ? `/${raffle.maxEntries}` : ''}\n`;
+      if (raffle.maxEntriesPerUser) {
+        message += `🎟️ Max ${raffle.maxEntriesPerUser} tickets per person\n`;
+      }
       message += `⏰ Ends: ${endDate}\n\n`;
     });
     
     message += `Reply with the raffle number to enter!\n🪙 Your coins: ${user.coins}`;
     
+    await startConversation(telegramId, 'browsing_raffles', { raffleIds: activeRaffles.map(raffle => raffle.id) });
     bot.sendMessage(chatId, message);
   } catch (error) {
     console.error('Error in /raffle command:', error);
@@ -330,6 +497,12 @@ bot.onText(/\/shop/, async (msg) => {
   if (!telegramId) return;
   
   try {
+    const unavailable = await getUnavailableMessage(telegramId, 'shop');
+    if (unavailable) {
+      bot.sendMessage(chatId, unavailable);
+      return;
+    }
+    
     const user = await storage.getUserByTelegramId(telegramId);
     if (!user) {
       bot.sendMessage(chatId, 'Please start the bot first with /start');
@@ -358,6 +531,7 @@ bot.onText(/\/shop/, async (msg) => {
     
     message += `Reply with the item number to purchase!\n🪙 Your coins: ${user.coins}`;
     
+    await startConversation(telegramId, 'browsing_shop', { itemIds: shopItems.map(item => item.id) });
     bot.sendMessage(chatId, message);
   } catch (error) {
     console.error('Error in /shop command:', error);
@@ -373,6 +547,12 @@ bot.onText(/\/myinfo/, async (msg) => {
   if (!telegramId) return;
   
   try {
+    const unavailable = await getUnavailableMessage(telegramId);
+    if (unavailable) {
+      bot.sendMessage(chatId, unavailable);
+      return;
+    }
+    
     const user = await storage.getUserByTelegramId(telegramId);
     if (!user) {
       bot.sendMessage(chatId, 'Please start the bot first with /start');
@@ -423,11 +603,23 @@ bot.on('message', async (msg) => {
     const user = await storage.getUserByTelegramId(telegramId);
     if (!user) return;
     
+    const maintenance = await getUnavailableMessage(telegramId);
+    if (maintenance) {
+      bot.sendMessage(chatId, maintenance);
+      return;
+    }
+    
     // Check if user is expecting to enter an invitation code
-    const userState = userStates.get(telegramId);
-    if (userState && userState.state === 'expecting_invite_code') {
+    const conversation = await getConversation(telegramId);
+    if (conversation?.state === 'expecting_invite_code') {
       // Clear the state
-      userStates.delete(telegramId);
+      await endConversation(telegramId);
+      
+      const referralsUnavailable = await getUnavailableMessage(telegramId, 'referrals');
+      if (referralsUnavailable) {
+        bot.sendMessage(chatId, referralsUnavailable);
+        return;
+      }
       
       const inviteCode = text.trim().toUpperCase();
       
@@ -468,79 +660,95 @@ bot.on('message', async (msg) => {
       return;
     }
     
-    const number = parseInt(text.trim());
-    if (isNaN(number)) return;
-    
-    // Check if it's a raffle entry
-    const activeRaffles = await storage.getActiveRaffles();
-    if (number > 0 && number <= activeRaffles.length) {
-      const raffle = activeRaffles[number - 1];
-      
-      if (user.coins < raffle.entryCost) {
-        bot.sendMessage(chatId, `❌ Not enough coins! You need ${raffle.entryCost} coins to enter this raffle.`);
+    if (conversation?.state === 'expecting_raffle_quantity') {
+      const quantity = Number(text.trim());
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        bot.sendMessage(chatId, '❌ Please send a whole number of tickets, e.g. 3.');
         return;
       }
       
-      // Enter raffle
-      await storage.updateUser(telegramId, { coins: user.coins - raffle.entryCost });
-      await storage.enterRaffle({
-        raffleId: raffle.id,
-        userId: user.id,
-        entries: 1,
-      });
-      
-      await storage.updateRaffle(raffle.id, {
-        currentEntries: raffle.currentEntries + 1,
-      });
+      await endConversation(telegramId);
+      const rafflesUnavailable = await getUnavailableMessage(telegramId, 'raffles');
+      if (rafflesUnavailable) {
+        bot.sendMessage(chatId, rafflesUnavailable);
+        return;
+      }
       
-      await storage.createTransaction({
-        userId: user.id,
-        type: 'raffle_entry',
-        amount: -raffle.entryCost,
-        description: `Raffle entry: ${raffle.title}`,
-      });
+      const raffle = await storage.getRaffleById(conversation.payload.raffleId);
+      if (!raffle) {
+        bot.sendMessage(chatId, 'Raffle not found!');
+        return;
+      }
       
-      bot.sendMessage(chatId, `🎪 Successfully entered raffle: ${raffle.title}!\n🪙 Remaining coins: ${user.coins - raffle.entryCost}`);
+      try {
+        const result = await storage.buyRaffleEntries(telegramId, raffle.id, quantity);
+        bot.sendMessage(chatId, `🎪 Bought ${quantity} ticket${quantity > 1 ? 's' : ''} for ${raffle.title}!\n🎟️ Your tickets: ${result.entry.entries}\n🪙 Remaining coins: ${result.user.coins}`);
+      } catch (error) {
+        const reason = describeSpendError(error, `${quantity} ticket${quantity > 1 ? 's' : ''} cost ${raffle.entryCost * quantity} coins.`);
+        if (!reason) throw error;
+        bot.sendMessage(chatId, reason);
+      }
       return;
     }
     
-    // Check if it's a shop purchase
-    const shopItems = await storage.getActiveShopItems();
-    if (number > 0 && number <= shopItems.length) {
-      const item = shopItems[number - 1];
+    const number = parseInt(text.trim());
+    if (isNaN(number)) return;
+    
+    // A number picks from the list the user was last shown, so it can't land on the other one
+    if (conversation?.state === 'browsing_raffles') {
+      const raffleId = conversation.payload.raffleIds[number - 1];
+      if (raffleId === undefined) return;
       
-      if (user.coins < item.cost) {
-        bot.sendMessage(chatId, `❌ Not enough coins! You need ${item.cost} coins to purchase this item.`);
+      const rafflesUnavailable = await getUnavailableMessage(telegramId, 'raffles');
+      if (rafflesUnavailable) {
+        bot.sendMessage(chatId, rafflesUnavailable);
         return;
       }
       
-      if (item.stock !== null && item.stock <= 0) {
-        bot.sendMessage(chatId, `❌ This item is out of stock!`);
+      const raffle = await storage.getRaffleById(raffleId);
+      if (!raffle) {
+        bot.sendMessage(chatId, 'Raffle not found!');
         return;
       }
       
-      // Purchase item
-      await storage.updateUser(telegramId, { coins: user.coins - item.cost });
-      await storage.createPurchase({
-        userId: user.id,
-        itemId: item.id,
-        quantity: 1,
-        totalCost: item.cost,
-        status: 'completed',
-      });
+      try {
+        const result = await storage.buyRaffleEntries(telegramId, raffle.id);
+        bot.sendMessage(chatId, `🎪 Successfully entered raffle: ${raffle.title}!\n🎟️ Your tickets: ${result.entry.entries}\n🪙 Remaining coins: ${result.user.coins}`);
+      } catch (error) {
+        const reason = describeSpendError(error, `You need ${raffle.entryCost} coins to enter this raffle.`);
+        if (!reason) throw error;
+        bot.sendMessage(chatId, reason);
+      }
+      return;
+    }
+    
+    if (conversation?.state === 'browsing_shop') {
+      const itemId = conversation.payload.itemIds[number - 1];
+      if (itemId === undefined) return;
       
-      if (item.stock !== null) {
-        await storage.updateShopItem(item.id, { stock: item.stock - 1 });
+      const shopUnavailable = await getUnavailableMessage(telegramId, 'shop');
+      if (shopUnavailable) {
+        bot.sendMessage(chatId, shopUnavailable);
+        return;
       }
       
-      await storage.createTransaction({
-        userId: user.id,
-        type: 'shop_purchase',
-        amount: -item.cost,
-        description: `Shop purchase: ${item.name}`,
-      });
+      const item = await storage.getActiveShopItems().then(items => items.find(i => i.id === itemId));
+      if (!item) {
+        bot.sendMessage(chatId, 'Item not found!');
+        return;
+      }
       
-      bot.sendMessage(chatId, `🛍️ Successfully purchased: ${item.name}!\n🪙 Remaining coins: ${user.coins - item.cost}`);
+      try {
+        const result = await storage.buyShopItem(telegramId, item.id);
+        await bot.sendMessage(chatId, `🛍️ Successfully purchased: ${item.name}!\n🪙 Remaining coins: ${result.user.coins}${result.purchase.status === 'pending' ? `\n\n📦 Order #${result.purchase.id} is being prepared - we'll message you once it's fulfilled.` : ''}`);
+        if (result.code) {
+          await sendPurchasedCode(chatId, item.name, result.code.code);
+        }
+      } catch (error) {
+        const reason = describeSpendError(error, `You need ${item.cost} coins to purchase this item.`);
+        if (!reason) throw error;
+        bot.sendMessage(chatId, reason);
+      }
       return;
     }
   } catch (error) {
@@ -548,12 +756,28 @@ bot.on('message', async (msg) => {
   }
 });
 
+// What a button handler shows the user in the callback's toast or alert
+type CallbackAnswer = Omit<TelegramBot.AnswerCallbackQueryOptions, 'callback_query_id'>;
+
+// Buttons that move coins run at most once per callback query. If Telegram delivers the same
+// update again, the stored answer is shown instead of paying or charging a second time.
+async function answerOnce(callbackQuery: TelegramBot.CallbackQuery, handler: () => Promise<CallbackAnswer>) {
+  const answer = await runOnce(TELEGRAM_CALLBACK_SCOPE, callbackQuery.id, callbackQuery.data ?? '', handler);
+  if (answer) {
+    // The first delivery may already have answered it
+    bot?.answerCallbackQuery(callbackQuery.id, answer).catch(() => {});
+  }
+}
+
 // Handle callback queries from inline buttons
 bot.on('callback_query', async (callbackQuery) => {
   if (!bot) return;
   const chatId = callbackQuery.message?.chat.id;
   const telegramId = callbackQuery.from.id.toString();
-  const data = callbackQuery.data;
+  // A broadcast's button opens its screen in a new message and leaves the broadcast as it was
+  const fromBroadcast = callbackQuery.data?.startsWith(BROADCAST_ACTION_PREFIX);
+  const data = fromBroadcast ? callbackQuery.data!.slice(BROADCAST_ACTION_PREFIX.length) : callbackQuery.data;
+  const messageId = fromBroadcast ? undefined : callbackQuery.message?.message_id;
   
   if (!chatId || !data) return;
   
@@ -563,40 +787,65 @@ bot.on('callback_query', async (callbackQuery) => {
       bot.answerCallbackQuery(callbackQuery.id, { text: 'Please start the bot first with /start' });
       return;
     }
+    if (user.reachability !== 'reachable') {
+      await storage.setUserReachability(telegramId, 'reachable');
+    }
+
+    const unavailable = await getUnavailableMessage(telegramId, getCallbackFeature(data));
+    if (unavailable) {
+      bot.answerCallbackQuery(callbackQuery.id, { text: unavailable, show_alert: true });
+      return;
+    }
 
     switch (data) {
       case 'daily_checkin':
-        await handleDailyCheckin(chatId, telegramId, user, callbackQuery.id, callbackQuery.message?.message_id);
+        await answerOnce(callbackQuery, () => handleDailyCheckin(chatId, telegramId, user, messageId));
         break;
       case 'view_raffles':
-        await handleViewRaffles(chatId, telegramId, user, callbackQuery.id, callbackQuery.message?.message_id);
+        await handleViewRaffles(chatId, telegramId, user, callbackQuery.id, messageId);
         break;
       case 'view_shop':
-        await handleViewShop(chatId, telegramId, user, callbackQuery.id, callbackQuery.message?.message_id);
+        await handleViewShop(chatId, telegramId, user, callbackQuery.id, messageId);
         break;
       case 'referral_link':
-        await handleReferralLink(chatId, telegramId, user, callbackQuery.id, callbackQuery.message?.message_id);
+        await handleReferralLink(chatId, telegramId, user, callbackQuery.id, messageId);
         break;
       case 'my_info':
-        await handleMyInfo(chatId, telegramId, user, callbackQuery.id, callbackQuery.message?.message_id);
+        await handleMyInfo(chatId, telegramId, user, callbackQuery.id, messageId);
         break;
       case 'enter_code':
-        await handleEnterCode(chatId, telegramId, user, callbackQuery.id, callbackQuery.message?.message_id);
+        await handleEnterCode(chatId, telegramId, user, callbackQuery.id, messageId);
         break;
       case 'back_to_menu':
-        await handleBackToMenu(chatId, telegramId, user, callbackQuery.id, callbackQuery.message?.message_id);
+        await handleBackToMenu(chatId, telegramId, user, callbackQuery.id, messageId);
+        break;
+      case 'tutorial_start':
+        await handleTutorialStep(chatId, user, Math.max(user.onboardingStep, 1), callbackQuery.id, messageId);
+        break;
+      case 'tutorial_next':
+        await handleTutorialStep(chatId, user, user.onboardingStep + 1, callbackQuery.id, messageId);
+        break;
+      case 'tutorial_checkin':
+        await handleTutorialCheckin(chatId, telegramId, user, callbackQuery.id, messageId);
+        break;
+      case 'tutorial_later':
+        bot.answerCallbackQuery(callbackQuery.id, { text: 'No problem! Tap "🎓 Start Tutorial" in the menu whenever you like.' });
         break;
-      
-
       
       default:
         // Handle raffle entries and shop purchases
-        if (data.startsWith('raffle_')) {
+        if (data.startsWith('raffle_buy_')) {
+          const [raffleId, quantity] = data.split('_').slice(2).map(part => parseInt(part));
+          await answerOnce(callbackQuery, () => handleRaffleEntry(telegramId, raffleId, quantity));
+        } else if (data.startsWith('raffle_custom_')) {
+          const raffleId = parseInt(data.split('_')[2]);
+          await handleRaffleCustomQuantity(chatId, telegramId, raffleId, callbackQuery.id, messageId);
+        } else if (data.startsWith('raffle_')) {
           const raffleId = parseInt(data.split('_')[1]);
-          await handleRaffleEntry(chatId, telegramId, user, raffleId, callbackQuery.id);
+          await handleRaffleQuantityPicker(chatId, user, raffleId, callbackQuery.id, messageId);
         } else if (data.startsWith('shop_')) {
           const itemId = parseInt(data.split('_')[1]);
-          await handleShopPurchase(chatId, telegramId, user, itemId, callbackQuery.id);
+          await answerOnce(callbackQuery, () => handleShopPurchase(chatId, telegramId, itemId));
         }
         break;
     }
@@ -606,14 +855,12 @@ bot.on('callback_query', async (callbackQuery) => {
   }
 });
 
-async function handleDailyCheckin(chatId: number, telegramId: string, user: any, callbackQueryId: string, messageId?: number) {
-  if (!bot) return;
+async function handleDailyCheckin(chatId: number, telegramId: string, user: any, messageId?: number): Promise<CallbackAnswer> {
   if (!canClaimDailyReward(user.lastDailyReward)) {
-    bot.answerCallbackQuery(callbackQueryId, { 
+    return {
       text: '⏰ You already claimed your daily reward today. Come back tomorrow!',
       show_alert: true
-    });
-    return;
+    };
   }
   
   // Get reward amounts from bot settings
@@ -638,26 +885,9 @@ async function handleDailyCheckin(chatId: number, telegramId: string, user: any,
   // Update user object to reflect new balance
   user.coins = updatedUser.coins;
   
-  const keyboard = {
-    inline_keyboard: [
-      [
-        { text: '✅ Daily Check-in (Completed)', callback_data: 'daily_completed' }
-      ],
-      [
-        { text: '🎪 Join Raffle', callback_data: 'view_raffles' },
-        { text: '🛍️ Coin Shop', callback_data: 'view_shop' }
-      ],
-      [
-        { text: `👥 Invite Friends (+${referralReward} coins each)`, callback_data: 'referral_link' }
-      ],
-      [
-        { text: '💰 My Info', callback_data: 'my_info' },
-        { text: `🎁 Enter Invitation Code (+${referralReward} coins)`, callback_data: 'enter_code' }
-      ]
-    ]
-  };
+  const keyboard = buildMainMenuKeyboard({ ...user, lastDailyReward: new Date() }, referralReward, await getFeatureFlags());
   
-  bot.editMessageText(
+  bot?.editMessageText(
     `🎉 Hello ${user.firstName || user.username}! Welcome to the Coin Reward System!
 
 💰 **Current Balance:** ${updatedUser.coins} coins
@@ -677,10 +907,29 @@ Click buttons below to start earning!`,
     }
   );
   
-  bot.answerCallbackQuery(callbackQueryId, { 
+  return {
     text: `🎁 Daily reward claimed! You received ${dailyRewardAmount} coin${dailyRewardAmount > 1 ? 's' : ''}!`,
     show_alert: true
-  });
+  };
+}
+
+// Shows a screen in place of the message whose button was tapped, or as a new message when
+// there is none to replace (e.g. the button was on a broadcast)
+function showScreen(chatId: number, messageId: number | undefined, text: string, replyMarkup: TelegramBot.InlineKeyboardMarkup) {
+  if (!bot) return;
+  if (messageId) {
+    bot.editMessageText(text, {
+      chat_id: chatId,
+      message_id: messageId,
+      reply_markup: replyMarkup,
+      parse_mode: 'Markdown'
+    });
+  } else {
+    bot.sendMessage(chatId, text, {
+      reply_markup: replyMarkup,
+      parse_mode: 'Markdown'
+    });
+  }
 }
 
 async function handleViewRaffles(chatId: number, telegramId: string, user: any, callbackQueryId: string, messageId?: number) {
@@ -704,10 +953,13 @@ async function handleViewRaffles(chatId: number, telegramId: string, user: any,
     message += `🏆 Prize: ${raffle.prizeDescription}\n`;
     message += `💰 Entry cost: ${raffle.entryCost} coins\n`;
     message += `📊 Entries: ${raffle.currentEntries}${raffle.maxEntries ? `/${raffle.maxEntries}` : ''}\n`;
+    if (raffle.maxEntriesPerUser) {
+      message += `🎟️ Max ${raffle.maxEntriesPerUser} tickets per person\n`;
+    }
     message += `⏰ Ends: ${endDate}\n\n`;
     
     keyboard.inline_keyboard.push([
-      { text: `🎪 Enter Raffle ${index + 1} (${raffle.entryCost} coins)`, callback_data: `raffle_${raffle.id}` }
+      { text: `🎪 Enter Raffle ${index + 1} (${raffle.entryCost} coins/ticket)`, callback_data: `raffle_${raffle.id}` }
     ]);
   });
   
@@ -717,12 +969,7 @@ async function handleViewRaffles(chatId: number, telegramId: string, user: any,
     { text: '🔙 Back to Menu', callback_data: 'back_to_menu' }
   ]);
   
-  bot.editMessageText(message, {
-    chat_id: chatId,
-    message_id: messageId,
-    reply_markup: keyboard,
-    parse_mode: 'Markdown'
-  });
+  showScreen(chatId, messageId, message, keyboard);
   
   bot.answerCallbackQuery(callbackQueryId);
 }
@@ -765,12 +1012,7 @@ async function handleViewShop(chatId: number, telegramId: string, user: any, cal
     { text: '🔙 Back to Menu', callback_data: 'back_to_menu' }
   ]);
   
-  bot.editMessageText(message, {
-    chat_id: chatId,
-    message_id: messageId,
-    reply_markup: keyboard,
-    parse_mode: 'Markdown'
-  });
+  showScreen(chatId, messageId, message, keyboard);
   
   bot.answerCallbackQuery(callbackQueryId);
 }
@@ -799,19 +1041,7 @@ async function handleReferralLink(chatId: number, telegramId: string, user: any,
     ]
   };
   
-  if (messageId) {
-    bot.editMessageText(message, {
-      chat_id: chatId,
-      message_id: messageId,
-      reply_markup: keyboard,
-      parse_mode: 'Markdown'
-    });
-  } else {
-    bot.sendMessage(chatId, message, {
-      reply_markup: keyboard,
-      parse_mode: 'Markdown'
-    });
-  }
+  showScreen(chatId, messageId, message, keyboard);
   
   bot.answerCallbackQuery(callbackQueryId);
 }
@@ -857,12 +1087,7 @@ async function handleMyInfo(chatId: number, telegramId: string, user: any, callb
     ]
   };
   
-  bot.editMessageText(message, {
-    chat_id: chatId,
-    message_id: messageId,
-    reply_markup: keyboard,
-    parse_mode: 'Markdown'
-  });
+  showScreen(chatId, messageId, message, keyboard);
   
   bot.answerCallbackQuery(callbackQueryId);
 }
@@ -874,7 +1099,7 @@ async function handleEnterCode(chatId: number, telegramId: string, user: any, ca
   const referralReward = parseInt(referralRewardStr, 10);
   
   // Set user state to expect invitation code
-  userStates.set(telegramId, { state: 'expecting_invite_code', timestamp: Date.now() });
+  await startConversation(telegramId, 'expecting_invite_code', {});
   
   const message = `🎁 **Enter Invitation Code**
 
@@ -900,7 +1125,19 @@ Type the code and send it as a message.`;
   bot.answerCallbackQuery(callbackQueryId);
 }
 
-async function handleRaffleEntry(chatId: number, telegramId: string, user: any, raffleId: number, callbackQueryId: string) {
+// Most tickets the user could buy right now, bounded by the per-user cap, the
+// raffle's remaining capacity and their balance
+async function getRaffleTicketAllowance(raffle: Raffle, user: User) {
+  const held = (await storage.getUserRaffleEntry(raffle.id, user.id))?.entries ?? 0;
+  const limits = [Math.floor(user.coins / raffle.entryCost)];
+  if (raffle.maxEntriesPerUser !== null) limits.push(raffle.maxEntriesPerUser - held);
+  if (raffle.maxEntries !== null) limits.push(raffle.maxEntries - raffle.currentEntries);
+  return { held, allowance: Math.max(0, Math.min(...limits)) };
+}
+
+const RAFFLE_QUANTITY_OPTIONS = [1, 5, 10];
+
+async function handleRaffleQuantityPicker(chatId: number, user: User, raffleId: number, callbackQueryId: string, messageId?: number) {
   if (!bot) return;
   const raffle = await storage.getRaffleById(raffleId);
   if (!raffle) {
@@ -908,92 +1145,231 @@ async function handleRaffleEntry(chatId: number, telegramId: string, user: any,
     return;
   }
   
-  if (user.coins < raffle.entryCost) {
-    bot.answerCallbackQuery(callbackQueryId, { 
-      text: `❌ Not enough coins! You need ${raffle.entryCost} coins to enter this raffle.`,
-      show_alert: true
-    });
+  const { held, allowance } = await getRaffleTicketAllowance(raffle, user);
+  
+  let message = `🎪 **${raffle.title}**\n\n`;
+  message += `💰 Ticket price: ${raffle.entryCost} coins\n`;
+  message += `🎟️ Your tickets: ${held}${raffle.maxEntriesPerUser ? `/${raffle.maxEntriesPerUser}` : ''}\n`;
+  message += `🪙 Your coins: ${user.coins}\n\n`;
+  message += allowance > 0
+    ? `How many tickets would you like? (up to ${allowance})`
+    : `You can't buy any more tickets for this raffle right now.`;
+  
+  const options = RAFFLE_QUANTITY_OPTIONS.filter(quantity => quantity <= allowance);
+  if (allowance > 1 && !options.includes(allowance)) {
+    options.push(allowance);
+  }
+  
+  const keyboard: TelegramBot.InlineKeyboardButton[][] = [];
+  if (options.length > 0) {
+    keyboard.push(options.map(quantity => ({
+      text: quantity === allowance && quantity > 1 ? `Max (${quantity})` : `${quantity} 🎟️`,
+      callback_data: `raffle_buy_${raffle.id}_${quantity}`,
+    })));
+  }
+  if (allowance > 1) {
+    keyboard.push([{ text: '✏️ Custom amount', callback_data: `raffle_custom_${raffle.id}` }]);
+  }
+  keyboard.push([{ text: '🔙 Back to Raffles', callback_data: 'view_raffles' }]);
+  
+  showScreen(chatId, messageId, message, { inline_keyboard: keyboard });
+  
+  bot.answerCallbackQuery(callbackQueryId);
+}
+
+async function handleRaffleCustomQuantity(chatId: number, telegramId: string, raffleId: number, callbackQueryId: string, messageId?: number) {
+  if (!bot) return;
+  const raffle = await storage.getRaffleById(raffleId);
+  if (!raffle) {
+    bot.answerCallbackQuery(callbackQueryId, { text: 'Raffle not found!' });
     return;
   }
   
-  await storage.updateUser(telegramId, { coins: user.coins - raffle.entryCost });
-  await storage.enterRaffle({
-    raffleId: raffle.id,
-    userId: user.id,
-    entries: 1,
-  });
+  await startConversation(telegramId, 'expecting_raffle_quantity', { raffleId: raffle.id });
   
-  await storage.updateRaffle(raffle.id, {
-    currentEntries: raffle.currentEntries + 1,
+  bot.editMessageText(`✏️ How many tickets for **${raffle.title}**?\n\nSend the number as a message. Each ticket costs ${raffle.entryCost} coins.`, {
+    chat_id: chatId,
+    message_id: messageId,
+    reply_markup: {
+      inline_keyboard: [[{ text: '🔙 Back to Raffles', callback_data: 'view_raffles' }]]
+    },
+    parse_mode: 'Markdown'
   });
   
-  await storage.createTransaction({
-    userId: user.id,
-    type: 'raffle_entry',
-    amount: -raffle.entryCost,
-    description: `Raffle entry: ${raffle.title}`,
-  });
+  bot.answerCallbackQuery(callbackQueryId);
+}
+
+async function handleRaffleEntry(telegramId: string, raffleId: number, quantity: number): Promise<CallbackAnswer> {
+  const raffle = await storage.getRaffleById(raffleId);
+  if (!raffle) {
+    return { text: 'Raffle not found!' };
+  }
   
-  bot.answerCallbackQuery(callbackQueryId, { 
-    text: `🎪 Successfully entered raffle: ${raffle.title}! Remaining coins: ${user.coins - raffle.entryCost}`,
-    show_alert: true
-  });
+  try {
+    const result = await storage.buyRaffleEntries(telegramId, raffle.id, quantity);
+    return {
+      text: `🎪 Bought ${quantity} ticket${quantity > 1 ? 's' : ''} for ${raffle.title}! You now hold ${result.entry.entries}. Remaining coins: ${result.user.coins}`,
+      show_alert: true
+    };
+  } catch (error) {
+    const reason = describeSpendError(error, `${quantity} ticket${quantity > 1 ? 's' : ''} cost ${raffle.entryCost * quantity} coins.`);
+    if (!reason) throw error;
+    return { text: reason, show_alert: true };
+  }
 }
 
-async function handleShopPurchase(chatId: number, telegramId: string, user: any, itemId: number, callbackQueryId: string) {
-  if (!bot) return;
+async function handleShopPurchase(chatId: number, telegramId: string, itemId: number): Promise<CallbackAnswer> {
   const item = await storage.getAllShopItems().then(items => items.find(i => i.id === itemId));
   if (!item) {
-    bot.answerCallbackQuery(callbackQueryId, { text: 'Item not found!' });
-    return;
+    return { text: 'Item not found!' };
   }
   
-  if (user.coins < item.cost) {
-    bot.answerCallbackQuery(callbackQueryId, { 
-      text: `❌ Not enough coins! You need ${item.cost} coins to purchase this item.`,
-      show_alert: true
+  let result;
+  try {
+    result = await storage.buyShopItem(telegramId, item.id);
+  } catch (error) {
+    const reason = describeSpendError(error, `You need ${item.cost} coins to purchase this item.`);
+    if (!reason) throw error;
+    return { text: reason, show_alert: true };
+  }
+  
+  // The purchase is committed; a failed message mustn't make a retry buy it again
+  if (result.code) {
+    await sendPurchasedCode(chatId, item.name, result.code.code).catch(error => {
+      console.error('Send purchased code error:', error);
     });
+  }
+  return {
+    text: `🛍️ Successfully purchased: ${item.name}! Remaining coins: ${result.user.coins}${result.purchase.status === 'pending' ? `\n\n📦 Order #${result.purchase.id} is being prepared - we'll message you once it's fulfilled.` : ''}${result.code ? '\n\n🎟️ Your code is in the chat.' : ''}`,
+    show_alert: true
+  };
+}
+
+// Sends a bought voucher/gift-card code. The code is stored against the purchase, so
+// an admin can look it up on the Shop page if this message never arrives.
+async function sendPurchasedCode(chatId: number, itemName: string, code: string) {
+  if (!bot) return;
+  await bot.sendMessage(chatId, `🎟️ Your code for ${escapeHtml(itemName)}:\n\n<code>${escapeHtml(code)}</code>\n\nKeep it safe - it can only be redeemed once.`, {
+    parse_mode: 'HTML'
+  });
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Shows tutorial step `step` (1-based) and saves it as the user's progress.
+// Moving past the last step completes the tour and pays the one-time bonus.
+async function handleTutorialStep(chatId: number, user: User, step: number, callbackQueryId: string, messageId?: number) {
+  if (!bot) return;
+  
+  if (user.onboardingCompleted) {
+    bot.answerCallbackQuery(callbackQueryId, { text: '🎓 You have already finished the tutorial!' });
     return;
   }
   
-  if (item.stock !== null && item.stock <= 0) {
-    bot.answerCallbackQuery(callbackQueryId, { 
-      text: '❌ This item is out of stock!',
-      show_alert: true
+  const bonusAmount = parseInt((await storage.getBotSetting('onboarding_bonus_amount'))?.value || '5', 10);
+  const backKeyboard = {
+    inline_keyboard: [
+      [
+        { text: '🔙 Back to Menu', callback_data: 'back_to_menu' }
+      ]
+    ]
+  };
+  
+  if (step > TUTORIAL_STEPS.length) {
+    const { user: updatedUser, awarded } = await storage.claimOnboardingBonus(user.telegramId, bonusAmount);
+    const message = awarded
+      ? `🎓 **Tutorial complete!**\n\n🎁 You received a bonus of ${bonusAmount} coin${bonusAmount === 1 ? '' : 's'}!\n🪙 Total coins: ${updatedUser.coins}`
+      : `🎓 **Tutorial complete!**\n\n🪙 Total coins: ${updatedUser.coins}`;
+    
+    bot.editMessageText(message, {
+      chat_id: chatId,
+      message_id: messageId,
+      reply_markup: backKeyboard,
+      parse_mode: 'Markdown'
     });
+    bot.answerCallbackQuery(callbackQueryId, awarded ? { text: `🎁 +${bonusAmount} coins!`, show_alert: true } : undefined);
     return;
   }
   
-  await storage.updateUser(telegramId, { coins: user.coins - item.cost });
-  await storage.createPurchase({
-    userId: user.id,
-    itemId: item.id,
-    quantity: 1,
-    totalCost: item.cost,
-    status: 'completed',
+  const tutorialStep = TUTORIAL_STEPS[step - 1];
+  const progress = { ...((user.tutorialProgress as Record<string, any>) || {}) };
+  if (!progress[tutorialStep.key]) {
+    progress[tutorialStep.key] = new Date().toISOString();
+  }
+  await storage.updateOnboardingProgress(user.telegramId, step, progress);
+  
+  const dailyRewardAmount = parseInt((await storage.getBotSetting('daily_reward_amount'))?.value || '1', 10);
+  const referralReward = parseInt((await storage.getBotSetting('referral_reward_amount'))?.value || '1', 10);
+  const botInfo = await bot.getMe();
+  
+  const message = renderTutorialStep(tutorialStep, {
+    dailyRewardAmount,
+    referralReward,
+    bonusAmount,
+    referralLink: `https://t.me/${botInfo.username}?start=${user.referralCode}`,
+    activeRaffles: (await storage.getActiveRaffles()).length,
+    shopItems: (await storage.getActiveShopItems()).length,
   });
   
-  if (item.stock !== null) {
-    await storage.updateShopItem(item.id, { stock: item.stock - 1 });
+  const keyboard: TelegramBot.InlineKeyboardButton[][] = [];
+  if (tutorialStep.action) {
+    keyboard.push([{ text: tutorialStep.action.text, callback_data: tutorialStep.action.callbackData }]);
   }
+  keyboard.push([
+    { text: step === TUTORIAL_STEPS.length ? '🎓 Finish' : 'Next ➡️', callback_data: 'tutorial_next' }
+  ]);
+  keyboard.push([
+    { text: '🔙 Back to Menu', callback_data: 'back_to_menu' }
+  ]);
   
-  await storage.createTransaction({
-    userId: user.id,
-    type: 'shop_purchase',
-    amount: -item.cost,
-    description: `Shop purchase: ${item.name}`,
-  });
+  if (messageId) {
+    bot.editMessageText(message, {
+      chat_id: chatId,
+      message_id: messageId,
+      reply_markup: { inline_keyboard: keyboard },
+      parse_mode: 'Markdown'
+    });
+  } else {
+    bot.sendMessage(chatId, message, {
+      reply_markup: { inline_keyboard: keyboard },
+      parse_mode: 'Markdown'
+    });
+  }
   
-  bot.answerCallbackQuery(callbackQueryId, { 
-    text: `🛍️ Successfully purchased: ${item.name}! Remaining coins: ${user.coins - item.cost}`,
-    show_alert: true
-  });
+  bot.answerCallbackQuery(callbackQueryId);
+}
+
+async function handleTutorialCheckin(chatId: number, telegramId: string, user: User, callbackQueryId: string, messageId?: number) {
+  if (!bot) return;
+  const dailyRewardAmount = parseInt((await storage.getBotSetting('daily_reward_amount'))?.value || '1', 10);
+  
+  try {
+    const updatedUser = await storage.claimDaily(telegramId, dailyRewardAmount);
+    const progress = { ...((updatedUser.tutorialProgress as Record<string, any>) || {}), checkinDone: true };
+    await storage.updateOnboardingProgress(telegramId, updatedUser.onboardingStep, progress);
+    
+    bot.answerCallbackQuery(callbackQueryId, {
+      text: `🎁 Daily reward claimed! You received ${dailyRewardAmount} coin${dailyRewardAmount > 1 ? 's' : ''}!`,
+      show_alert: true
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Already claimed') {
+      bot.answerCallbackQuery(callbackQueryId, {
+        text: '⏰ You already checked in today - you\'ve got the hang of it!',
+        show_alert: true
+      });
+    } else {
+      throw error;
+    }
+  }
 }
 
 async function handleBackToMenu(chatId: number, telegramId: string, user: any, callbackQueryId: string, messageId?: number) {
   if (!bot) return;
   // Clear any user state
-  userStates.delete(telegramId);
+  await endConversation(telegramId);
   
   // Refresh user data to get the latest coin balance
   const updatedUser = await storage.getUserByTelegramId(telegramId);
@@ -1020,24 +1396,7 @@ async function handleBackToMenu(chatId: number, telegramId: string, user: any, c
 
 Click buttons below to start earning!`;
 
-  const keyboard = {
-    inline_keyboard: [
-      [
-        { text: canClaimDailyReward(updatedUser.lastDailyReward) ? '✅ Daily Check-in' : '✅ Daily Check-in (Completed)', callback_data: 'daily_checkin' }
-      ],
-      [
-        { text: '🎪 Join Raffle', callback_data: 'view_raffles' },
-        { text: '🛍️ Coin Shop', callback_data: 'view_shop' }
-      ],
-      [
-        { text: `👥 Invite Friends (+${referralReward} coins each)`, callback_data: 'referral_link' }
-      ],
-      [
-        { text: '💰 My Info', callback_data: 'my_info' },
-        { text: `🎁 Enter Invitation Code (+${referralReward} coins)`, callback_data: 'enter_code' }
-      ]
-    ]
-  };
+  const keyboard = buildMainMenuKeyboard(updatedUser, referralReward, await getFeatureFlags());
   
   if (messageId) {
     bot.editMessageText(welcomeMessage, {
@@ -1063,27 +1422,66 @@ function getBot(): TelegramBot | null {
   return bot;
 }
 
-// Function to broadcast message to all users
-async function broadcastMessage(message: string): Promise<{ success: number; failed: number }> {
+// Sends one recipient's copy of a broadcast. Pacing and retries are up to the broadcast worker.
+async function sendAnnouncement(chatId: string, content: BroadcastContent): Promise<void> {
   if (!bot) {
     throw new Error('Bot is not initialized');
   }
 
-  const activeUsers = await storage.getActiveUsers();
+  // One button per row, so long labels aren't cut off
+  const inlineKeyboard: TelegramBot.InlineKeyboardButton[][] = content.buttons.map(button => [
+    button.type === 'url'
+      ? { text: button.text, url: button.url }
+      : { text: button.text, callback_data: BROADCAST_ACTION_PREFIX + button.action },
+  ]);
+  const options = {
+    parse_mode: 'Markdown' as const,
+    ...(inlineKeyboard.length > 0 && { reply_markup: { inline_keyboard: inlineKeyboard } }),
+  };
+
+  if (!content.media) {
+    await bot.sendMessage(chatId, content.message, options);
+    return;
+  }
+  const captioned = { ...options, ...(content.message && { caption: content.message }) };
+  switch (content.media.type) {
+    case 'photo':
+      await bot.sendPhoto(chatId, content.media.url, captioned);
+      break;
+    case 'video':
+      await bot.sendVideo(chatId, content.media.url, captioned);
+      break;
+    case 'document':
+      await bot.sendDocument(chatId, content.media.url, captioned);
+      break;
+  }
+}
+
+// Function to tell raffle participants how a draw turned out
+async function notifyRaffleResults(raffle: Raffle, winners: { userId: number; rank: number }[], participants: User[]): Promise<{ success: number; failed: number }> {
+  if (!bot) {
+    throw new Error('Bot is not initialized');
+  }
+
+  const rankByUser = new Map(winners.map(w => [w.userId, w.rank]));
   let success = 0;
   let failed = 0;
 
-  // Send message to each user with a small delay to avoid rate limiting
-  for (const user of activeUsers) {
+  for (const participant of participants) {
+    const rank = rankByUser.get(participant.id);
+    const message = rank === undefined
+      ? `🎪 The raffle **${raffle.title}** has ended.\n\nYou didn't win this time - better luck next time! 🍀`
+      : rank === 1
+        ? `🏆 **Congratulations!** You won the raffle **${raffle.title}**!\n\n🎁 Prize: ${raffle.prizeDescription}\n\nWe'll be in touch about your prize soon.`
+        : `🏆 **Congratulations!** You placed #${rank} in the raffle **${raffle.title}**!\n\nWe'll be in touch about your prize soon.`;
+
     try {
-      await bot.sendMessage(user.telegramId, `📢 **Announcement**\n\n${message}`, {
-        parse_mode: 'Markdown'
-      });
+      await bot.sendMessage(participant.telegramId, message, { parse_mode: 'Markdown' });
       success++;
       // Small delay to avoid hitting rate limits
       await new Promise(resolve => setTimeout(resolve, 50));
     } catch (error) {
-      console.error(`Failed to send message to user ${user.telegramId}:`, error);
+      console.error(`Failed to send raffle result to user ${participant.telegramId}:`, error);
       failed++;
     }
   }
@@ -1091,5 +1489,21 @@ async function broadcastMessage(message: string): Promise<{ success: number; fai
   return { success, failed };
 }
 
+// Function to tell a buyer their order was fulfilled or cancelled
+async function notifyPurchaseStatus(user: User, purchase: Purchase, item: ShopItem): Promise<void> {
+  if (!bot) {
+    throw new Error('Bot is not initialized');
+  }
+
+  let message = purchase.status === 'cancelled'
+    ? `❌ Your order #${purchase.id} for **${item.name}** was cancelled.\n\n💰 ${purchase.totalCost} coins have been refunded.\n🪙 Your coins: ${user.coins}`
+    : `✅ Your order #${purchase.id} for **${item.name}** has been fulfilled!`;
+  if (purchase.note) {
+    message += `\n\n📝 ${purchase.note}`;
+  }
+
+  await bot.sendMessage(user.telegramId, message, { parse_mode: 'Markdown' });
+}
+
 // Initialize bot and export
-export { initializeBot, bot, getBot, broadcastMessage };
+export { initializeBot, bot, getBot, getBotMode, verifyWebhookSecret, sendAnnouncement, notifyRaffleResults, notifyPurchaseStatus };
@@ -0,0 +1,182 @@
+import { storage, type DueBroadcastDelivery } from './storage';
+import type { UserReachability } from '@shared/schema';
+import { getBot, sendAnnouncement } from './bot';
+import { scheduleJob } from './scheduler';
+
+// Background sender for broadcasts. Each recipient is a broadcast_deliveries row, so the worker
+// only has to send whatever is pending and due; after a restart restoreScheduledJobs() wakes it
+// and it carries on. A message that was sent just before a crash, but not yet marked, goes out
+// again: a duplicate for one chat is better than silently skipping it.
+
+// Telegram allows about 30 messages a second in total, and one a second to the same chat
+const MESSAGES_PER_SECOND = 25;
+const PER_CHAT_INTERVAL_MS = 1000;
+
+// About a second of sending, so a cancelled broadcast stops almost at once
+const BATCH_SIZE = MESSAGES_PER_SECOND;
+
+// Network and server errors are retried with growing delays; after this many the delivery fails
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 5000;
+
+// How long to wait when the bot isn't running, or after an unexpected worker error
+const IDLE_RETRY_MS = 30 * 1000;
+
+const WORKER_JOB_KEY = 'broadcast-worker';
+
+let running = false;
+let wakeRequested = false;
+// Set from retry_after when Telegram answers 429; nothing is sent before then
+let pausedUntil = 0;
+const lastSentToChat = new Map<string, number>();
+
+// What went wrong sending to a chat. The first three mean the user can't be messaged at all.
+export type TelegramErrorKind = 'blocked' | 'chat_not_found' | 'deactivated' | 'rate_limited' | 'other';
+
+export interface TelegramErrorDetails {
+  errorCode?: number;
+  description: string;
+  retryAfter?: number;
+  kind: TelegramErrorKind;
+}
+
+// Telegram only tells these apart by description, e.g. "Forbidden: bot was blocked by the user"
+function classifyTelegramError(errorCode: number | undefined, description: string): TelegramErrorKind {
+  const text = description.toLowerCase();
+  if (errorCode === 429) return 'rate_limited';
+  if (errorCode === 403 && (text.includes('blocked by the user') || text.includes('bot was kicked'))) return 'blocked';
+  if (errorCode === 403 && text.includes('user is deactivated')) return 'deactivated';
+  // The user never started the bot, or deleted the chat with it
+  if (text.includes('chat not found') || text.includes("can't initiate conversation")) return 'chat_not_found';
+  return 'other';
+}
+
+// node-telegram-bot-api puts Telegram's JSON reply on error.response.body
+export function getTelegramErrorDetails(error: any): TelegramErrorDetails {
+  const body = error?.response?.body;
+  const errorCode = typeof body?.error_code === 'number' ? body.error_code : undefined;
+  const description = body?.description || error?.message || 'Unknown error';
+  return {
+    errorCode,
+    description,
+    retryAfter: typeof body?.parameters?.retry_after === 'number' ? body.parameters.retry_after : undefined,
+    kind: classifyTelegramError(errorCode, description),
+  };
+}
+
+// The reachability an error leaves a user with, or null if it says nothing about them
+export function unreachableStatus(kind: TelegramErrorKind): Exclude<UserReachability, 'reachable'> | null {
+  return kind === 'blocked' || kind === 'chat_not_found' || kind === 'deactivated' ? kind : null;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Call after creating a broadcast, and on startup to resume unfinished ones
+export function wakeBroadcastWorker() {
+  if (running) {
+    wakeRequested = true;
+    return;
+  }
+  scheduleJob(WORKER_JOB_KEY, new Date(), runWorker);
+}
+
+async function runWorker() {
+  if (running) return;
+  running = true;
+
+  let next: Date | null;
+  try {
+    do {
+      wakeRequested = false;
+      next = await sendDueDeliveries();
+    } while (wakeRequested);
+  } catch (error) {
+    console.error('Broadcast worker error:', error);
+    next = new Date(Date.now() + IDLE_RETRY_MS);
+  } finally {
+    running = false;
+  }
+
+  if (next) {
+    scheduleJob(WORKER_JOB_KEY, next, runWorker);
+  }
+}
+
+// Sends one batch. Returns when the worker should run again, or null if nothing is left.
+async function sendDueDeliveries(): Promise<Date | null> {
+  if (!getBot()) {
+    return (await storage.getNextBroadcastDeliveryAt()) ? new Date(Date.now() + IDLE_RETRY_MS) : null;
+  }
+  if (pausedUntil > Date.now()) {
+    return new Date(pausedUntil);
+  }
+
+  const now = Date.now();
+  lastSentToChat.forEach((sentAt, chatId) => {
+    if (now - sentAt >= PER_CHAT_INTERVAL_MS) lastSentToChat.delete(chatId);
+  });
+
+  const due = await storage.getDueBroadcastDeliveries(BATCH_SIZE);
+  for (const delivery of due) {
+    if (pausedUntil > Date.now()) break;
+
+    // Two broadcasts going out at once can reach the same chat back to back
+    const lastSent = lastSentToChat.get(delivery.chatId);
+    if (lastSent && Date.now() - lastSent < PER_CHAT_INTERVAL_MS) {
+      await storage.updateBroadcastDelivery(delivery.id, { nextAttemptAt: new Date(lastSent + PER_CHAT_INTERVAL_MS) });
+      continue;
+    }
+
+    await deliver(delivery);
+    await sleep(1000 / MESSAGES_PER_SECOND);
+  }
+
+  const finished = await storage.completeFinishedBroadcasts();
+  for (const broadcast of finished) {
+    console.log(`Broadcast ${broadcast.id} finished sending to ${broadcast.totalRecipients} recipients`);
+  }
+
+  if (due.length === BATCH_SIZE) {
+    return new Date();
+  }
+  return storage.getNextBroadcastDeliveryAt();
+}
+
+async function deliver(delivery: DueBroadcastDelivery) {
+  const attempts = delivery.attempts + 1;
+  lastSentToChat.set(delivery.chatId, Date.now());
+
+  try {
+    await sendAnnouncement(delivery.chatId, delivery);
+  } catch (error) {
+    await recordFailedAttempt(delivery, attempts, error);
+    return;
+  }
+  await storage.updateBroadcastDelivery(delivery.id, { status: 'sent', attempts, sentAt: new Date(), error: null });
+}
+
+async function recordFailedAttempt(delivery: DueBroadcastDelivery, attempts: number, error: unknown) {
+  const { errorCode, description, retryAfter, kind } = getTelegramErrorDetails(error);
+
+  if (kind === 'rate_limited') {
+    // Telegram turned the whole bot away; this message wasn't at fault, so it keeps its attempts
+    pausedUntil = Date.now() + (retryAfter ?? 1) * 1000;
+    await storage.updateBroadcastDelivery(delivery.id, { nextAttemptAt: new Date(pausedUntil), error: description });
+    return;
+  }
+
+  // Later broadcasts skip the user until they message the bot again
+  const unreachable = unreachableStatus(kind);
+  if (unreachable) {
+    await storage.setUserReachability(delivery.chatId, unreachable);
+  }
+
+  // 4xx errors (blocked, chat not found, bad markup) won't change by trying again
+  const permanent = errorCode !== undefined && errorCode >= 400 && errorCode < 500;
+  if (permanent || attempts >= MAX_ATTEMPTS) {
+    await storage.updateBroadcastDelivery(delivery.id, { status: 'failed', attempts, error: description });
+  } else {
+    const nextAttemptAt = new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1));
+    await storage.updateBroadcastDelivery(delivery.id, { attempts, nextAttemptAt, error: description });
+  }
+}
@@ -0,0 +1,59 @@
+import type { Conversation, ConversationPayloads, ConversationStateName } from '@shared/schema';
+import { storage } from './storage';
+
+// Typed wrapper around the conversation_states table. Because state lives in the
+// database, a user halfway through a flow keeps their place across restarts and replicas.
+
+// How long the bot keeps waiting for the user's next message in each state
+const STATE_TTLS: Record<ConversationStateName, number> = {
+  expecting_invite_code: 10 * 60 * 1000,
+  expecting_raffle_quantity: 5 * 60 * 1000,
+  browsing_raffles: 30 * 60 * 1000,
+  browsing_shop: 30 * 60 * 1000,
+};
+
+export async function startConversation<S extends ConversationStateName>(
+  telegramId: string,
+  state: S,
+  payload: ConversationPayloads[S],
+  ttlMs: number = STATE_TTLS[state],
+): Promise<void> {
+  await storage.setConversationState({
+    telegramId,
+    state,
+    payload,
+    expiresAt: new Date(Date.now() + ttlMs),
+  });
+}
+
+const isObject = (payload: unknown): payload is object => typeof payload === 'object' && payload !== null;
+const isIdList = (ids: unknown): ids is number[] => Array.isArray(ids) && ids.every(Number.isInteger);
+
+// What each state's payload must look like, so a row written by an older version is dropped
+// rather than handed to a handler that expects something else
+const PAYLOAD_CHECKS: { [S in ConversationStateName]: (payload: unknown) => payload is ConversationPayloads[S] } = {
+  expecting_invite_code: (payload): payload is Record<string, never> => isObject(payload),
+  expecting_raffle_quantity: (payload): payload is { raffleId: number } =>
+    isObject(payload) && Number.isInteger((payload as { raffleId?: unknown }).raffleId),
+  browsing_raffles: (payload): payload is { raffleIds: number[] } =>
+    isObject(payload) && isIdList((payload as { raffleIds?: unknown }).raffleIds),
+  browsing_shop: (payload): payload is { itemIds: number[] } =>
+    isObject(payload) && isIdList((payload as { itemIds?: unknown }).itemIds),
+};
+
+// Returns the user's current flow, or null if there is none, it has expired or it is malformed
+export async function getConversation(telegramId: string): Promise<Conversation | null> {
+  const row = await storage.getConversationState(telegramId);
+  if (!row || !Object.hasOwn(STATE_TTLS, row.state)) {
+    return null;
+  }
+  const state = row.state as ConversationStateName;
+  if (!PAYLOAD_CHECKS[state](row.payload)) {
+    return null;
+  }
+  return { state, payload: row.payload, expiresAt: row.expiresAt } as Conversation;
+}
+
+export async function endConversation(telegramId: string): Promise<void> {
+  await storage.deleteConversationState(telegramId);
+}
@@ -0,0 +1,71 @@
+import { storage } from './storage';
+
+// Feature switches from the Settings page, stored in bot_settings as 'true'/'false'.
+// Everything is on by default so an empty settings table behaves like before.
+
+export type Feature = 'shop' | 'raffles' | 'referrals';
+
+export const FEATURE_SETTING_KEYS: Record<Feature, string> = {
+  shop: 'shop_enabled',
+  raffles: 'raffles_enabled',
+  referrals: 'referrals_enabled',
+};
+
+export const FEATURE_LABELS: Record<Feature, string> = {
+  shop: 'The coin shop',
+  raffles: 'Raffles',
+  referrals: 'The referral program',
+};
+
+export const DEFAULT_MAINTENANCE_MESSAGE = "🛠️ We're doing some maintenance right now. Please check back soon!";
+
+export interface FeatureFlags {
+  shop: boolean;
+  raffles: boolean;
+  referrals: boolean;
+  maintenance: boolean;
+  maintenanceMessage: string;
+  // Telegram IDs that keep full access while maintenance mode is on
+  adminTelegramIds: string[];
+}
+
+export async function getFeatureFlags(): Promise<FeatureFlags> {
+  const [shop, raffles, referrals, maintenance, maintenanceMessage, adminIds] = await Promise.all([
+    storage.getBotSetting(FEATURE_SETTING_KEYS.shop),
+    storage.getBotSetting(FEATURE_SETTING_KEYS.raffles),
+    storage.getBotSetting(FEATURE_SETTING_KEYS.referrals),
+    storage.getBotSetting('maintenance_mode'),
+    storage.getBotSetting('maintenance_message'),
+    storage.getBotSetting('admin_telegram_ids'),
+  ]);
+
+  return {
+    shop: shop?.value !== 'false',
+    raffles: raffles?.value !== 'false',
+    referrals: referrals?.value !== 'false',
+    maintenance: maintenance?.value === 'true',
+    maintenanceMessage: maintenanceMessage?.value || DEFAULT_MAINTENANCE_MESSAGE,
+    adminTelegramIds: parseTelegramIds(adminIds?.value || ''),
+  };
+}
+
+// Accepts IDs separated by commas, spaces or new lines
+export function parseTelegramIds(value: string): string[] {
+  return value.split(/[\s,]+/).filter(id => /^\d+$/.test(id));
+}
+
+// Returns the message to show a user who can't use the bot (or `feature`) right now, or null if they can.
+// Admins get past maintenance mode so they can check the bot before reopening it.
+export async function getUnavailableMessage(telegramId: string, feature?: Feature): Promise<string | null> {
+  const flags = await getFeatureFlags();
+
+  if (flags.maintenance && !flags.adminTelegramIds.includes(telegramId)) {
+    return flags.maintenanceMessage;
+  }
+
+  if (feature && !flags[feature]) {
+    return `🚧 ${FEATURE_LABELS[feature]} is temporarily unavailable. Please check back later!`;
+  }
+
+  return null;
+}
@@ -0,0 +1,116 @@
+import { createHash } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import type { IdempotencyKey } from '@shared/schema';
+import { storage } from './storage';
+import { setAuditDetails } from './audit';
+
+// Makes retried coin operations safe. The admin panel sends an Idempotency-Key header with each
+// mutation and the bot keys its coin buttons by callback query id; the first request with a key
+// runs and its result is stored, and any repeat gets that result back without running again.
+
+// Keys older than this are deleted by the scheduler, after which the key could run again
+export const IDEMPOTENCY_KEY_RETENTION_HOURS = 24;
+
+const MAX_KEY_LENGTH = 255;
+
+export const TELEGRAM_CALLBACK_SCOPE = 'telegram_callback';
+
+function fingerprint(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function requestFingerprint(req: Request): string {
+  return fingerprint(`${req.method} ${req.originalUrl.split('?')[0]} ${JSON.stringify(req.body ?? {})}`);
+}
+
+function sendStoredResponse(record: IdempotencyKey, req: Request, res: Response) {
+  if (record.fingerprint !== requestFingerprint(req)) {
+    return res.status(422).json({ message: 'This Idempotency-Key was already used for a different request' });
+  }
+  if (!record.completedAt) {
+    return res.status(409).json({ message: 'A request with this Idempotency-Key is still being processed' });
+  }
+
+  setAuditDetails(res, { description: 'Repeated request; returned the original result without running it again' });
+  res.set('Idempotent-Replayed', 'true');
+  return res.status(record.responseStatus ?? 200).json(record.response);
+}
+
+// Route middleware, after requireAuth. Requests without the header run as usual. Only
+// successful responses are stored: a failed request didn't move any coins and may be retried.
+export async function idempotent(req: Request, res: Response, next: NextFunction) {
+  const key = req.get('Idempotency-Key');
+  if (!key) {
+    return next();
+  }
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({ message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters` });
+  }
+
+  let record: IdempotencyKey;
+  try {
+    const claim = await storage.claimIdempotencyKey({
+      scope: `admin:${req.admin!.id}`,
+      key,
+      fingerprint: requestFingerprint(req),
+    });
+    if (!claim.claimed) {
+      return sendStoredResponse(claim.record, req, res);
+    }
+    record = claim.record;
+  } catch (error) {
+    console.error('Idempotency key error:', error);
+    return res.status(500).json({ message: 'Failed to check Idempotency-Key' });
+  }
+
+  // The outcome is stored as soon as the handler produces it, even if the client has already
+  // gone away, so its retry gets the result instead of a 409
+  let settled = false;
+  const settle = (status: number, body: unknown) => {
+    if (settled) return;
+    settled = true;
+    const saved = status < 400
+      ? storage.completeIdempotencyKey(record.id, status, body)
+      : storage.releaseIdempotencyKey(record.id);
+    saved.catch(error => {
+      console.error('Idempotency key error:', error);
+    });
+  };
+
+  const json = res.json.bind(res);
+  res.json = (value: unknown) => {
+    settle(res.statusCode, value);
+    return json(value);
+  };
+
+  // Responses sent without res.json. A handler still running when the client drops settles the
+  // key through res.json once it finishes.
+  res.on('close', () => {
+    if (res.headersSent) {
+      settle(res.statusCode, null);
+    }
+  });
+
+  next();
+}
+
+// The same guarantee for work that isn't an HTTP request. Returns the operation's result, the
+// stored result if this key already ran, or undefined if it is still running elsewhere.
+export async function runOnce<T>(scope: string, key: string, request: string, operation: () => Promise<T>): Promise<T | undefined> {
+  const { record, claimed } = await storage.claimIdempotencyKey({ scope, key, fingerprint: fingerprint(request) });
+  if (!claimed) {
+    if (record.fingerprint !== fingerprint(request)) {
+      throw new Error('Idempotency key was already used for a different request');
+    }
+    return record.completedAt ? record.response as T : undefined;
+  }
+
+  try {
+    const result = await operation();
+    await storage.completeIdempotencyKey(record.id, null, result);
+    return result;
+  } catch (error) {
+    await storage.releaseIdempotencyKey(record.id);
+    throw error;
+  }
+}
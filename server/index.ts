@@ -1,14 +1,26 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { initializeBot, bot, getBot } from "./bot";
+import { initializeBot, bot, getBot, getBotMode, verifyWebhookSecret } from "./bot";
+import { restoreScheduledJobs, stopScheduler } from "./scheduler";
 
 const app = express();
+// req.ip is the client address as seen by the last TRUST_PROXY proxies in front of the app
+// (one on Railway and Replit). X-Forwarded-For entries beyond that are the client's own claim,
+// so they can't be used to dodge per-IP sign-in limits or fake the audit log.
+app.set('trust proxy', parseInt(process.env.TRUST_PROXY ?? '1', 10));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
 // ✅ Telegram webhook route (must come AFTER `app` is created)
 app.post('/telegram', (req, res) => {
+  if (getBotMode() !== 'webhook') {
+    return res.sendStatus(404);
+  }
+  // Only Telegram knows the secret we registered with setWebHook
+  if (!verifyWebhookSecret(req.get('X-Telegram-Bot-Api-Secret-Token'))) {
+    return res.sendStatus(401);
+  }
   bot?.processUpdate(req.body);
   res.sendStatus(200);
 });
@@ -16,7 +28,7 @@ app.post('/telegram', (req, res) => {
 // Add CORS headers for Replit preview
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, Idempotency-Key');
   res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, PATCH, OPTIONS');
   if (req.method === 'OPTIONS') {
     return res.sendStatus(200);
@@ -56,16 +68,24 @@ app.use((req, res, next) => {
 (async () => {
   const server = await registerRoutes(app);
 
-  // ✅ Start bot (webhook mode only)
-  if (process.env.BOT_DISABLED !== 'true') {
-    initializeBot().catch(err => {
-      console.error('Bot initialization error:', err.message);
+  // ✅ Start bot (webhook or long polling, see bot_mode setting)
+  const botReady = process.env.BOT_DISABLED !== 'true'
+    ? initializeBot().catch(err => {
+        console.error('Bot initialization error:', err.message);
+      })
+    : Promise.resolve();
+
+  // Rebuild scheduled jobs from the database once the bot can send notifications
+  botReady
+    .then(() => restoreScheduledJobs())
+    .catch(err => {
+      console.error('Scheduler restore error:', err.message);
     });
-  }
 
   // Cleanup on exit
   const cleanup = async () => {
     console.log('Cleaning up bot instance...');
+    stopScheduler();
     const bot = getBot();
     if (bot) {
       try {
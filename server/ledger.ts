@@ -0,0 +1,34 @@
+import type { LedgerReconciliation } from '@shared/schema';
+import { storage } from './storage';
+
+// Reports older than this are deleted after each run
+export const RECONCILIATION_RETENTION_DAYS = 30;
+
+// Compares every user's stored balance with their ledger and records the result. A mismatch means
+// something changed users.coins without going through the ledger; the admin panel shows the
+// latest report so it can be investigated and corrected with an adjustment.
+export async function runLedgerReconciliation(): Promise<LedgerReconciliation> {
+  const [mismatches, unbalancedTransactions, stats] = await Promise.all([
+    storage.getBalanceMismatches(),
+    storage.countUnbalancedTransactions(),
+    storage.getUserStats(),
+  ]);
+
+  const report = await storage.createLedgerReconciliation({
+    usersChecked: stats.totalUsers,
+    mismatches,
+    unbalancedTransactions,
+  });
+
+  if (mismatches.length > 0 || unbalancedTransactions > 0) {
+    console.warn(
+      `Ledger reconciliation: ${mismatches.length} balance mismatch${mismatches.length === 1 ? '' : 'es'}, ` +
+      `${unbalancedTransactions} unbalanced transaction${unbalancedTransactions === 1 ? '' : 's'}`,
+    );
+  }
+
+  const before = new Date(Date.now() - RECONCILIATION_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  await storage.deleteLedgerReconciliationsBefore(before);
+
+  return report;
+}
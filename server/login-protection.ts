@@ -0,0 +1,180 @@
+import type { Request } from 'express';
+import type { Admin } from '@shared/schema';
+import { storage } from './storage';
+import { recordAuditEvent } from './audit';
+
+// Brute-force protection for admin sign-in. Backoff is worked out from the login_attempts table
+// and lockouts live on the admin row, so both hold across restarts without an external cache.
+
+// Only failures this recent count towards backoff
+const ATTEMPT_WINDOW_MINUTES = 15;
+// Failures allowed before the wait starts doubling. An IP gets more because several admins
+// may share an office connection.
+const FREE_ATTEMPTS_PER_USERNAME = 3;
+const FREE_ATTEMPTS_PER_IP = 10;
+const MAX_BACKOFF_SECONDS = 15 * 60;
+
+// Failed sign-ins in a row before the account is locked, and for how long
+export const LOCKOUT_THRESHOLD = 5;
+const LOCKOUT_MINUTES = 15;
+
+// Attempts older than this are deleted by the scheduler
+export const LOGIN_ATTEMPT_RETENTION_DAYS = 30;
+
+const LOCKED_MESSAGE = 'This account is locked after too many failed sign-ins. Try again later or ask an owner to unlock it.';
+
+type LoginFailureReason = 'wrong_password' | 'wrong_code' | 'locked' | 'throttled';
+
+const FAILURE_DESCRIPTIONS: Record<LoginFailureReason, string> = {
+  wrong_password: 'wrong username or password',
+  wrong_code: 'wrong two-factor code',
+  locked: 'account is locked',
+  throttled: 'too many attempts',
+};
+
+export interface LoginAttemptDetails {
+  // As typed, run through normalizeUsername
+  username: string;
+  // The account being signed in to, if the username matched one
+  adminId?: number;
+  reason: 'wrong_password' | 'wrong_code';
+  // Sent back when the check fails without locking the account
+  failureMessage: string;
+}
+
+export type LoginCheckResult<T> =
+  | { allowed: true; value: T }
+  | { allowed: false; status: number; message: string; retryAfter?: number };
+
+export function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+export function isLockedOut(admin: Admin): boolean {
+  return !!admin.lockedUntil && admin.lockedUntil > new Date();
+}
+
+// 1s, 2s, 4s... once the free attempts are used up
+export function backoffSeconds(failures: number, freeAttempts: number): number {
+  if (failures < freeAttempts) return 0;
+  return Math.min(2 ** (failures - freeAttempts), MAX_BACKOFF_SECONDS);
+}
+
+// Seconds to wait before this username may be tried from this IP again; 0 if it may be tried now
+async function getRetryAfter(username: string, ip: string | undefined): Promise<number> {
+  const since = new Date(Date.now() - ATTEMPT_WINDOW_MINUTES * 60 * 1000);
+  const [byUsername, byIp] = await Promise.all([
+    storage.getLoginFailures({ username }, since),
+    ip ? storage.getLoginFailures({ ip }, since) : null,
+  ]);
+
+  const secondsLeft = (failures: { count: number; lastFailureAt: Date | null } | null, freeAttempts: number) => {
+    if (!failures?.lastFailureAt) return 0;
+    const readyAt = failures.lastFailureAt.getTime() + backoffSeconds(failures.count, freeAttempts) * 1000;
+    return Math.max(0, Math.ceil((readyAt - Date.now()) / 1000));
+  };
+
+  return Math.max(secondsLeft(byUsername, FREE_ATTEMPTS_PER_USERNAME), secondsLeft(byIp, FREE_ATTEMPTS_PER_IP));
+}
+
+// Attempts for the same username or IP run one at a time, so a burst of parallel guesses can't
+// all pass the checks before the first failure is recorded. This is enough on a single node.
+const pendingAttempts = new Map<string, Promise<unknown>>();
+
+async function withAttemptLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = pendingAttempts.get(key) ?? Promise.resolve();
+  const run = previous.then(fn);
+  const tail = run.catch(() => {});
+  pendingAttempts.set(key, tail);
+  try {
+    return await run;
+  } finally {
+    if (pendingAttempts.get(key) === tail) {
+      pendingAttempts.delete(key);
+    }
+  }
+}
+
+// Returns true if this failure locked the account
+async function recordLoginFailure(
+  req: Request,
+  statusCode: number,
+  username: string,
+  admin: Admin | undefined,
+  reason: LoginFailureReason,
+): Promise<boolean> {
+  await storage.createLoginAttempt({ username, ip: req.ip ?? null, succeeded: false, reason });
+
+  let lockedNow = false;
+  if (admin && (reason === 'wrong_password' || reason === 'wrong_code')) {
+    const lockUntil = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000);
+    const updated = await storage.recordFailedAdminLogin(admin.id, LOCKOUT_THRESHOLD, lockUntil);
+    lockedNow = isLockedOut(updated) && !isLockedOut(admin);
+  }
+
+  recordAuditEvent(req, lockedNow ? 423 : statusCode, {
+    entityType: 'sign_in',
+    entityId: admin?.id,
+    description: `Failed sign-in as "${username}": ${FAILURE_DESCRIPTIONS[reason]}`
+      + (lockedNow ? `. Account locked for ${LOCKOUT_MINUTES} minutes` : ''),
+  });
+  return lockedNow;
+}
+
+// Runs one password or two-factor check with throttling, lockout and failure logging around it.
+// `verify` returns whatever the caller needs on success, or null if the check failed.
+export async function checkLoginAttempt<T>(
+  req: Request,
+  attempt: LoginAttemptDetails,
+  verify: () => Promise<T | null>,
+): Promise<LoginCheckResult<T>> {
+  const ip = req.ip;
+
+  return withAttemptLock(`username:${attempt.username}`, () => withAttemptLock(`ip:${ip}`, async () => {
+    const retryAfter = await getRetryAfter(attempt.username, ip);
+    if (retryAfter > 0) {
+      await recordLoginFailure(req, 429, attempt.username, undefined, 'throttled');
+      return {
+        allowed: false as const,
+        status: 429,
+        message: `Too many attempts. Try again in ${retryAfter} second${retryAfter === 1 ? '' : 's'}`,
+        retryAfter,
+      };
+    }
+
+    // Read inside the lock so the lockout reflects every attempt before this one
+    const admin = attempt.adminId ? await storage.getAdminById(attempt.adminId) : undefined;
+    if (admin && isLockedOut(admin)) {
+      await recordLoginFailure(req, 423, attempt.username, admin, 'locked');
+      return { allowed: false as const, status: 423, message: LOCKED_MESSAGE };
+    }
+
+    const value = await verify();
+    if (value !== null) {
+      return { allowed: true as const, value };
+    }
+
+    const lockedNow = await recordLoginFailure(req, 401, attempt.username, admin, attempt.reason);
+    return lockedNow
+      ? { allowed: false as const, status: 423, message: LOCKED_MESSAGE }
+      : { allowed: false as const, status: 401, message: attempt.failureMessage };
+  }));
+}
+
+// Called once the admin is fully signed in; clears their failure count and any lock
+export async function recordLoginSuccess(req: Request, admin: Admin): Promise<void> {
+  await storage.createLoginAttempt({
+    username: normalizeUsername(admin.username),
+    ip: req.ip ?? null,
+    succeeded: true,
+    reason: null,
+  });
+
+  if (admin.failedLoginCount > 0 || admin.lockedUntil) {
+    await storage.updateAdmin(admin.id, lockoutResetFields());
+  }
+}
+
+export function lockoutResetFields(): Partial<Admin> {
+  return { failedLoginCount: 0, lockedUntil: null };
+}
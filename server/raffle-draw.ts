@@ -0,0 +1,84 @@
+import { createHash, randomBytes } from 'crypto';
+import type { RaffleDrawProof } from '@shared/schema';
+
+// Bump the version suffix if the procedure below ever changes, so old proofs stay re-runnable
+export const RAFFLE_DRAW_ALGORITHM = 'sha256-weighted-v1';
+
+export interface DrawEntrant {
+  userId: number;
+  tickets: number;
+}
+
+// 48 bits is the widest integer SHA-256 output we can read without losing precision
+const SAMPLE_SPACE = 2 ** 48;
+
+export function generateDrawSeed(): string {
+  return randomBytes(32).toString('hex');
+}
+
+// Canonical fingerprint of the entrant list so a proof can't be replayed against edited entries
+export function hashEntrants(entrants: DrawEntrant[]): string {
+  const canonical = entrants.map(e => `${e.userId}:${e.tickets}`).join(',');
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+// Uniform integer in [0, total) derived from the seed; rejection sampling avoids modulo bias
+function pickTicket(seed: string, rank: number, total: number): number {
+  const limit = SAMPLE_SPACE - (SAMPLE_SPACE % total);
+  for (let attempt = 0; ; attempt++) {
+    const digest = createHash('sha256').update(`${seed}:${rank}:${attempt}`).digest();
+    const sample = digest.readUIntBE(0, 6);
+    if (sample < limit) {
+      return sample % total;
+    }
+  }
+}
+
+/**
+ * Picks up to `winnerCount` distinct winners, weighted by ticket count.
+ * Entrants are sorted by user id first, so the result depends only on the seed
+ * and the entrant list. Each winner is removed before the next rank is drawn.
+ */
+export function drawWinners(seed: string, entrants: DrawEntrant[], winnerCount: number): RaffleDrawProof {
+  const pool = entrants
+    .filter(e => e.tickets > 0)
+    .sort((a, b) => a.userId - b.userId);
+  const snapshot = pool.map(e => ({ ...e }));
+  const totalTickets = pool.reduce((acc, e) => acc + e.tickets, 0);
+  const winners: RaffleDrawProof['winners'] = [];
+
+  const count = Math.min(winnerCount, pool.length);
+  for (let rank = 1; rank <= count; rank++) {
+    const remaining = pool.reduce((acc, e) => acc + e.tickets, 0);
+    const ticket = pickTicket(seed, rank, remaining);
+
+    let cursor = 0;
+    const index = pool.findIndex(e => {
+      cursor += e.tickets;
+      return ticket < cursor;
+    });
+
+    winners.push({ rank, userId: pool[index].userId, ticket });
+    pool.splice(index, 1);
+  }
+
+  return {
+    algorithm: RAFFLE_DRAW_ALGORITHM,
+    seed,
+    winnerCount,
+    totalTickets,
+    entrants: snapshot,
+    entrantsHash: hashEntrants(snapshot),
+    winners,
+  };
+}
+
+// Re-runs a recorded draw and checks that it yields the same winners in the same order
+export function verifyDraw(proof: RaffleDrawProof): boolean {
+  if (proof.algorithm !== RAFFLE_DRAW_ALGORITHM) return false;
+  if (hashEntrants(proof.entrants) !== proof.entrantsHash) return false;
+
+  const rerun = drawWinners(proof.seed, proof.entrants, proof.winnerCount);
+  return rerun.winners.length === proof.winners.length &&
+    rerun.winners.every((w, i) => w.userId === proof.winners[i].userId && w.ticket === proof.winners[i].ticket);
+}
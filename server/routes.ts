@@ -1,32 +1,255 @@
-import type { Express, Request } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { authenticateAdmin, generateToken, verifyToken, type AuthenticatedAdmin } from "./auth";
-import { insertRaffleSchema, insertShopItemSchema, insertBotSettingSchema } from "@shared/schema";
-import { initializeBot, getBot } from "./bot";
-
-// Extend Request type to include admin property
-interface AuthenticatedRequest extends Request {
-  admin: AuthenticatedAdmin;
+import { storage, type AuditLogFilters, type UserListFilters, type TransactionListFilters, type SortOrder } from "./storage";
+import {
+  authenticateAdmin, generateToken, requireAuth, requirePermission, toAuthenticatedAdmin, createAdmin, changeAdminPassword,
+  mustEnrollTwoFactor, generateTwoFactorChallenge, getTwoFactorChallengeAdmin, verifyTwoFactorCode, startTwoFactorEnrollment, enableTwoFactor,
+  disableTwoFactor, regenerateRecoveryCodes, resetTwoFactorFields, createSession, refreshSession, endSession,
+  REQUIRE_OWNER_2FA_SETTING, type SessionClient,
+} from "./auth";
+import { hasPermission, isAdminRole } from "@shared/permissions";
+import {
+  insertBotSettingSchema, updateUserSchema, createRaffleSchema, updateRaffleSchema, createShopItemSchema,
+  updateShopItemSchema, updateAdminSchema, updateSettingsSchema, createBroadcastSchema, createSegmentSchema,
+  updateSegmentSchema, createBroadcastScheduleSchema, updateBroadcastScheduleSchema, testBroadcastSchema, updateProfileSchema, TRANSACTION_TYPES, USER_REACHABILITY, type RaffleDrawProof, type Admin,
+} from "@shared/schema";
+import { segmentCriteriaSchema, describeSegment, type SegmentCriteria } from "@shared/segments";
+import { nextOccurrence, describeTiming, type ScheduleTiming } from "@shared/broadcast-schedules";
+import { broadcastContentError, summarizeContent, type BroadcastContent, type BroadcastMedia, type BroadcastButton } from "@shared/broadcast-content";
+import type { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { initializeBot, getBot, getBotMode, notifyPurchaseStatus, sendAnnouncement } from "./bot";
+import { verifyDraw } from "./raffle-draw";
+import { scheduleRaffleClose, announceRaffleResults, scheduleBroadcast } from "./scheduler";
+import { getFeatureFlags, parseTelegramIds, FEATURE_SETTING_KEYS, FEATURE_LABELS, DEFAULT_MAINTENANCE_MESSAGE } from "./features";
+import { auditMutations, setAuditDetails } from "./audit";
+import { runLedgerReconciliation } from "./ledger";
+import { idempotent } from "./idempotency";
+import { wakeBroadcastWorker, getTelegramErrorDetails } from "./broadcasts";
+import { checkLoginAttempt, recordLoginSuccess, normalizeUsername, isLockedOut, lockoutResetFields, type LoginCheckResult } from "./login-protection";
+
+// The Broadcasts page lists this many of the latest, and each report this many failed recipients
+const BROADCAST_LIST_LIMIT = 50;
+const BROADCAST_FAILURE_LIMIT = 500;
+
+// Settings the admin panel can change, by bot_settings key
+const AUDITED_SETTING_KEYS = [
+  'bot_token', 'public_base_url', 'bot_mode', 'daily_reward_amount', 'referral_reward_amount',
+  'onboarding_bonus_amount', ...Object.values(FEATURE_SETTING_KEYS), 'maintenance_mode',
+  'maintenance_message', 'admin_telegram_ids', REQUIRE_OWNER_2FA_SETTING,
+];
+
+async function getSettingsSnapshot(): Promise<Record<string, string | null>> {
+  const values = await Promise.all(AUDITED_SETTING_KEYS.map(key => storage.getBotSetting(key)));
+  return Object.fromEntries(AUDITED_SETTING_KEYS.map((key, i) => [key, values[i]?.value ?? null]));
+}
+
+function toCsv(headers: string[], rows: unknown[][]): string {
+  return [
+    headers.join(','),
+    ...rows.map(row => row.map(cell => {
+      // Escape cells that contain commas or quotes
+      const cellStr = String(cell);
+      if (cellStr.includes(',') || cellStr.includes('"') || cellStr.includes('\n')) {
+        return `"${cellStr.replace(/"/g, '""')}"`;
+      }
+      return cellStr;
+    }).join(','))
+  ].join('\n');
+}
+
+// What the Admins page shows and the audit log compares; never the password hash
+function adminSummary(admin: Admin) {
+  return {
+    id: admin.id,
+    username: admin.username,
+    name: admin.name,
+    role: admin.role,
+    isActive: admin.isActive,
+    twoFactorEnabled: admin.totpEnabled,
+    lockedUntil: isLockedOut(admin) ? admin.lockedUntil : null,
+    createdAt: admin.createdAt,
+  };
 }
 
-// Middleware to check authentication
-function requireAuth(req: AuthenticatedRequest, res: any, next: any) {
-  const token = req.headers.authorization?.replace('Bearer ', '');
-  if (!token) {
-    return res.status(401).json({ message: 'No token provided' });
+// Shown on the Settings page so an admin can recognise their devices
+function sessionClient(req: Request): SessionClient {
+  return { userAgent: req.get('User-Agent'), ip: req.ip };
+}
+
+// Validates a request body against one of the allow-list schemas in shared/schema.ts. On failure
+// sends a 400 naming each bad field and returns null, so handlers can just `if (!body) return;`.
+function parseBody<T extends z.ZodTypeAny>(schema: T, req: Request, res: Response): z.infer<T> | null {
+  const result = schema.safeParse(req.body ?? {});
+  if (result.success) {
+    return result.data;
   }
   
-  const admin = verifyToken(token);
-  if (!admin) {
-    return res.status(401).json({ message: 'Invalid token' });
+  res.status(400).json({
+    message: fromZodError(result.error, { prefix: 'Invalid request' }).message,
+    errors: result.error.issues.map(issue => ({
+      field: issue.path.join('.') || null,
+      message: issue.message,
+    })),
+  });
+  return null;
+}
+
+// Segment criteria arrive in the query string as JSON, e.g. ?criteria={"coinsAbove":100}
+function parseCriteriaQuery(value: unknown): SegmentCriteria | null {
+  if (typeof value !== 'string') return {};
+  try {
+    const result = segmentCriteriaSchema.safeParse(JSON.parse(value));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// The criteria a broadcast goes out with: a saved segment's, one-off criteria, or everyone.
+// Undefined if the segment doesn't exist.
+async function resolveAudience(body: { segmentId?: number; criteria?: SegmentCriteria }): Promise<{ segmentId: number | null; criteria: SegmentCriteria } | undefined> {
+  if (body.segmentId === undefined) {
+    return { segmentId: null, criteria: body.criteria ?? {} };
   }
+  const segment = await storage.getSegmentById(body.segmentId);
+  return segment ? { segmentId: segment.id, criteria: segment.criteria } : undefined;
+}
+
+// What a broadcast will send: the request's fields, with anything it leaves out kept from `saved`
+function mergeContent(
+  fields: { message?: string; media?: BroadcastMedia | null; buttons?: BroadcastButton[] },
+  saved: BroadcastContent = { message: '', media: null, buttons: [] },
+): BroadcastContent {
+  return {
+    message: fields.message ?? saved.message,
+    media: fields.media !== undefined ? fields.media : saved.media,
+    buttons: fields.buttons ?? saved.buttons,
+  };
+}
+
+// Drops timing fields the repeat doesn't use and works out the first send, or says what's wrong
+function planSchedule(fields: ScheduleTiming): { timing: ScheduleTiming; nextRunAt: Date } | { error: string } {
+  const timing = {
+    ...fields,
+    localDate: fields.repeat === 'none' ? fields.localDate : null,
+    weekday: fields.repeat === 'weekly' ? fields.weekday : null,
+  };
+  if (timing.repeat === 'none' && !timing.localDate) {
+    return { error: 'Choose a date for a one-off broadcast' };
+  }
+  if (timing.repeat === 'weekly' && timing.weekday === null) {
+    return { error: 'Choose a weekday for a weekly broadcast' };
+  }
+  const nextRunAt = nextOccurrence(timing, new Date());
+  if (!nextRunAt) {
+    return { error: 'That time has already passed' };
+  }
+  return { timing, nextRunAt };
+}
+
+function sendLoginRejection(res: Response, rejection: Extract<LoginCheckResult<unknown>, { allowed: false }>) {
+  if (rejection.retryAfter) {
+    res.set('Retry-After', String(rejection.retryAfter));
+  }
+  res.status(rejection.status).json({ message: rejection.message, retryAfter: rejection.retryAfter });
+}
+
+// Maps the errors thrown by the two-factor helpers in ./auth to 400s
+const TWO_FACTOR_USER_ERRORS = [
+  'Invalid code',
+  'Current password is incorrect',
+  'Two-factor authentication is already on',
+  'Two-factor authentication is required for owners',
+  'Login expired, please sign in again',
+];
+
+// Keeps at least one active owner so nobody can lock the panel out of admin management
+async function leavesNoActiveOwner(target: Admin, after: { role: string; isActive: boolean } | null): Promise<boolean> {
+  if (target.role !== 'owner' || !target.isActive) return false;
+  if (after && after.role === 'owner' && after.isActive) return false;
   
-  req.admin = admin;
-  next();
+  const owners = (await storage.getAllAdmins()).filter(a => a.role === 'owner' && a.isActive);
+  return owners.length <= 1;
+}
+
+function parseAuditLogFilters(query: Request['query']): AuditLogFilters {
+  const { search, entityType, adminId, from, to } = query;
+  return {
+    search: typeof search === 'string' && search.trim() ? search.trim() : undefined,
+    entityType: typeof entityType === 'string' && entityType !== 'all' ? entityType : undefined,
+    adminId: adminId ? parseInt(adminId as string) : undefined,
+    from: typeof from === 'string' && from ? new Date(from) : undefined,
+    to: typeof to === 'string' && to ? new Date(to) : undefined,
+  };
+}
+
+function queryString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// Unparseable numbers, dates and booleans are ignored rather than rejected, as with the audit log filters
+function queryNumber(value: unknown): number | undefined {
+  const text = queryString(value);
+  if (text === undefined) return undefined;
+  const number = Number(text);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function queryDate(value: unknown): Date | undefined {
+  const text = queryString(value);
+  if (text === undefined) return undefined;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function queryBoolean(value: unknown): boolean | undefined {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+}
+
+function queryOption<T extends string>(value: unknown, options: readonly T[]): T | undefined {
+  return options.find(option => option === value);
+}
+
+const SORT_ORDERS: readonly SortOrder[] = ['asc', 'desc'];
+
+function parseUserListFilters(query: Request['query']): UserListFilters {
+  return {
+    search: queryString(query.search),
+    isActive: queryBoolean(query.isActive),
+    reachability: queryOption(query.reachability, USER_REACHABILITY),
+    referred: queryBoolean(query.referred),
+    minCoins: queryNumber(query.minCoins),
+    maxCoins: queryNumber(query.maxCoins),
+    from: queryDate(query.from),
+    to: queryDate(query.to),
+    sort: queryOption(query.sort, ['createdAt', 'coins'] as const),
+    order: queryOption(query.order, SORT_ORDERS),
+    cursor: queryString(query.cursor),
+    limit: queryNumber(query.limit),
+  };
+}
+
+function parseTransactionListFilters(query: Request['query']): TransactionListFilters {
+  return {
+    search: queryString(query.search),
+    type: queryOption(query.type, TRANSACTION_TYPES),
+    userId: queryNumber(query.userId),
+    from: queryDate(query.from),
+    to: queryDate(query.to),
+    minAmount: queryNumber(query.minAmount),
+    maxAmount: queryNumber(query.maxAmount),
+    sort: queryOption(query.sort, ['createdAt', 'amount'] as const),
+    order: queryOption(query.order, SORT_ORDERS),
+    cursor: queryString(query.cursor),
+    limit: queryNumber(query.limit),
+  };
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  app.use(auditMutations);
   
   // Test route
   app.get('/api/test', (_req, res) => {
@@ -42,25 +265,384 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Username and password are required' });
       }
       
-      const admin = await authenticateAdmin(username, password);
-      if (!admin) {
-        return res.status(401).json({ message: 'Invalid credentials' });
+      // Unknown usernames are throttled the same way, so the responses don't reveal which exist
+      const existing = await storage.getAdminByUsername(String(username));
+      const check = await checkLoginAttempt(
+        req,
+        { username: normalizeUsername(String(username)), adminId: existing?.id, reason: 'wrong_password', failureMessage: 'Invalid credentials' },
+        () => authenticateAdmin(String(username), String(password)),
+      );
+      if (!check.allowed) {
+        return sendLoginRejection(res, check);
+      }
+      const admin = check.value;
+      
+      // The password was right; the session is only issued after the second step
+      if (admin.totpEnabled) {
+        return res.json({ twoFactorRequired: true, challengeToken: generateTwoFactorChallenge(admin) });
       }
       
-      const token = generateToken(admin);
-      res.json({ token, admin });
+      const session = await createSession(admin, sessionClient(req));
+      await recordLoginSuccess(req, admin);
+      res.json({ ...session, admin: toAuthenticatedAdmin(admin) });
     } catch (error) {
       console.error('Login error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
   
-  app.get('/api/auth/me', requireAuth, (req, res) => {
-    res.json(req.admin);
+  // Second login step: a code from the authenticator app or a recovery code
+  app.post('/api/auth/login/2fa', async (req, res) => {
+    try {
+      const { challengeToken, code } = req.body;
+      
+      if (!challengeToken || !code) {
+        return res.status(400).json({ message: 'Code is required' });
+      }
+      
+      const challenged = await getTwoFactorChallengeAdmin(String(challengeToken));
+      const check = await checkLoginAttempt(
+        req,
+        { username: normalizeUsername(challenged.username), adminId: challenged.id, reason: 'wrong_code', failureMessage: 'Invalid code' },
+        async () => (await verifyTwoFactorCode(challenged, String(code))) ? challenged : null,
+      );
+      if (!check.allowed) {
+        return sendLoginRejection(res, check);
+      }
+      
+      const session = await createSession(check.value, sessionClient(req));
+      await recordLoginSuccess(req, check.value);
+      res.json({ ...session, admin: toAuthenticatedAdmin(check.value) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message === 'Login expired, please sign in again') {
+        return res.status(401).json({ message });
+      }
+      console.error('Two-factor login error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Trades a refresh token for a new access token; the refresh token is rotated every time
+  app.post('/api/auth/refresh', async (req, res) => {
+    try {
+      const { refreshToken } = req.body;
+      
+      if (!refreshToken) {
+        return res.status(400).json({ message: 'Refresh token is required' });
+      }
+      
+      const { admin, ...session } = await refreshSession(String(refreshToken));
+      res.json({ ...session, admin: toAuthenticatedAdmin(admin) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message === 'Session expired') {
+        return res.status(401).json({ message });
+      }
+      console.error('Refresh error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  app.post('/api/auth/logout', async (req, res) => {
+    try {
+      if (req.body.refreshToken) {
+        await endSession(String(req.body.refreshToken));
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Logout error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // The signed-in admin's own sessions, for the Settings page
+  app.get('/api/auth/sessions', requireAuth, async (req, res) => {
+    try {
+      const sessions = await storage.getActiveAdminSessions(req.admin!.id);
+      res.json(sessions.map(session => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        current: session.id === req.adminSessionId,
+      })));
+    } catch (error) {
+      console.error('Get sessions error:', error);
+      res.status(500).json({ message: 'Failed to fetch sessions' });
+    }
+  });
+  
+  app.delete('/api/auth/sessions/:id', requireAuth, async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.id);
+      const revoked = await storage.revokeAdminSession(req.admin!.id, sessionId);
+      if (!revoked) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
+      
+      setAuditDetails(res, { entityType: 'admins', entityId: req.admin!.id, description: `Signed out session #${sessionId}` });
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      res.status(500).json({ message: 'Failed to sign out session' });
+    }
+  });
+  
+  // "Log out everywhere", including this browser
+  app.delete('/api/auth/sessions', requireAuth, async (req, res) => {
+    try {
+      const revoked = await storage.revokeAdminSessions(req.admin!.id);
+      setAuditDetails(res, { entityType: 'admins', entityId: req.admin!.id, description: 'Signed out everywhere' });
+      res.json({ success: true, revoked });
+    } catch (error) {
+      console.error('Revoke all sessions error:', error);
+      res.status(500).json({ message: 'Failed to sign out' });
+    }
+  });
+  
+  app.get('/api/auth/me', requireAuth, async (req, res) => {
+    try {
+      const admin = await storage.getAdminById(req.admin!.id);
+      res.json({
+        ...req.admin,
+        telegramId: admin?.telegramId ?? null,
+        twoFactorEnabled: !!admin?.totpEnabled,
+        twoFactorSetupRequired: !!admin && await mustEnrollTwoFactor(admin),
+        recoveryCodesLeft: admin?.recoveryCodes.length ?? 0,
+      });
+    } catch (error) {
+      console.error('Get current admin error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  app.patch('/api/auth/me', requireAuth, async (req, res) => {
+    try {
+      const body = parseBody(updateProfileSchema, req, res);
+      if (!body) return;
+
+      const existing = await storage.getAdminById(req.admin!.id);
+      const admin = await storage.updateAdmin(req.admin!.id, { telegramId: body.telegramId });
+      setAuditDetails(res, {
+        entityType: 'admins',
+        entityId: admin.id,
+        description: body.telegramId ? `Set their Telegram ID to ${body.telegramId}` : 'Removed their Telegram ID',
+        before: { telegramId: existing?.telegramId ?? null },
+        after: { telegramId: admin.telegramId },
+      });
+      res.json({ telegramId: admin.telegramId });
+    } catch (error) {
+      console.error('Update current admin error:', error);
+      res.status(500).json({ message: 'Failed to update profile' });
+    }
+  });
+  
+  // Two-factor enrollment for the signed-in admin
+  app.post('/api/auth/2fa/setup', requireAuth, async (req, res) => {
+    try {
+      const enrollment = await startTwoFactorEnrollment(req.admin!.id);
+      res.json(enrollment);
+    } catch (error) {
+      console.error('Two-factor setup error:', error);
+      const message = error instanceof Error ? error.message : '';
+      if (TWO_FACTOR_USER_ERRORS.includes(message)) {
+        return res.status(400).json({ message });
+      }
+      res.status(500).json({ message: 'Failed to start two-factor setup' });
+    }
+  });
+  
+  app.post('/api/auth/2fa/enable', requireAuth, async (req, res) => {
+    try {
+      const recoveryCodes = await enableTwoFactor(req.admin!.id, String(req.body.code || ''));
+      setAuditDetails(res, { entityType: 'admins', entityId: req.admin!.id, description: 'Turned on two-factor authentication' });
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error('Two-factor enable error:', error);
+      const message = error instanceof Error ? error.message : '';
+      if (TWO_FACTOR_USER_ERRORS.includes(message)) {
+        return res.status(400).json({ message });
+      }
+      res.status(500).json({ message: 'Failed to turn on two-factor authentication' });
+    }
+  });
+  
+  app.post('/api/auth/2fa/disable', requireAuth, async (req, res) => {
+    try {
+      await disableTwoFactor(req.admin!.id, String(req.body.password || ''), String(req.body.code || ''));
+      setAuditDetails(res, { entityType: 'admins', entityId: req.admin!.id, description: 'Turned off two-factor authentication' });
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Two-factor disable error:', error);
+      const message = error instanceof Error ? error.message : '';
+      if (TWO_FACTOR_USER_ERRORS.includes(message)) {
+        return res.status(400).json({ message });
+      }
+      res.status(500).json({ message: 'Failed to turn off two-factor authentication' });
+    }
+  });
+  
+  app.post('/api/auth/2fa/recovery-codes', requireAuth, async (req, res) => {
+    try {
+      const recoveryCodes = await regenerateRecoveryCodes(req.admin!.id, String(req.body.code || ''));
+      setAuditDetails(res, { entityType: 'admins', entityId: req.admin!.id, description: 'Generated new recovery codes' });
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error('Recovery codes error:', error);
+      const message = error instanceof Error ? error.message : '';
+      if (TWO_FACTOR_USER_ERRORS.includes(message)) {
+        return res.status(400).json({ message });
+      }
+      res.status(500).json({ message: 'Failed to generate recovery codes' });
+    }
+  });
+  
+  // Any admin can change their own password. Other sessions are signed out; this one gets a new token.
+  app.post('/api/auth/password', requireAuth, async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = req.body;
+      
+      if (!currentPassword || !newPassword) {
+        return res.status(400).json({ message: 'Current and new password are required' });
+      }
+      
+      const admin = await changeAdminPassword(req.admin!.id, currentPassword, newPassword, req.adminSessionId);
+      setAuditDetails(res, { entityType: 'admins', entityId: admin.id, description: 'Changed their password' });
+      res.json({ token: generateToken(admin, req.adminSessionId!) });
+    } catch (error) {
+      console.error('Change password error:', error);
+      const message = error instanceof Error ? error.message : '';
+      if (message === 'Current password is incorrect' || message.startsWith('Password must be')) {
+        return res.status(400).json({ message });
+      }
+      res.status(500).json({ message: 'Failed to change password' });
+    }
+  });
+  
+  // Admin accounts
+  app.get('/api/admins', requireAuth, requirePermission('admins.manage'), async (req, res) => {
+    try {
+      const admins = await storage.getAllAdmins();
+      res.json(admins.map(adminSummary));
+    } catch (error) {
+      console.error('Get admins error:', error);
+      res.status(500).json({ message: 'Failed to fetch admins' });
+    }
+  });
+  
+  app.post('/api/admins', requireAuth, requirePermission('admins.manage'), async (req, res) => {
+    try {
+      const { username, password, name, role } = req.body;
+      
+      if (!username || !password || !name) {
+        return res.status(400).json({ message: 'Username, password and name are required' });
+      }
+      
+      if (!isAdminRole(role)) {
+        return res.status(400).json({ message: 'Unknown role' });
+      }
+      
+      const admin = await createAdmin(String(username).trim(), String(password), String(name).trim(), role);
+      setAuditDetails(res, { entityId: admin.id, description: `Added admin @${admin.username}`, before: null, after: adminSummary(admin) });
+      res.json(adminSummary(admin));
+    } catch (error) {
+      console.error('Create admin error:', error);
+      const message = error instanceof Error ? error.message : '';
+      if (message === 'An admin with that username already exists') {
+        return res.status(409).json({ message });
+      }
+      if (message.startsWith('Password must be')) {
+        return res.status(400).json({ message });
+      }
+      res.status(500).json({ message: 'Failed to create admin' });
+    }
+  });
+  
+  app.patch('/api/admins/:id', requireAuth, requirePermission('admins.manage'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const body = parseBody(updateAdminSchema, req, res);
+      if (!body) return;
+      const { name, role, isActive, resetTwoFactor, unlock } = body;
+      
+      const existing = await storage.getAdminById(id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Admin not found' });
+      }
+      
+      const updates: Partial<Admin> = {};
+      if (name !== undefined) updates.name = name;
+      if (role !== undefined) updates.role = role;
+      if (isActive !== undefined) updates.isActive = isActive;
+      
+      if (id === req.admin!.id && (updates.isActive === false || (updates.role && updates.role !== existing.role))) {
+        return res.status(400).json({ message: "You can't disable yourself or change your own role" });
+      }
+      
+      if (await leavesNoActiveOwner(existing, { role: updates.role ?? existing.role, isActive: updates.isActive ?? existing.isActive })) {
+        return res.status(400).json({ message: 'There must be at least one active owner' });
+      }
+      
+      // For an admin who lost their authenticator and recovery codes; they can enroll again after signing in
+      if (resetTwoFactor === true) {
+        if (id === req.admin!.id) {
+          return res.status(400).json({ message: 'Turn off your own two-factor authentication from your account menu' });
+        }
+        Object.assign(updates, resetTwoFactorFields());
+      }
+      
+      // Lets a locked-out admin try again straight away
+      if (unlock === true) {
+        Object.assign(updates, lockoutResetFields());
+      }
+      
+      // Disabling revokes every token the admin already holds; their sessions are signed out below
+      if (updates.isActive === false && existing.isActive) {
+        updates.tokenVersion = existing.tokenVersion + 1;
+      }
+      
+      const admin = await storage.updateAdmin(id, updates);
+      if (updates.isActive === false) {
+        await storage.revokeAdminSessions(id);
+      }
+      setAuditDetails(res, { before: adminSummary(existing), after: adminSummary(admin) });
+      res.json(adminSummary(admin));
+    } catch (error) {
+      console.error('Update admin error:', error);
+      res.status(500).json({ message: 'Failed to update admin' });
+    }
+  });
+  
+  app.delete('/api/admins/:id', requireAuth, requirePermission('admins.manage'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      const existing = await storage.getAdminById(id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Admin not found' });
+      }
+      
+      if (id === req.admin!.id) {
+        return res.status(400).json({ message: "You can't remove yourself" });
+      }
+      
+      if (await leavesNoActiveOwner(existing, null)) {
+        return res.status(400).json({ message: 'There must be at least one active owner' });
+      }
+      
+      await storage.deleteAdmin(id);
+      setAuditDetails(res, { description: `Removed admin @${existing.username}`, before: adminSummary(existing), after: null });
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete admin error:', error);
+      res.status(500).json({ message: 'Failed to remove admin' });
+    }
   });
   
   // Sync user data from bot
-  app.post('/api/users/:telegramId/sync', requireAuth, async (req, res) => {
+  app.post('/api/users/:telegramId/sync', requireAuth, requirePermission('users.edit'), async (req, res) => {
     try {
       const { telegramId } = req.params;
       const user = await storage.getUserByTelegramId(telegramId);
@@ -93,20 +675,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(500).json({ message: 'Failed to fetch dashboard stats' });
     }
   });
+
+  // Registrations and daily claims per day for the activity charts
+  app.get('/api/dashboard/activity', requireAuth, async (req, res) => {
+    try {
+      const days = Math.min(Math.max(Math.floor(queryNumber(req.query.days) ?? 7), 1), 365);
+      const activity = await storage.getDailyActivity(days);
+      res.json(activity);
+    } catch (error) {
+      console.error('Dashboard activity error:', error);
+      res.status(500).json({ message: 'Failed to fetch activity' });
+    }
+  });
   
-  // Users
-  app.get('/api/users', requireAuth, async (req, res) => {
+  // Onboarding funnel: how far users get through the bot tutorial
+  app.get('/api/onboarding/funnel', requireAuth, async (req, res) => {
     try {
-      const users = await storage.getAllUsers();
-      res.json(users);
+      const funnel = await storage.getOnboardingFunnel();
+      res.json(funnel);
     } catch (error) {
+      console.error('Onboarding funnel error:', error);
+      res.status(500).json({ message: 'Failed to fetch onboarding funnel' });
+    }
+  });
+  
+  // Users
+  app.get('/api/users', requireAuth, requirePermission('users.view'), async (req, res) => {
+    try {
+      const page = await storage.getUsersPage(parseUserListFilters(req.query));
+      res.json(page);
+    } catch (error: any) {
+      if (error.message === 'Invalid cursor') {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('Get users error:', error);
       res.status(500).json({ message: 'Failed to fetch users' });
     }
   });
   
+  app.get('/api/referrals/stats', requireAuth, requirePermission('users.view'), async (req, res) => {
+    try {
+      const stats = await storage.getReferralStats();
+      res.json(stats);
+    } catch (error) {
+      console.error('Referral stats error:', error);
+      res.status(500).json({ message: 'Failed to fetch referral stats' });
+    }
+  });
+  
   // Get full user data with all relations
-  app.get('/api/users/:id/full', requireAuth, async (req, res) => {
+  app.get('/api/users/:id/full', requireAuth, requirePermission('users.view'), async (req, res) => {
     try {
       const { id } = req.params;
       const user = await storage.getUserById(parseInt(id));
@@ -131,7 +749,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Adjust user coins
-  app.post('/api/users/:id/adjust-coins', requireAuth, async (req, res) => {
+  app.post('/api/users/:id/adjust-coins', requireAuth, requirePermission('users.adjust_coins'), idempotent, async (req, res) => {
     try {
       const { id } = req.params;
       const { amount, type, reason } = req.body;
@@ -140,46 +758,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Amount, type, and reason are required' });
       }
       
-      const user = await storage.getUserById(parseInt(id));
-      if (!user) {
-        return res.status(404).json({ message: 'User not found' });
-      }
-      
       const adjustedAmount = type === 'add' ? Math.abs(amount) : -Math.abs(amount);
-      const newBalance = user.coins + adjustedAmount;
-      
-      if (newBalance < 0) {
-        return res.status(400).json({ message: 'Insufficient balance for withdrawal' });
+      if (!Number.isInteger(adjustedAmount)) {
+        return res.status(400).json({ message: 'Amount must be a whole number' });
       }
       
-      // Update user coins - use updateUserById for direct ID update
-      const updatedUser = await storage.updateUserById(user.id, { coins: newBalance });
+      const { before, user } = await storage.adjustCoins(
+        parseInt(id),
+        adjustedAmount,
+        `Admin ${type === 'add' ? 'add' : 'withdraw'}: ${reason}`,
+      );
       
-      // Create transaction record
-      await storage.createTransaction({
-        userId: user.id,
-        type: type === 'add' ? 'admin_add' : 'admin_withdraw',
-        amount: adjustedAmount,
-        description: `Admin ${type}: ${reason}`,
+      setAuditDetails(res, {
+        description: `${type === 'add' ? 'Added' : 'Withdrew'} ${Math.abs(adjustedAmount)} coins: ${reason}`,
+        before: { coins: before.coins },
+        after: { coins: user.coins },
       });
       
       res.json({ 
         success: true, 
-        newBalance: updatedUser.coins,
-        user: updatedUser 
+        newBalance: user.coins,
+        user 
       });
-    } catch (error) {
+    } catch (error: any) {
+      if (error.message === 'User not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === 'Insufficient coins') {
+        return res.status(400).json({ message: 'Insufficient balance for withdrawal' });
+      }
       console.error('Adjust coins error:', error);
       res.status(500).json({ message: 'Failed to adjust coins' });
     }
   });
   
-  app.patch('/api/users/:telegramId', requireAuth, async (req, res) => {
+  app.patch('/api/users/:telegramId', requireAuth, requirePermission('users.edit'), async (req, res) => {
     try {
       const { telegramId } = req.params;
-      const updates = req.body;
+      const updates = parseBody(updateUserSchema, req, res);
+      if (!updates) return;
+      
+      const before = await storage.getUserByTelegramId(telegramId);
+      if (!before) {
+        return res.status(404).json({ message: 'User not found' });
+      }
       
       const user = await storage.updateUser(telegramId, updates);
+      setAuditDetails(res, { entityId: user.id, before, after: user });
       res.json(user);
     } catch (error) {
       console.error('Update user error:', error);
@@ -188,18 +813,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Transactions
-  app.get('/api/transactions', requireAuth, async (req, res) => {
+  app.get('/api/transactions', requireAuth, requirePermission('transactions.view'), async (req, res) => {
     try {
-      const transactions = await storage.getAllTransactions();
-      res.json(transactions);
-    } catch (error) {
+      const page = await storage.getTransactionsPage(parseTransactionListFilters(req.query));
+      res.json(page);
+    } catch (error: any) {
+      if (error.message === 'Invalid cursor') {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('Get transactions error:', error);
       res.status(500).json({ message: 'Failed to fetch transactions' });
     }
   });
+
+  // Totals for everything matching the filters, not just the loaded page
+  app.get('/api/transactions/summary', requireAuth, requirePermission('transactions.view'), async (req, res) => {
+    try {
+      const summary = await storage.getTransactionSummary(parseTransactionListFilters(req.query));
+      res.json(summary);
+    } catch (error) {
+      console.error('Get transaction summary error:', error);
+      res.status(500).json({ message: 'Failed to fetch transaction summary' });
+    }
+  });
+
+  // Latest comparison of users.coins against the ledger; null until the job has run once
+  app.get('/api/ledger/reconciliation', requireAuth, requirePermission('transactions.view'), async (req, res) => {
+    try {
+      const report = await storage.getLatestLedgerReconciliation();
+      res.json(report ?? null);
+    } catch (error) {
+      console.error('Get ledger reconciliation error:', error);
+      res.status(500).json({ message: 'Failed to fetch ledger reconciliation' });
+    }
+  });
+
+  app.post('/api/ledger/reconciliation', requireAuth, requirePermission('transactions.view'), async (req, res) => {
+    try {
+      const report = await runLedgerReconciliation();
+      const mismatches = report.mismatches as unknown[];
+      setAuditDetails(res, {
+        entityType: 'ledger',
+        entityId: report.id,
+        description: `Ran ledger reconciliation: ${mismatches.length} mismatch${mismatches.length === 1 ? '' : 'es'}`,
+      });
+      res.json(report);
+    } catch (error) {
+      console.error('Run ledger reconciliation error:', error);
+      res.status(500).json({ message: 'Failed to run ledger reconciliation' });
+    }
+  });
   
   // Raffles
-  app.get('/api/raffles', requireAuth, async (req, res) => {
+  app.get('/api/raffles', requireAuth, requirePermission('raffles.view'), async (req, res) => {
     try {
       const raffles = await storage.getAllRaffles();
       res.json(raffles);
@@ -209,17 +875,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post('/api/raffles', requireAuth, async (req, res) => {
+  app.post('/api/raffles', requireAuth, requirePermission('raffles.manage'), async (req, res) => {
     try {
-      // Convert date strings to Date objects
-      const processedData = {
-        ...req.body,
-        startDate: req.body.startDate ? new Date(req.body.startDate) : new Date(),
-        endDate: new Date(req.body.endDate),
-      };
+      const raffleData = parseBody(createRaffleSchema, req, res);
+      if (!raffleData) return;
       
-      const raffleData = insertRaffleSchema.parse(processedData);
-      const raffle = await storage.createRaffle(raffleData);
+      const raffle = await storage.createRaffle({ ...raffleData, startDate: raffleData.startDate ?? new Date() });
+      scheduleRaffleClose(raffle);
+      setAuditDetails(res, { entityId: raffle.id, description: `Created raffle "${raffle.title}"`, before: null, after: raffle });
       res.json(raffle);
     } catch (error) {
       console.error('Create raffle error:', error);
@@ -227,12 +890,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.patch('/api/raffles/:id', requireAuth, async (req, res) => {
+  app.patch('/api/raffles/:id', requireAuth, requirePermission('raffles.manage'), async (req, res) => {
     try {
       const { id } = req.params;
-      const updates = req.body;
+      const updates = parseBody(updateRaffleSchema, req, res);
+      if (!updates) return;
+      
+      const before = await storage.getRaffleById(parseInt(id));
+      if (!before) {
+        return res.status(404).json({ message: 'Raffle not found' });
+      }
+      
+      // The draw proof pins a drawn raffle's terms, so only its description can still change
+      const lockedFields = before.drawnAt ? Object.keys(updates).filter(field => field !== 'description') : [];
+      if (lockedFields.length > 0) {
+        return res.status(400).json({
+          message: 'Only the description of a drawn raffle can be changed',
+          errors: lockedFields.map(field => ({ field, message: 'Cannot be changed after the draw' })),
+        });
+      }
+      
+      if (updates.maxEntries != null && updates.maxEntries < before.currentEntries) {
+        return res.status(400).json({
+          message: 'Max entries cannot be below the tickets already sold',
+          errors: [{ field: 'maxEntries', message: `Must be at least ${before.currentEntries}` }],
+        });
+      }
       
       const raffle = await storage.updateRaffle(parseInt(id), updates);
+      scheduleRaffleClose(raffle);
+      setAuditDetails(res, { before, after: raffle });
       res.json(raffle);
     } catch (error) {
       console.error('Update raffle error:', error);
@@ -240,7 +927,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get('/api/raffles/:id/entries', requireAuth, async (req, res) => {
+  app.get('/api/raffles/:id/entries', requireAuth, requirePermission('raffles.view'), async (req, res) => {
     try {
       const { id } = req.params;
       const entries = await storage.getRaffleEntries(parseInt(id));
@@ -250,9 +937,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(500).json({ message: 'Failed to fetch raffle entries' });
     }
   });
+
+  // Draw winners, weighted by ticket count. The seed and entrant snapshot are stored as a proof.
+  app.post('/api/raffles/:id/draw', requireAuth, requirePermission('raffles.draw'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const winnerCount = req.body.winnerCount ? parseInt(req.body.winnerCount) : 1;
+
+      if (isNaN(winnerCount) || winnerCount < 1) {
+        return res.status(400).json({ message: 'Winner count must be a positive number' });
+      }
+
+      const { raffle, proof } = await storage.drawRaffleWinner(parseInt(id), winnerCount);
+      const winners = await storage.getRaffleWinners(raffle.id);
+      setAuditDetails(res, {
+        description: `Drew ${winners.length} winner${winners.length === 1 ? '' : 's'} for "${raffle.title}"`,
+        before: { winnerId: null, drawnAt: null },
+        after: { winnerId: raffle.winnerId, drawnAt: raffle.drawnAt },
+      });
+
+      scheduleRaffleClose(raffle);
+      announceRaffleResults(raffle.id).catch(error => {
+        console.error('Raffle result notification error:', error);
+      });
+
+      res.json({ raffle, winners, proof, verified: verifyDraw(proof) });
+    } catch (error) {
+      console.error('Draw raffle error:', error);
+      const message = error instanceof Error ? error.message : '';
+      if (message === 'Raffle not found') {
+        return res.status(404).json({ message });
+      }
+      if (message === 'Raffle has already been drawn' || message === 'Raffle has no entries') {
+        return res.status(400).json({ message });
+      }
+      res.status(500).json({ message: 'Failed to draw raffle winner' });
+    }
+  });
+
+  // Re-run a recorded draw so anyone can check the published winners
+  app.get('/api/raffles/:id/draw', requireAuth, requirePermission('raffles.view'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const raffle = await storage.getRaffleById(parseInt(id));
+
+      if (!raffle) {
+        return res.status(404).json({ message: 'Raffle not found' });
+      }
+
+      if (!raffle.drawProof) {
+        return res.status(404).json({ message: 'Raffle has not been drawn yet' });
+      }
+
+      const proof = raffle.drawProof as RaffleDrawProof;
+      const winners = await storage.getRaffleWinners(raffle.id);
+
+      res.json({ raffle, winners, proof, verified: verifyDraw(proof) });
+    } catch (error) {
+      console.error('Get raffle draw error:', error);
+      res.status(500).json({ message: 'Failed to fetch raffle draw' });
+    }
+  });
+
+  // Conversation states: users the bot is currently waiting on for input
+  app.get('/api/conversations', requireAuth, requirePermission('conversations.view'), async (req, res) => {
+    try {
+      const conversations = await storage.getActiveConversationStates();
+      res.json(conversations);
+    } catch (error) {
+      console.error('Get conversations error:', error);
+      res.status(500).json({ message: 'Failed to fetch conversations' });
+    }
+  });
+  
+  app.delete('/api/conversations/:telegramId', requireAuth, requirePermission('conversations.manage'), async (req, res) => {
+    try {
+      const { telegramId } = req.params;
+      const before = await storage.getConversationState(telegramId);
+      await storage.deleteConversationState(telegramId);
+      setAuditDetails(res, { before, after: null });
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete conversation error:', error);
+      res.status(500).json({ message: 'Failed to clear conversation' });
+    }
+  });
   
   // Shop items
-  app.get('/api/shop', requireAuth, async (req, res) => {
+  app.get('/api/shop', requireAuth, requirePermission('shop.view'), async (req, res) => {
     try {
       const items = await storage.getAllShopItems();
       res.json(items);
@@ -262,28 +1034,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post('/api/shop', requireAuth, async (req, res) => {
+  app.post('/api/shop', requireAuth, requirePermission('shop.manage'), async (req, res) => {
     try {
-      console.log('Shop item data received:', req.body);
-      const itemData = insertShopItemSchema.parse(req.body);
+      const itemData = parseBody(createShopItemSchema, req, res);
+      if (!itemData) return;
+      
       const item = await storage.createShopItem(itemData);
+      setAuditDetails(res, { entityId: item.id, description: `Created shop item "${item.name}"`, before: null, after: item });
       res.json(item);
     } catch (error) {
       console.error('Create shop item error:', error);
-      if (error instanceof Error) {
-        res.status(500).json({ message: error.message });
-      } else {
-        res.status(500).json({ message: 'Failed to create shop item' });
-      }
+      res.status(500).json({ message: 'Failed to create shop item' });
     }
   });
   
-  app.patch('/api/shop/:id', requireAuth, async (req, res) => {
+  app.patch('/api/shop/:id', requireAuth, requirePermission('shop.manage'), async (req, res) => {
     try {
       const { id } = req.params;
-      const updates = req.body;
+      const updates = parseBody(updateShopItemSchema, req, res);
+      if (!updates) return;
+      
+      const existing = (await storage.getAllShopItems()).find(i => i.id === parseInt(id));
+      if (!existing) {
+        return res.status(404).json({ message: 'Shop item not found' });
+      }
       
-      const item = await storage.updateShopItem(parseInt(id), updates);
+      // Stock of a code item always follows its unused codes
+      const { stock, ...otherUpdates } = updates;
+      const item = await storage.updateShopItem(parseInt(id), existing.deliversCodes ? otherUpdates : updates);
+      setAuditDetails(res, { before: existing, after: item });
       res.json(item);
     } catch (error) {
       console.error('Update shop item error:', error);
@@ -291,65 +1070,482 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Telegram broadcast
-  app.post('/api/telegram/broadcast', requireAuth, async (req, res) => {
+  // Redeemable code inventory for a shop item
+  app.get('/api/shop/:id/codes', requireAuth, requirePermission('shop.manage'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const codes = await storage.getShopItemCodes(parseInt(id));
+      res.json(codes);
+    } catch (error) {
+      console.error('Get shop item codes error:', error);
+      res.status(500).json({ message: 'Failed to fetch codes' });
+    }
+  });
+  
+  // Accepts either an array of codes or one block of text with a code per line
+  app.post('/api/shop/:id/codes', requireAuth, requirePermission('shop.manage'), async (req, res) => {
     try {
-      const { message } = req.body;
+      const { id } = req.params;
+      const { codes } = req.body;
+      const list: string[] = Array.isArray(codes)
+        ? codes.map(String)
+        : typeof codes === 'string' ? codes.split(/\r?\n/) : [];
       
-      if (!message || !message.trim()) {
-        return res.status(400).json({ message: 'Message is required' });
+      const result = await storage.addShopItemCodes(parseInt(id), list);
+      setAuditDetails(res, { description: `Added ${result.added} codes to "${result.item.name}" (${result.skipped} skipped)` });
+      res.json(result);
+    } catch (error) {
+      console.error('Add shop item codes error:', error);
+      const message = error instanceof Error ? error.message : '';
+      if (message === 'Item not found') {
+        return res.status(404).json({ message });
       }
-      
-      // Get bot instance
-      const bot = getBot();
-      if (!bot) {
-        return res.status(500).json({ message: 'Bot is not initialized' });
+      if (message === 'No codes provided') {
+        return res.status(400).json({ message });
       }
+      res.status(500).json({ message: 'Failed to add codes' });
+    }
+  });
+  
+  app.delete('/api/shop/:id/codes/:codeId', requireAuth, requirePermission('shop.manage'), async (req, res) => {
+    try {
+      const { id, codeId } = req.params;
+      const item = await storage.deleteShopItemCode(parseInt(id), parseInt(codeId));
+      setAuditDetails(res, { description: `Deleted unused code #${codeId} from "${item.name}"` });
+      res.json(item);
+    } catch (error) {
+      console.error('Delete shop item code error:', error);
+      const message = error instanceof Error ? error.message : '';
+      if (message === 'Item not found' || message === 'Code not found or already sold') {
+        return res.status(404).json({ message });
+      }
+      res.status(500).json({ message: 'Failed to delete code' });
+    }
+  });
+  
+  // Shop orders
+  app.get('/api/purchases', requireAuth, requirePermission('orders.view'), async (req, res) => {
+    try {
+      const { status, itemId, userId } = req.query;
+      const purchases = await storage.getPurchases({
+        status: typeof status === 'string' && status !== 'all' ? status : undefined,
+        itemId: itemId ? parseInt(itemId as string) : undefined,
+        userId: userId ? parseInt(userId as string) : undefined,
+      });
+      res.json(purchases);
+    } catch (error) {
+      console.error('Get purchases error:', error);
+      res.status(500).json({ message: 'Failed to fetch purchases' });
+    }
+  });
+  
+  app.post('/api/purchases/:id/:action(fulfill|cancel)', requireAuth, requirePermission('orders.manage'), idempotent, async (req, res) => {
+    try {
+      const { id, action } = req.params;
+      const note = typeof req.body.note === 'string' ? req.body.note.trim() : undefined;
       
-      // Get all users with telegram IDs
-      const users = await storage.getUsers();
-      const activeUsers = users.filter(user => user.telegramId);
+      const before = await storage.getPurchaseById(parseInt(id));
+      const result = action === 'fulfill'
+        ? await storage.fulfillPurchase(parseInt(id), note)
+        : await storage.cancelPurchase(parseInt(id), note);
       
-      let sentCount = 0;
-      let failedCount = 0;
+      // The order change is already committed; a failed DM shouldn't fail the request
+      notifyPurchaseStatus(result.user, result.purchase, result.item).catch(error => {
+        console.error('Purchase status notification error:', error);
+      });
       
-      // Send message to each user
-      for (const user of activeUsers) {
-        try {
-          await bot.sendMessage(user.telegramId, message, { parse_mode: 'Markdown' });
-          sentCount++;
-          
-          // Add small delay to avoid rate limiting
-          await new Promise(resolve => setTimeout(resolve, 50));
-        } catch (error) {
-          console.error(`Failed to send message to user ${user.telegramId}:`, error);
-          failedCount++;
-        }
-      }
+      setAuditDetails(res, {
+        description: `${action === 'fulfill' ? 'Fulfilled' : 'Cancelled'} order for "${result.item.name}"`,
+        before: before && { status: before.status, note: before.note },
+        after: { status: result.purchase.status, note: result.purchase.note },
+      });
       
-      res.json({ 
-        message: 'Broadcast sent successfully',
-        sentCount,
-        failedCount,
-        totalUsers: activeUsers.length
+      res.json(result.purchase);
+    } catch (error) {
+      console.error('Update purchase error:', error);
+      const message = error instanceof Error ? error.message : '';
+      if (message === 'Purchase not found') {
+        return res.status(404).json({ message });
+      }
+      if (message === 'Purchase is not pending' || message === 'Purchase is already cancelled'
+        || message === 'Orders that delivered a code cannot be cancelled') {
+        return res.status(400).json({ message });
+      }
+      res.status(500).json({ message: 'Failed to update purchase' });
+    }
+  });
+  
+  // Saved audiences for broadcasts and exports
+  app.get('/api/segments', requireAuth, requirePermission('users.view'), async (req, res) => {
+    try {
+      res.json(await storage.getSegments());
+    } catch (error) {
+      console.error('Get segments error:', error);
+      res.status(500).json({ message: 'Failed to fetch segments' });
+    }
+  });
+
+  // How many users a segment matches, for the builder to show before anything is saved or sent
+  app.get('/api/segments/preview', requireAuth, requirePermission('users.view'), async (req, res) => {
+    try {
+      const criteria = parseCriteriaQuery(req.query.criteria);
+      if (!criteria) {
+        return res.status(400).json({ message: 'Invalid segment criteria' });
+      }
+      res.json(await storage.countSegmentUsers(criteria));
+    } catch (error) {
+      console.error('Preview segment error:', error);
+      res.status(500).json({ message: 'Failed to count segment users' });
+    }
+  });
+
+  app.post('/api/segments', requireAuth, requirePermission('broadcast.send'), async (req, res) => {
+    try {
+      const body = parseBody(createSegmentSchema, req, res);
+      if (!body) return;
+
+      if (await storage.getSegmentByName(body.name)) {
+        return res.status(409).json({ message: 'A segment with that name already exists' });
+      }
+
+      const segment = await storage.createSegment({ ...body, createdBy: req.admin!.id });
+      setAuditDetails(res, {
+        entityId: segment.id,
+        description: `Saved segment "${segment.name}": ${describeSegment(segment.criteria)}`,
+        before: null,
+        after: segment,
       });
+      res.status(201).json(segment);
+    } catch (error) {
+      console.error('Create segment error:', error);
+      res.status(500).json({ message: 'Failed to save segment' });
+    }
+  });
+
+  app.patch('/api/segments/:id', requireAuth, requirePermission('broadcast.send'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates = parseBody(updateSegmentSchema, req, res);
+      if (!updates) return;
+
+      const existing = await storage.getSegmentById(id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+      if (updates.name && updates.name !== existing.name && await storage.getSegmentByName(updates.name)) {
+        return res.status(409).json({ message: 'A segment with that name already exists' });
+      }
+
+      const segment = await storage.updateSegment(id, updates);
+      setAuditDetails(res, { before: existing, after: segment });
+      res.json(segment);
+    } catch (error) {
+      console.error('Update segment error:', error);
+      res.status(500).json({ message: 'Failed to update segment' });
+    }
+  });
+
+  // Broadcasts already sent to the segment keep their copy of its criteria
+  app.delete('/api/segments/:id', requireAuth, requirePermission('broadcast.send'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getSegmentById(id);
+      if (!existing || !await storage.deleteSegment(id)) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+      setAuditDetails(res, { description: `Deleted segment "${existing.name}"`, before: existing, after: null });
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete segment error:', error);
+      res.status(500).json({ message: 'Failed to delete segment' });
+    }
+  });
+
+  // Broadcasts are queued here and sent in the background by server/broadcasts.ts
+  app.get('/api/broadcasts', requireAuth, requirePermission('broadcast.send'), async (req, res) => {
+    try {
+      res.json(await storage.getBroadcasts(BROADCAST_LIST_LIMIT));
+    } catch (error) {
+      console.error('Get broadcasts error:', error);
+      res.status(500).json({ message: 'Failed to fetch broadcasts' });
+    }
+  });
+
+  // Progress while sending, and afterwards the report: who it failed for and why
+  app.get('/api/broadcasts/:id', requireAuth, requirePermission('broadcast.send'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const broadcast = await storage.getBroadcastById(id);
+      if (!broadcast) {
+        return res.status(404).json({ message: 'Broadcast not found' });
+      }
+      const failures = await storage.getBroadcastFailures(id, BROADCAST_FAILURE_LIMIT);
+      res.json({ ...broadcast, failures });
     } catch (error) {
-      console.error('Broadcast error:', error);
-      res.status(500).json({ message: 'Failed to send broadcast' });
+      console.error('Get broadcast error:', error);
+      res.status(500).json({ message: 'Failed to fetch broadcast' });
+    }
+  });
+
+  app.post('/api/broadcasts', requireAuth, requirePermission('broadcast.send'), idempotent, async (req, res) => {
+    try {
+      const body = parseBody(createBroadcastSchema, req, res);
+      if (!body) return;
+
+      if (!getBot()) {
+        return res.status(503).json({ message: 'Bot is not initialized' });
+      }
+
+      const content = mergeContent(body);
+      const contentError = broadcastContentError(content);
+      if (contentError) {
+        return res.status(400).json({ message: contentError });
+      }
+
+      const audience = await resolveAudience(body);
+      if (!audience) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+
+      const broadcast = await storage.createBroadcast({ ...content, ...audience, createdBy: req.admin!.id });
+      wakeBroadcastWorker();
+
+      setAuditDetails(res, {
+        entityType: 'broadcast',
+        entityId: broadcast.id,
+        description: `Started a broadcast to ${broadcast.totalRecipients} users (${describeSegment(audience.criteria)}): ${summarizeContent(content)}`,
+      });
+      res.status(201).json(broadcast);
+    } catch (error) {
+      console.error('Create broadcast error:', error);
+      res.status(500).json({ message: 'Failed to start broadcast' });
+    }
+  });
+
+  // Sends a copy to the signed-in admin's own Telegram chat only, to check how it looks
+  app.post('/api/broadcasts/test', requireAuth, requirePermission('broadcast.send'), async (req, res) => {
+    try {
+      const body = parseBody(testBroadcastSchema, req, res);
+      if (!body) return;
+
+      const content = mergeContent(body);
+      const contentError = broadcastContentError(content);
+      if (contentError) {
+        return res.status(400).json({ message: contentError });
+      }
+
+      const admin = await storage.getAdminById(req.admin!.id);
+      if (!admin?.telegramId) {
+        return res.status(400).json({ message: 'Add your Telegram ID in Settings to receive test broadcasts' });
+      }
+      if (!getBot()) {
+        return res.status(503).json({ message: 'Bot is not initialized' });
+      }
+
+      try {
+        await sendAnnouncement(admin.telegramId, content);
+      } catch (error) {
+        // Usually bad Markdown, a media link Telegram can't fetch, or a chat that never started the bot
+        const { description } = getTelegramErrorDetails(error);
+        return res.status(400).json({ message: `Telegram rejected the message: ${description}` });
+      }
+
+      setAuditDetails(res, { entityType: 'broadcast', description: `Sent a test broadcast to themselves: ${summarizeContent(content)}` });
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Test broadcast error:', error);
+      res.status(500).json({ message: 'Failed to send test broadcast' });
+    }
+  });
+
+  app.post('/api/broadcasts/:id/cancel', requireAuth, requirePermission('broadcast.send'), async (req, res) => {
+    try {
+      const broadcast = await storage.cancelBroadcast(parseInt(req.params.id));
+      setAuditDetails(res, {
+        entityType: 'broadcast',
+        entityId: broadcast.id,
+        description: 'Cancelled a broadcast before it finished sending',
+      });
+      res.json(broadcast);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message === 'Broadcast not found') {
+        return res.status(404).json({ message });
+      }
+      if (message === 'Broadcast is not sending') {
+        return res.status(400).json({ message });
+      }
+      console.error('Cancel broadcast error:', error);
+      res.status(500).json({ message: 'Failed to cancel broadcast' });
+    }
+  });
+  
+  // Broadcasts to send later; server/scheduler.ts queues each one when it comes due
+  app.get('/api/broadcast-schedules', requireAuth, requirePermission('broadcast.send'), async (req, res) => {
+    try {
+      res.json(await storage.getUpcomingBroadcastSchedules());
+    } catch (error) {
+      console.error('Get broadcast schedules error:', error);
+      res.status(500).json({ message: 'Failed to fetch scheduled broadcasts' });
+    }
+  });
+
+  app.post('/api/broadcast-schedules', requireAuth, requirePermission('broadcast.send'), idempotent, async (req, res) => {
+    try {
+      const body = parseBody(createBroadcastScheduleSchema, req, res);
+      if (!body) return;
+
+      const content = mergeContent(body);
+      const contentError = broadcastContentError(content);
+      if (contentError) {
+        return res.status(400).json({ message: contentError });
+      }
+
+      const audience = await resolveAudience(body);
+      if (!audience) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+      const plan = planSchedule({
+        repeat: body.repeat,
+        timezone: body.timezone,
+        localDate: body.localDate ?? null,
+        localTime: body.localTime,
+        weekday: body.weekday ?? null,
+      });
+      if ('error' in plan) {
+        return res.status(400).json({ message: plan.error });
+      }
+
+      const schedule = await storage.createBroadcastSchedule({
+        ...content,
+        ...audience,
+        ...plan.timing,
+        nextRunAt: plan.nextRunAt,
+        createdBy: req.admin!.id,
+      });
+      scheduleBroadcast(schedule);
+
+      setAuditDetails(res, {
+        entityType: 'broadcast',
+        entityId: schedule.id,
+        description: `Scheduled a broadcast ${describeTiming(schedule)} (${describeSegment(schedule.criteria)}): ${summarizeContent(schedule)}`,
+        before: null,
+        after: schedule,
+      });
+      res.status(201).json(schedule);
+    } catch (error) {
+      console.error('Create broadcast schedule error:', error);
+      res.status(500).json({ message: 'Failed to schedule broadcast' });
+    }
+  });
+
+  app.patch('/api/broadcast-schedules/:id', requireAuth, requirePermission('broadcast.send'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates = parseBody(updateBroadcastScheduleSchema, req, res);
+      if (!updates) return;
+
+      const existing = await storage.getBroadcastScheduleById(id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Schedule not found' });
+      }
+
+      const content = mergeContent(updates, existing);
+      const contentError = broadcastContentError(content);
+      if (contentError) {
+        return res.status(400).json({ message: contentError });
+      }
+
+      const audienceChanged = updates.segmentId !== undefined || updates.criteria !== undefined;
+      const audience = audienceChanged ? await resolveAudience(updates) : undefined;
+      if (audienceChanged && !audience) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+      const plan = planSchedule({
+        repeat: updates.repeat ?? existing.repeat,
+        timezone: updates.timezone ?? existing.timezone,
+        localDate: updates.localDate !== undefined ? updates.localDate : existing.localDate,
+        localTime: updates.localTime ?? existing.localTime,
+        weekday: updates.weekday !== undefined ? updates.weekday : existing.weekday,
+      });
+      if ('error' in plan) {
+        return res.status(400).json({ message: plan.error });
+      }
+
+      const schedule = await storage.updateBroadcastSchedule(id, {
+        ...content,
+        ...audience,
+        ...plan.timing,
+        nextRunAt: plan.nextRunAt,
+      });
+      scheduleBroadcast(schedule);
+
+      setAuditDetails(res, { entityType: 'broadcast', before: existing, after: schedule });
+      res.json(schedule);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message === 'Schedule not found') {
+        return res.status(404).json({ message });
+      }
+      if (message === 'Schedule is no longer active') {
+        return res.status(400).json({ message });
+      }
+      console.error('Update broadcast schedule error:', error);
+      res.status(500).json({ message: 'Failed to update scheduled broadcast' });
+    }
+  });
+
+  app.post('/api/broadcast-schedules/:id/cancel', requireAuth, requirePermission('broadcast.send'), async (req, res) => {
+    try {
+      const schedule = await storage.cancelBroadcastSchedule(parseInt(req.params.id));
+      scheduleBroadcast(schedule);
+      setAuditDetails(res, {
+        entityType: 'broadcast',
+        entityId: schedule.id,
+        description: `Cancelled a scheduled broadcast (${describeTiming(schedule)})`,
+      });
+      res.json(schedule);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message === 'Schedule not found') {
+        return res.status(404).json({ message });
+      }
+      if (message === 'Schedule is no longer active') {
+        return res.status(400).json({ message });
+      }
+      console.error('Cancel broadcast schedule error:', error);
+      res.status(500).json({ message: 'Failed to cancel scheduled broadcast' });
     }
   });
   
   // Bot settings
-  app.get('/api/settings', requireAuth, async (req, res) => {
+  app.get('/api/settings', requireAuth, requirePermission('settings.view'), async (req, res) => {
     try {
       const botToken = await storage.getBotSetting('bot_token');
       const dailyReward = await storage.getBotSetting('daily_reward_amount');
       const referralReward = await storage.getBotSetting('referral_reward_amount');
+      const onboardingBonus = await storage.getBotSetting('onboarding_bonus_amount');
+      const publicBaseUrl = await storage.getBotSetting('public_base_url');
+      const botMode = await storage.getBotSetting('bot_mode');
+      const flags = await getFeatureFlags();
+      const requireOwner2fa = await storage.getBotSetting(REQUIRE_OWNER_2FA_SETTING);
       
       res.json({
-        botToken: botToken?.value || '',
+        // Only admins who may change the token get to see it
+        botToken: hasPermission(req.admin?.role, 'settings.bot') ? botToken?.value || '' : '',
         dailyRewardAmount: parseInt(dailyReward?.value || '1'),
         referralRewardAmount: parseInt(referralReward?.value || '1'),
+        onboardingBonusAmount: parseInt(onboardingBonus?.value || '5'),
+        publicBaseUrl: publicBaseUrl?.value || '',
+        botMode: botMode?.value || 'auto',
+        activeBotMode: getBotMode(),
+        shopEnabled: flags.shop,
+        rafflesEnabled: flags.raffles,
+        referralsEnabled: flags.referrals,
+        maintenanceMode: flags.maintenance,
+        maintenanceMessage: flags.maintenanceMessage === DEFAULT_MAINTENANCE_MESSAGE ? '' : flags.maintenanceMessage,
+        adminTelegramIds: flags.adminTelegramIds.join(', '),
+        requireTwoFactorForOwners: requireOwner2fa?.value === 'true',
       });
     } catch (error) {
       console.error('Get settings error:', error);
@@ -357,9 +1553,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.patch('/api/settings', requireAuth, async (req, res) => {
+  app.patch('/api/settings', requireAuth, requirePermission('settings.manage'), async (req, res) => {
     try {
-      const { botToken, dailyRewardAmount, referralRewardAmount } = req.body;
+      const body = parseBody(updateSettingsSchema, req, res);
+      if (!body) return;
+      const {
+        botToken, dailyRewardAmount, referralRewardAmount, onboardingBonusAmount, publicBaseUrl, botMode,
+        shopEnabled, rafflesEnabled, referralsEnabled, maintenanceMode, maintenanceMessage, adminTelegramIds,
+        requireTwoFactorForOwners,
+      } = body;
+      let reinitialize = false;
+      const before = await getSettingsSnapshot();
+      
+      const normalizedBaseUrl = typeof publicBaseUrl === 'string' ? publicBaseUrl.trim().replace(/\/+$/, '') : undefined;
+      if (normalizedBaseUrl && !/^https:\/\//.test(normalizedBaseUrl)) {
+        return res.status(400).json({ message: 'Public URL must start with https://' });
+      }
+      
+      if (!hasPermission(req.admin?.role, 'settings.bot')) {
+        const currentBaseUrl = (await storage.getBotSetting('public_base_url'))?.value || '';
+        const currentMode = (await storage.getBotSetting('bot_mode'))?.value || 'auto';
+        const changesConnection = !!botToken
+          || (normalizedBaseUrl !== undefined && normalizedBaseUrl !== currentBaseUrl)
+          || (botMode !== undefined && botMode !== currentMode);
+        if (changesConnection) {
+          return res.status(403).json({ message: 'Only owners can change the bot token, public URL or mode' });
+        }
+      }
+      
+      // Every permission check runs before the first setting is written, so a refused request changes nothing
+      const currentRequiresTwoFactor = before[REQUIRE_OWNER_2FA_SETTING] === 'true';
+      if (typeof requireTwoFactorForOwners === 'boolean' && requireTwoFactorForOwners !== currentRequiresTwoFactor
+        && !hasPermission(req.admin?.role, 'admins.manage')) {
+        return res.status(403).json({ message: 'Only owners can change the two-factor requirement' });
+      }
       
       if (botToken) {
         await storage.setBotSetting({
@@ -367,11 +1594,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
           value: botToken,
           description: 'Telegram bot token',
         });
-        
-        // Reinitialize bot with new token
+        reinitialize = true;
+      }
+      
+      if (normalizedBaseUrl !== undefined) {
+        const current = await storage.getBotSetting('public_base_url');
+        if ((current?.value || '') !== normalizedBaseUrl) {
+          await storage.setBotSetting({
+            key: 'public_base_url',
+            value: normalizedBaseUrl,
+            description: 'Public HTTPS URL Telegram sends webhooks to',
+          });
+          reinitialize = true;
+        }
+      }
+      
+      if (botMode === 'auto' || botMode === 'webhook' || botMode === 'polling') {
+        const current = await storage.getBotSetting('bot_mode');
+        if ((current?.value || 'auto') !== botMode) {
+          await storage.setBotSetting({
+            key: 'bot_mode',
+            value: botMode === 'auto' ? '' : botMode,
+            description: 'How the bot receives updates: webhook or polling',
+          });
+          reinitialize = true;
+        }
+      }
+      
+      if (reinitialize) {
+        // Reinitialize bot with the new token or delivery settings
         try {
           await initializeBot();
-          console.log('Bot reinitialized with new token');
+          console.log('Bot reinitialized with new settings');
         } catch (error) {
           console.log('Bot reinitialization failed:', error);
         }
@@ -393,6 +1647,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      if (onboardingBonusAmount !== undefined && onboardingBonusAmount !== null) {
+        await storage.setBotSetting({
+          key: 'onboarding_bonus_amount',
+          value: onboardingBonusAmount.toString(),
+          description: 'One-time bonus for finishing the bot tutorial',
+        });
+      }
+      
+      const featureSwitches = { shop: shopEnabled, raffles: rafflesEnabled, referrals: referralsEnabled };
+      for (const [feature, enabled] of Object.entries(featureSwitches) as [keyof typeof FEATURE_SETTING_KEYS, unknown][]) {
+        if (typeof enabled === 'boolean') {
+          await storage.setBotSetting({
+            key: FEATURE_SETTING_KEYS[feature],
+            value: String(enabled),
+            description: `Bot switch for ${FEATURE_LABELS[feature].toLowerCase()}`,
+          });
+        }
+      }
+      
+      if (typeof maintenanceMode === 'boolean') {
+        await storage.setBotSetting({
+          key: 'maintenance_mode',
+          value: String(maintenanceMode),
+          description: 'Pauses the bot for everyone except admin Telegram IDs',
+        });
+      }
+      
+      if (typeof maintenanceMessage === 'string') {
+        await storage.setBotSetting({
+          key: 'maintenance_message',
+          value: maintenanceMessage.trim(),
+          description: 'Reply sent to users while maintenance mode is on',
+        });
+      }
+      
+      if (typeof requireTwoFactorForOwners === 'boolean') {
+        await storage.setBotSetting({
+          key: REQUIRE_OWNER_2FA_SETTING,
+          value: String(requireTwoFactorForOwners),
+          description: 'Owners must turn on two-factor authentication to use the admin panel',
+        });
+      }
+      
+      if (typeof adminTelegramIds === 'string') {
+        await storage.setBotSetting({
+          key: 'admin_telegram_ids',
+          value: parseTelegramIds(adminTelegramIds).join(','),
+          description: 'Telegram IDs that can use the bot during maintenance',
+        });
+      }
+      
+      setAuditDetails(res, { before, after: await getSettingsSnapshot() });
       res.json({ message: 'Settings updated successfully' });
     } catch (error) {
       console.error('Update settings error:', error);
@@ -401,9 +1707,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Reset all user points
-  app.post("/api/users/reset-points", requireAuth, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/users/reset-points", requireAuth, requirePermission('users.reset_points'), idempotent, async (req, res) => {
     try {
       await storage.resetAllUserPoints();
+      setAuditDetails(res, { entityType: 'users', description: 'Reset all user coin balances to 0' });
       res.json({ message: 'All user points have been reset to 0' });
     } catch (error) {
       console.error('Reset points error:', error);
@@ -411,13 +1718,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Export users data endpoint
-  app.get("/api/users/export", requireAuth, async (req: AuthenticatedRequest, res) => {
+  // Export users data endpoint; ?segmentId= limits it to a saved segment
+  app.get("/api/users/export", requireAuth, requirePermission('users.export'), async (req, res) => {
     try {
-      const users = await storage.getAllUsers();
+      let users;
+      if (req.query.segmentId) {
+        const segment = await storage.getSegmentById(parseInt(req.query.segmentId as string));
+        if (!segment) {
+          return res.status(404).json({ message: 'Segment not found' });
+        }
+        users = await storage.getSegmentUsers(segment.criteria);
+      } else {
+        users = await storage.getAllUsers();
+      }
       
       // Create CSV content
-      const headers = ['ID', 'Username', 'First Name', 'Last Name', 'Coins', 'Referral Code', 'Referred By', 'Created At', 'Last Reward', 'Streak', 'Active'];
+      const headers = ['ID', 'Username', 'First Name', 'Last Name', 'Coins', 'Referral Code', 'Referred By', 'Created At', 'Last Reward', 'Streak', 'Active', 'Reachability'];
       const rows = users.map(user => [
         user.id,
         user.username || '',
@@ -428,22 +1744,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         user.referredBy || '',
         user.createdAt ? new Date(user.createdAt).toLocaleString('en-US', { timeZone: 'America/Los_Angeles' }) : '',
         user.lastDailyReward ? new Date(user.lastDailyReward).toLocaleString('en-US', { timeZone: 'America/Los_Angeles' }) : '',
-        user.dailyStreak || 0,
-        user.isActive ? 'Yes' : 'No'
+        user.streak,
+        user.isActive ? 'Yes' : 'No',
+        user.reachability,
       ]);
       
-      // Convert to CSV format
-      const csvContent = [
-        headers.join(','),
-        ...rows.map(row => row.map(cell => {
-          // Escape cells that contain commas or quotes
-          const cellStr = String(cell);
-          if (cellStr.includes(',') || cellStr.includes('"') || cellStr.includes('\n')) {
-            return `"${cellStr.replace(/"/g, '""')}"`;
-          }
-          return cellStr;
-        }).join(','))
-      ].join('\n');
+      const csvContent = toCsv(headers, rows);
       
       // Set headers for file download
       res.setHeader('Content-Type', 'text/csv');
@@ -455,32 +1761,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Broadcast message endpoint
-  app.post("/api/broadcast", requireAuth, async (req: AuthenticatedRequest, res) => {
+  // Admin audit log
+  app.get("/api/audit-log", requireAuth, requirePermission('audit.view'), async (req, res) => {
     try {
-      const { message } = req.body;
-      
-      if (!message || typeof message !== 'string' || !message.trim()) {
-        return res.status(400).json({ message: 'Message is required' });
-      }
+      const entries = await storage.getAuditLog(parseAuditLogFilters(req.query));
+      res.json(entries);
+    } catch (error) {
+      console.error('Get audit log error:', error);
+      res.status(500).json({ message: 'Failed to fetch audit log' });
+    }
+  });
 
-      console.log('Broadcasting message:', message);
-      const { broadcastMessage } = await import('./bot');
-      const result = await broadcastMessage(message);
-      console.log('Broadcast result:', result);
+  app.get("/api/audit-log/export", requireAuth, requirePermission('audit.view'), async (req, res) => {
+    try {
+      const entries = await storage.getAuditLog({ ...parseAuditLogFilters(req.query), limit: 10000 });
       
-      res.json({ 
-        success: result.success,
-        failed: result.failed
-      });
-    } catch (error: any) {
-      console.error('Broadcast message error:', error);
-      res.status(500).json({ message: error.message || 'Failed to broadcast message' });
+      const headers = ['Time', 'Admin', 'Method', 'Path', 'Status', 'Entity', 'Entity ID', 'Description', 'Changes', 'IP'];
+      const rows = entries.map(entry => [
+        new Date(entry.createdAt).toISOString(),
+        entry.admin?.username || '',
+        entry.method,
+        entry.path,
+        entry.statusCode,
+        entry.entityType || '',
+        entry.entityId || '',
+        entry.description || '',
+        entry.changes ? JSON.stringify(entry.changes) : '',
+        entry.ip || '',
+      ]);
+      
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', 'attachment; filename="admin_audit_log.csv"');
+      res.send(toCsv(headers, rows));
+    } catch (error) {
+      console.error('Export audit log error:', error);
+      res.status(500).json({ message: 'Failed to export audit log' });
     }
   });
 
   // Bot status endpoint
-  app.get("/api/bot/status", async (req: Request, res) => {
+  app.get("/api/bot/status", async (req, res) => {
     const bot = getBot();
     const botTokenSetting = await storage.getBotSetting('bot_token');
     const hasToken = !!botTokenSetting?.value || !!process.env.BOT_TOKEN || !!process.env.TELEGRAM_BOT_TOKEN;
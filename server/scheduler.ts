@@ -0,0 +1,239 @@
+import type { Raffle, BroadcastSchedule } from '@shared/schema';
+import { nextOccurrence } from '@shared/broadcast-schedules';
+import { storage } from './storage';
+import { getBot, notifyRaffleResults } from './bot';
+import { LOGIN_ATTEMPT_RETENTION_DAYS } from './login-protection';
+import { IDEMPOTENCY_KEY_RETENTION_HOURS } from './idempotency';
+import { runLedgerReconciliation } from './ledger';
+import { wakeBroadcastWorker } from './broadcasts';
+
+// In-process job scheduler. Jobs live only in memory; everything they act on is
+// persisted, so restoreScheduledJobs() can rebuild the whole schedule after a restart.
+
+type JobHandler = () => Promise<void>;
+
+interface ScheduledJob {
+  key: string;
+  runAt: Date;
+  timer: NodeJS.Timeout;
+}
+
+// setTimeout overflows past ~24.8 days, so long waits are armed in chunks
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+const jobs = new Map<string, ScheduledJob>();
+
+function arm(key: string, runAt: Date, handler: JobHandler) {
+  const delay = Math.max(0, runAt.getTime() - Date.now());
+  const timer = setTimeout(() => {
+    if (delay > MAX_TIMER_DELAY) {
+      arm(key, runAt, handler);
+      return;
+    }
+    jobs.delete(key);
+    handler().catch(error => {
+      console.error(`Scheduled job ${key} failed:`, error);
+    });
+  }, Math.min(delay, MAX_TIMER_DELAY));
+
+  jobs.set(key, { key, runAt, timer });
+}
+
+// Replaces any job already registered under the same key. Past dates run immediately.
+export function scheduleJob(key: string, runAt: Date, handler: JobHandler) {
+  cancelJob(key);
+  arm(key, runAt, handler);
+}
+
+// Runs `handler` every `intervalMs`, starting one interval from now
+export function scheduleRecurringJob(key: string, intervalMs: number, handler: JobHandler) {
+  scheduleJob(key, new Date(Date.now() + intervalMs), async () => {
+    try {
+      await handler();
+    } finally {
+      scheduleRecurringJob(key, intervalMs, handler);
+    }
+  });
+}
+
+export function cancelJob(key: string) {
+  const job = jobs.get(key);
+  if (job) {
+    clearTimeout(job.timer);
+    jobs.delete(key);
+  }
+}
+
+export function getScheduledJobs(): { key: string; runAt: Date }[] {
+  return Array.from(jobs.values())
+    .map(({ key, runAt }) => ({ key, runAt }))
+    .sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+}
+
+export function stopScheduler() {
+  for (const job of Array.from(jobs.values())) {
+    clearTimeout(job.timer);
+  }
+  jobs.clear();
+}
+
+function raffleJobKey(raffleId: number) {
+  return `raffle-close:${raffleId}`;
+}
+
+// Sends result DMs once per raffle. The claim in storage keeps a second replica
+// (or a retry after restart) from messaging everyone twice.
+export async function announceRaffleResults(raffleId: number) {
+  if (!getBot()) {
+    // Leave the raffle unclaimed so the next boot with a working bot picks it up
+    console.log(`Bot not available, postponing result notifications for raffle ${raffleId}`);
+    return;
+  }
+
+  if (!(await storage.markRaffleResultsNotified(raffleId))) {
+    return;
+  }
+
+  const raffle = await storage.getRaffleById(raffleId);
+  if (!raffle) return;
+
+  const winners = await storage.getRaffleWinners(raffleId);
+  const participants = await storage.getRaffleParticipants(raffleId);
+  const result = await notifyRaffleResults(raffle, winners, participants);
+  console.log(`Raffle ${raffleId} results sent:`, result);
+}
+
+// Ends a raffle at its deadline: draws the winner (which also deactivates it) and notifies everyone
+export async function closeRaffle(raffleId: number) {
+  const raffle = await storage.getRaffleById(raffleId);
+  if (!raffle) return;
+
+  if (!raffle.drawnAt) {
+    // An admin paused the raffle before it ended; leave it for them to handle
+    if (!raffle.isActive) return;
+
+    try {
+      await storage.drawRaffleWinner(raffleId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message === 'Raffle has no entries') {
+        await storage.updateRaffle(raffleId, { isActive: false });
+        console.log(`Raffle ${raffleId} closed without entries`);
+        return;
+      }
+      // Another instance drew it first; fall through to notifications
+      if (message !== 'Raffle has already been drawn') {
+        throw error;
+      }
+    }
+  }
+
+  await announceRaffleResults(raffleId);
+}
+
+// Keeps the close job in line with the raffle's current state after it is created or edited
+export function scheduleRaffleClose(raffle: Raffle) {
+  if (raffle.isActive && !raffle.drawnAt) {
+    scheduleJob(raffleJobKey(raffle.id), new Date(raffle.endDate), () => closeRaffle(raffle.id));
+  } else {
+    cancelJob(raffleJobKey(raffle.id));
+  }
+}
+
+function broadcastScheduleJobKey(scheduleId: number) {
+  return `broadcast-schedule:${scheduleId}`;
+}
+
+// Queues the broadcast for a schedule that has come due, then arms the next send. If the server
+// was down at the time, the missed send goes out once on startup; repeats don't pile up.
+export async function runBroadcastSchedule(scheduleId: number) {
+  const schedule = await storage.getBroadcastScheduleById(scheduleId);
+  if (!schedule || schedule.status !== 'scheduled' || !schedule.nextRunAt) return;
+
+  // Edited to a later time since this job was armed
+  if (schedule.nextRunAt.getTime() > Date.now()) {
+    scheduleBroadcast(schedule);
+    return;
+  }
+
+  const next = schedule.repeat === 'none' ? null : nextOccurrence(schedule, new Date());
+  const result = await storage.runBroadcastSchedule(schedule.id, schedule.nextRunAt, next);
+  if (!result) return;
+
+  console.log(`Schedule ${schedule.id} started broadcast ${result.broadcast.id} to ${result.broadcast.totalRecipients} users`);
+  wakeBroadcastWorker();
+  scheduleBroadcast(result.schedule);
+}
+
+// Keeps the send job in line with the schedule after it is created, edited or cancelled
+export function scheduleBroadcast(schedule: BroadcastSchedule) {
+  if (schedule.status === 'scheduled' && schedule.nextRunAt) {
+    scheduleJob(broadcastScheduleJobKey(schedule.id), schedule.nextRunAt, () => runBroadcastSchedule(schedule.id));
+  } else {
+    cancelJob(broadcastScheduleJobKey(schedule.id));
+  }
+}
+
+// Expired conversation states are already ignored on read; this just keeps the table small
+async function purgeExpiredConversations() {
+  const purged = await storage.deleteExpiredConversationStates();
+  if (purged > 0) {
+    console.log(`Purged ${purged} expired conversation state${purged === 1 ? '' : 's'}`);
+  }
+}
+
+// Expired and signed-out admin sessions can never be used again
+async function purgeStaleAdminSessions() {
+  const purged = await storage.deleteStaleAdminSessions();
+  if (purged > 0) {
+    console.log(`Purged ${purged} stale admin session${purged === 1 ? '' : 's'}`);
+  }
+}
+
+// Old attempts no longer affect backoff; a month is kept for looking into incidents
+async function purgeOldLoginAttempts() {
+  const before = new Date(Date.now() - LOGIN_ATTEMPT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const purged = await storage.deleteLoginAttemptsBefore(before);
+  if (purged > 0) {
+    console.log(`Purged ${purged} old login attempt${purged === 1 ? '' : 's'}`);
+  }
+}
+
+// Retries arrive within seconds or minutes; a day covers any sensible client
+async function purgeOldIdempotencyKeys() {
+  const before = new Date(Date.now() - IDEMPOTENCY_KEY_RETENTION_HOURS * 60 * 60 * 1000);
+  const purged = await storage.deleteIdempotencyKeysBefore(before);
+  if (purged > 0) {
+    console.log(`Purged ${purged} old idempotency key${purged === 1 ? '' : 's'}`);
+  }
+}
+
+export async function restoreScheduledJobs() {
+  scheduleRecurringJob('conversation-purge', 60 * 60 * 1000, purgeExpiredConversations);
+  scheduleRecurringJob('admin-session-purge', 60 * 60 * 1000, purgeStaleAdminSessions);
+  scheduleRecurringJob('login-attempt-purge', 60 * 60 * 1000, purgeOldLoginAttempts);
+  scheduleRecurringJob('idempotency-key-purge', 60 * 60 * 1000, purgeOldIdempotencyKeys);
+  scheduleRecurringJob('ledger-reconciliation', 60 * 60 * 1000, async () => {
+    await runLedgerReconciliation();
+  });
+
+  // Picks up broadcasts that were still sending when the server stopped
+  wakeBroadcastWorker();
+
+  for (const schedule of await storage.getUpcomingBroadcastSchedules()) {
+    scheduleBroadcast(schedule);
+  }
+
+  const pending = await storage.getRafflesPendingClose();
+
+  for (const raffle of pending) {
+    if (raffle.drawnAt) {
+      // Drawn before the last shutdown but never announced
+      scheduleJob(raffleJobKey(raffle.id), new Date(), () => announceRaffleResults(raffle.id));
+    } else {
+      scheduleRaffleClose(raffle);
+    }
+  }
+
+  console.log(`Scheduler restored ${jobs.size} job${jobs.size === 1 ? '' : 's'}`);
+}
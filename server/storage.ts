@@ -7,6 +7,19 @@ import {
   shopItems, 
   purchases, 
   botSettings,
+  raffleWinners,
+  conversationStates,
+  shopItemCodes,
+  adminAuditLog,
+  adminSessions,
+  loginAttempts,
+  ledgerEntries,
+  ledgerReconciliations,
+  idempotencyKeys,
+  broadcasts,
+  broadcastDeliveries,
+  broadcastSchedules,
+  segments,
   type User, 
   type InsertUser,
   type Admin,
@@ -19,13 +32,43 @@ import {
   type InsertRaffleEntry,
   type ShopItem,
   type InsertShopItem,
+  type ShopItemCode,
   type Purchase,
   type InsertPurchase,
   type BotSetting,
-  type InsertBotSetting
+  type InsertBotSetting,
+  type RaffleWinner,
+  type RaffleDrawProof,
+  type ConversationStateRow,
+  type InsertConversationState,
+  type AdminAuditLogEntry,
+  type InsertAdminAuditLogEntry,
+  type LoginAttempt,
+  type InsertLoginAttempt,
+  type AdminSession,
+  type InsertAdminSession,
+  type IdempotencyKey,
+  type Broadcast,
+  type InsertBroadcast,
+  type BroadcastDelivery,
+  type BroadcastSchedule,
+  type InsertBroadcastSchedule,
+  type Segment,
+  type InsertSegment,
+  type InsertIdempotencyKey,
+  type TransactionType,
+  type UserReachability,
+  type LedgerAccount,
+  type LedgerReconciliation,
+  type InsertLedgerReconciliation
 } from "@shared/schema";
+import type { SegmentCriteria } from "@shared/segments";
+import type { BroadcastContent } from "@shared/broadcast-content";
 import { db } from "./db";
-import { eq, desc, and, sum, count, sql, avg } from "drizzle-orm";
+import { drawWinners, generateDrawSeed } from "./raffle-draw";
+import { TUTORIAL_STEPS } from "./tutorial";
+import { eq, ne, asc, desc, and, or, sum, count, countDistinct, max, min, sql, avg, isNull, isNotNull, gt, gte, lt, lte, ilike, inArray, type SQL } from "drizzle-orm";
+import { alias, type AnyPgColumn } from "drizzle-orm/pg-core";
 
 // Helper function to convert date to PST
 function toPST(date: Date): Date {
@@ -35,6 +78,14 @@ function toPST(date: Date): Date {
   return new Date(utcTime + pstOffset);
 }
 
+// When the PST day `daysAgo` days before today began
+function startOfPSTDay(daysAgo: number): Date {
+  const now = new Date();
+  const nowPST = toPST(now);
+  const dayStartPST = new Date(nowPST.getFullYear(), nowPST.getMonth(), nowPST.getDate() - daysAgo);
+  return new Date(dayStartPST.getTime() - (nowPST.getTime() - now.getTime()));
+}
+
 // Helper function to check if user can claim daily reward (PST-based)
 function canClaimDailyReward(lastReward: Date | null): boolean {
   if (!lastReward) return true;
@@ -48,27 +99,407 @@ function canClaimDailyReward(lastReward: Date | null): boolean {
   return todayPST.getTime() > lastRewardDayPST.getTime();
 }
 
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// The ledger account on the other side of a user's coin movement
+type Counterparty =
+  | { account: 'system_mint' }
+  | { account: 'raffle_pool'; raffleId: number }
+  | { account: 'shop_sink'; itemId: number };
+
+interface CoinMovement {
+  userId: number;
+  // From the user's side: positive adds coins to their wallet
+  amount: number;
+  type: TransactionType;
+  description: string;
+  metadata?: Record<string, unknown>;
+  counterparty: Counterparty;
+}
+
+function counterpartyAccount(counterparty: Counterparty): { account: LedgerAccount; accountId: number | null } {
+  switch (counterparty.account) {
+    case 'raffle_pool': return { account: 'raffle_pool', accountId: counterparty.raffleId };
+    case 'shop_sink': return { account: 'shop_sink', accountId: counterparty.itemId };
+    default: return { account: 'system_mint', accountId: null };
+  }
+}
+
+// The only way a balance changes. Runs inside the caller's database transaction and writes
+// users.coins, the transactions row and a balanced pair of ledger entries together, so the
+// reconciliation job can rebuild every balance from the ledger.
+async function moveCoins(tx: DbTransaction, movement: CoinMovement): Promise<User> {
+  const [user] = await tx
+    .update(users)
+    .set({ coins: sql`${users.coins} + ${movement.amount}`, updatedAt: new Date() })
+    .where(and(eq(users.id, movement.userId), sql`${users.coins} + ${movement.amount} >= 0`))
+    .returning();
+  if (!user) {
+    throw new Error('Insufficient coins');
+  }
+
+  const [transaction] = await tx
+    .insert(transactions)
+    .values({
+      userId: movement.userId,
+      type: movement.type,
+      amount: movement.amount,
+      description: movement.description,
+      metadata: movement.metadata,
+    })
+    .returning();
+
+  await tx.insert(ledgerEntries).values([
+    { transactionId: transaction.id, account: 'user_wallet', accountId: movement.userId, amount: movement.amount },
+    { transactionId: transaction.id, ...counterpartyAccount(movement.counterparty), amount: -movement.amount },
+  ]);
+
+  return user;
+}
+
+export interface BalanceMismatch {
+  userId: number;
+  telegramId: string;
+  username: string | null;
+  firstName: string | null;
+  balance: number;
+  ledgerBalance: number;
+}
+
+export interface BroadcastSummary extends Broadcast {
+  sent: number;
+  failed: number;
+  pending: number;
+}
+
+export interface BroadcastFailure {
+  userId: number;
+  telegramId: string;
+  username: string | null;
+  firstName: string | null;
+  attempts: number;
+  error: string | null;
+}
+
+// A delivery the broadcast worker is about to send, with the text to send
+export type DueBroadcastDelivery = BroadcastDelivery & BroadcastContent;
+
+export interface AuditLogFilters {
+  search?: string;
+  entityType?: string;
+  adminId?: number;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export type SortOrder = 'asc' | 'desc';
+
+// Balances can't be set directly; they only move through the ledger
+export type UserUpdates = Partial<Omit<User, 'coins'>>;
+
+export interface UserListFilters {
+  // Matches username, first or last name, Telegram ID or referral code
+  search?: string;
+  isActive?: boolean;
+  reachability?: UserReachability;
+  // Only users who joined through a referral (true) or directly (false)
+  referred?: boolean;
+  minCoins?: number;
+  maxCoins?: number;
+  // Join date
+  from?: Date;
+  to?: Date;
+  sort?: 'createdAt' | 'coins';
+  order?: SortOrder;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface TransactionListFilters {
+  // Matches the description or the user's username, name, Telegram ID or referral code
+  search?: string;
+  type?: TransactionType;
+  userId?: number;
+  from?: Date;
+  to?: Date;
+  minAmount?: number;
+  maxAmount?: number;
+  sort?: 'createdAt' | 'amount';
+  order?: SortOrder;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  // Pass back as `cursor` for the next page; null on the last page
+  nextCursor: string | null;
+}
+
+export interface TransactionListItem extends Transaction {
+  user: Pick<User, 'id' | 'telegramId' | 'username' | 'firstName' | 'lastName'> | null;
+}
+
+export interface TransactionSummary {
+  total: number;
+  // Number of transactions that added or removed coins
+  earned: number;
+  spent: number;
+  net: number;
+  byType: Record<string, number>;
+}
+
+export interface DailyActivity {
+  // YYYY-MM-DD, UTC
+  date: string;
+  registrations: number;
+  dailyActive: number;
+}
+
+type UserName = Pick<User, 'id' | 'username' | 'firstName' | 'lastName' | 'referralCode'>;
+
+export interface ReferralStats {
+  totalUsers: number;
+  referredUsers: number;
+  // Referral rewards paid, and how many different users earned them
+  totalReferrals: number;
+  uniqueReferrers: number;
+  topReferrers: { referralCode: string; referrer: UserName | null; count: number }[];
+  recentReferrals: { user: UserName; referredBy: string; referrer: UserName | null }[];
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+// Cursors hold the last row's sort value (as Postgres text, so timestamps keep their
+// microseconds) and its id. Paging by value rather than offset keeps pages stable while
+// new users and transactions come in.
+function encodeCursor(sortValue: string, id: number): string {
+  return Buffer.from(JSON.stringify([sortValue, id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): [string, number] {
+  try {
+    const [sortValue, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (typeof sortValue === 'string' && Number.isInteger(id)) return [sortValue, id];
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid cursor');
+}
+
+// Rows that come after the cursor when ordering by (column, id)
+function afterCursor(column: AnyPgColumn, idColumn: AnyPgColumn, order: SortOrder, cursor: string): SQL {
+  const [sortValue, id] = decodeCursor(cursor);
+  const operator = sql.raw(order === 'asc' ? '>' : '<');
+  return or(
+    sql`${column} ${operator} ${sortValue}`,
+    and(sql`${column} = ${sortValue}`, sql`${idColumn} ${operator} ${id}`),
+  )!;
+}
+
+function pageLimit(limit?: number): number {
+  if (!limit || limit < 1) return DEFAULT_PAGE_SIZE;
+  return Math.min(Math.floor(limit), MAX_PAGE_SIZE);
+}
+
+// Rows are fetched with one extra to tell whether another page follows
+function toPage<T extends { id: number }>(rows: { item: T; sortValue: string }[], limit: number): Page<T> {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items: items.map(row => row.item),
+    nextCursor: rows.length > limit && last ? encodeCursor(last.sortValue, last.item.id) : null,
+  };
+}
+
+const DELIVERY_INSERT_BATCH = 1000;
+
+// A claimed idempotency key still unfinished after this long belongs to a request that died
+// midway, so a retry may take it over
+const IDEMPOTENCY_CLAIM_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Each broadcast with its deliveries counted by status
+function broadcastSummaryQuery() {
+  return db
+    .select({
+      broadcast: broadcasts,
+      sent: count(sql`CASE WHEN ${broadcastDeliveries.status} = 'sent' THEN 1 END`),
+      failed: count(sql`CASE WHEN ${broadcastDeliveries.status} = 'failed' THEN 1 END`),
+      pending: count(sql`CASE WHEN ${broadcastDeliveries.status} = 'pending' THEN 1 END`),
+    })
+    .from(broadcasts)
+    .leftJoin(broadcastDeliveries, eq(broadcastDeliveries.broadcastId, broadcasts.id))
+    .groupBy(broadcasts.id)
+    .$dynamic();
+}
+
+function toBroadcastSummary(row: { broadcast: Broadcast; sent: number; failed: number; pending: number }): BroadcastSummary {
+  return { ...row.broadcast, sent: Number(row.sent), failed: Number(row.failed), pending: Number(row.pending) };
+}
+
+function userListConditions(filters: UserListFilters): (SQL | undefined)[] {
+  const conditions: (SQL | undefined)[] = [];
+  if (filters.search) {
+    const pattern = `%${filters.search}%`;
+    conditions.push(or(
+      ilike(users.username, pattern),
+      ilike(users.firstName, pattern),
+      ilike(users.lastName, pattern),
+      ilike(users.telegramId, pattern),
+      ilike(users.referralCode, pattern),
+    ));
+  }
+  if (filters.isActive !== undefined) conditions.push(eq(users.isActive, filters.isActive));
+  if (filters.reachability) conditions.push(eq(users.reachability, filters.reachability));
+  if (filters.referred !== undefined) conditions.push(filters.referred ? isNotNull(users.referredBy) : isNull(users.referredBy));
+  if (filters.minCoins !== undefined) conditions.push(gte(users.coins, filters.minCoins));
+  if (filters.maxCoins !== undefined) conditions.push(lte(users.coins, filters.maxCoins));
+  if (filters.from) conditions.push(gte(users.createdAt, filters.from));
+  if (filters.to) conditions.push(lte(users.createdAt, filters.to));
+  return conditions;
+}
+
+// Users matching every criterion that is set; see shared/segments.ts
+function segmentConditions(criteria: SegmentCriteria): (SQL | undefined)[] {
+  const conditions: (SQL | undefined)[] = [];
+  if (criteria.coinsAbove !== undefined) conditions.push(gt(users.coins, criteria.coinsAbove));
+  if (criteria.streakBroken) {
+    // Check-in days are PST days, so anyone whose last check-in was before yesterday has missed one
+    conditions.push(gte(users.streak, 2), lt(users.lastDailyReward, startOfPSTDay(1)));
+  }
+  if (criteria.joinedWithinDays !== undefined) {
+    conditions.push(gte(users.createdAt, new Date(Date.now() - criteria.joinedWithinDays * 24 * 60 * 60 * 1000)));
+  }
+  if (criteria.enteredRaffleId !== undefined) {
+    conditions.push(inArray(users.id, db
+      .select({ userId: raffleEntries.userId })
+      .from(raffleEntries)
+      .where(eq(raffleEntries.raffleId, criteria.enteredRaffleId))));
+  }
+  if (criteria.boughtItemId !== undefined) {
+    conditions.push(inArray(users.id, db
+      .select({ userId: purchases.userId })
+      .from(purchases)
+      .where(and(eq(purchases.itemId, criteria.boughtItemId), ne(purchases.status, 'cancelled')))));
+  }
+  if (criteria.isReferrer) {
+    const referred = alias(users, 'referred');
+    conditions.push(inArray(users.referralCode, db
+      .select({ referralCode: referred.referredBy })
+      .from(referred)
+      .where(isNotNull(referred.referredBy))));
+  }
+  if (criteria.onboardingIncomplete) conditions.push(eq(users.onboardingCompleted, false));
+  return conditions;
+}
+
+// Saves the broadcast with a pending delivery for every active user in its audience. Who
+// receives it is fixed here, so users who join while it is sending don't get it halfway through.
+async function queueBroadcast(tx: DbTransaction, broadcast: InsertBroadcast): Promise<Broadcast> {
+  const [created] = await tx.insert(broadcasts).values(broadcast).returning();
+
+  const recipients = await tx
+    .select({ userId: users.id, chatId: users.telegramId })
+    .from(users)
+    .where(and(eq(users.isActive, true), eq(users.reachability, 'reachable'), ...segmentConditions(created.criteria)));
+  // Keeps each insert well under Postgres' limit on query parameters
+  for (let i = 0; i < recipients.length; i += DELIVERY_INSERT_BATCH) {
+    await tx.insert(broadcastDeliveries).values(
+      recipients.slice(i, i + DELIVERY_INSERT_BATCH).map(recipient => ({ broadcastId: created.id, ...recipient }))
+    );
+  }
+
+  const [updated] = await tx
+    .update(broadcasts)
+    .set(recipients.length > 0
+      ? { totalRecipients: recipients.length }
+      : { status: 'completed', completedAt: new Date() })
+    .where(eq(broadcasts.id, created.id))
+    .returning();
+  return updated;
+}
+
+function transactionListConditions(filters: TransactionListFilters): (SQL | undefined)[] {
+  const conditions: (SQL | undefined)[] = [];
+  if (filters.search) {
+    const pattern = `%${filters.search}%`;
+    conditions.push(or(
+      ilike(transactions.description, pattern),
+      ilike(users.username, pattern),
+      ilike(users.firstName, pattern),
+      ilike(users.lastName, pattern),
+      ilike(users.telegramId, pattern),
+      ilike(users.referralCode, pattern),
+    ));
+  }
+  if (filters.type) conditions.push(eq(transactions.type, filters.type));
+  if (filters.userId) conditions.push(eq(transactions.userId, filters.userId));
+  if (filters.from) conditions.push(gte(transactions.createdAt, filters.from));
+  if (filters.to) conditions.push(lte(transactions.createdAt, filters.to));
+  if (filters.minAmount !== undefined) conditions.push(gte(transactions.amount, filters.minAmount));
+  if (filters.maxAmount !== undefined) conditions.push(lte(transactions.amount, filters.maxAmount));
+  return conditions;
+}
+
 export interface IStorage {
   // User operations
   getUserById(id: number): Promise<User | undefined>;
   getUserByTelegramId(telegramId: string): Promise<User | undefined>;
   getUserByReferralCode(referralCode: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  updateUser(telegramId: string, updates: Partial<User>): Promise<User>;
-  updateUserById(id: number, updates: Partial<User>): Promise<User>;
+  updateUser(telegramId: string, updates: UserUpdates): Promise<User>;
+  updateUserById(id: number, updates: UserUpdates): Promise<User>;
+  setUserReachability(telegramId: string, reachability: UserReachability): Promise<void>;
   getAllUsers(): Promise<User[]>;
+  getUsersPage(filters?: UserListFilters): Promise<Page<User>>;
+  getReferralStats(): Promise<ReferralStats>;
   getUserStats(): Promise<{ totalUsers: number; activeUsers: number; totalCoins: number }>;
-  awardReward(telegramId: string, amount: number, type: string, description: string): Promise<User>;
+  awardReward(telegramId: string, amount: number, type: TransactionType, description: string): Promise<User>;
+  adjustCoins(userId: number, amount: number, description: string): Promise<{ before: User; user: User }>;
   claimDaily(telegramId: string, amount: number): Promise<User>;
+  buyRaffleEntries(telegramId: string, raffleId: number, quantity?: number): Promise<{ user: User; raffle: Raffle; entry: RaffleEntry }>;
+  buyShopItem(telegramId: string, itemId: number): Promise<{ user: User; item: ShopItem; purchase: Purchase; code: ShopItemCode | null }>;
   
   // Admin operations
   getAdminByUsername(username: string): Promise<Admin | undefined>;
+  getAdminById(id: number): Promise<Admin | undefined>;
+  getAllAdmins(): Promise<Admin[]>;
   createAdmin(admin: InsertAdmin): Promise<Admin>;
+  updateAdmin(id: number, updates: Partial<Admin>): Promise<Admin>;
+  deleteAdmin(id: number): Promise<void>;
+  consumeTotpStep(adminId: number, step: number): Promise<boolean>;
+  consumeRecoveryCode(adminId: number, codeHash: string): Promise<boolean>;
+  
+  recordFailedAdminLogin(adminId: number, lockThreshold: number, lockUntil: Date): Promise<Admin>;
+  
+  // Login attempts
+  createLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt>;
+  getLoginFailures(filter: { username?: string; ip?: string }, since: Date): Promise<{ count: number; lastFailureAt: Date | null }>;
+  deleteLoginAttemptsBefore(before: Date): Promise<number>;
+  
+  // Admin sessions
+  createAdminSession(session: InsertAdminSession): Promise<AdminSession>;
+  getAdminSession(id: number): Promise<AdminSession | undefined>;
+  findAdminSessionByTokenHash(tokenHash: string): Promise<AdminSession | undefined>;
+  rotateAdminSession(id: number, currentHash: string, nextHash: string, expiresAt: Date): Promise<AdminSession | undefined>;
+  getActiveAdminSessions(adminId: number): Promise<AdminSession[]>;
+  revokeAdminSession(adminId: number, sessionId: number): Promise<boolean>;
+  revokeAdminSessions(adminId: number, exceptSessionId?: number): Promise<number>;
+  deleteStaleAdminSessions(): Promise<number>;
+  
+  // Idempotency keys
+  claimIdempotencyKey(claim: InsertIdempotencyKey): Promise<{ record: IdempotencyKey; claimed: boolean }>;
+  completeIdempotencyKey(id: number, responseStatus: number | null, response: unknown): Promise<void>;
+  releaseIdempotencyKey(id: number): Promise<void>;
+  deleteIdempotencyKeysBefore(before: Date): Promise<number>;
   
   // Transaction operations
-  createTransaction(transaction: InsertTransaction): Promise<Transaction>;
   getUserTransactions(userId: number): Promise<Transaction[]>;
   getAllTransactions(): Promise<Transaction[]>;
+  getTransactionsPage(filters?: TransactionListFilters): Promise<Page<TransactionListItem>>;
+  getTransactionSummary(filters?: TransactionListFilters): Promise<TransactionSummary>;
   
   // Raffle operations
   createRaffle(raffle: InsertRaffle): Promise<Raffle>;
@@ -77,15 +508,28 @@ export interface IStorage {
   getRaffleById(id: number): Promise<Raffle | undefined>;
   updateRaffle(id: number, updates: Partial<Raffle>): Promise<Raffle>;
   enterRaffle(entry: InsertRaffleEntry): Promise<RaffleEntry>;
+  getUserRaffleEntry(raffleId: number, userId: number): Promise<RaffleEntry | undefined>;
   getRaffleEntries(raffleId: number): Promise<any[]>;
+  drawRaffleWinner(raffleId: number, winnerCount?: number): Promise<{ raffle: Raffle; winners: RaffleWinner[]; proof: RaffleDrawProof }>;
+  getRaffleWinners(raffleId: number): Promise<any[]>;
+  getRaffleParticipants(raffleId: number): Promise<User[]>;
+  getRafflesPendingClose(): Promise<Raffle[]>;
+  markRaffleResultsNotified(raffleId: number): Promise<boolean>;
   
   // Shop operations
   createShopItem(item: InsertShopItem): Promise<ShopItem>;
   getAllShopItems(): Promise<ShopItem[]>;
   getActiveShopItems(): Promise<ShopItem[]>;
   updateShopItem(id: number, updates: Partial<ShopItem>): Promise<ShopItem>;
+  getShopItemCodes(itemId: number): Promise<any[]>;
+  addShopItemCodes(itemId: number, codes: string[]): Promise<{ added: number; skipped: number; item: ShopItem }>;
+  deleteShopItemCode(itemId: number, codeId: number): Promise<ShopItem>;
   createPurchase(purchase: InsertPurchase): Promise<Purchase>;
   getUserPurchases(userId: number): Promise<Purchase[]>;
+  getPurchaseById(id: number): Promise<Purchase | undefined>;
+  getPurchases(filters?: { status?: string; itemId?: number; userId?: number }): Promise<any[]>;
+  fulfillPurchase(purchaseId: number, note?: string): Promise<{ purchase: Purchase; user: User; item: ShopItem }>;
+  cancelPurchase(purchaseId: number, note?: string): Promise<{ purchase: Purchase; user: User; item: ShopItem }>;
   
   // Bot settings
   getBotSetting(key: string): Promise<BotSetting | undefined>;
@@ -93,6 +537,26 @@ export interface IStorage {
   getSettings(): Promise<Record<string, any>>;
   updateSettings(updates: Record<string, any>): Promise<void>;
   
+  // Conversation state
+  getConversationState(telegramId: string): Promise<ConversationStateRow | undefined>;
+  setConversationState(state: InsertConversationState): Promise<ConversationStateRow>;
+  deleteConversationState(telegramId: string): Promise<void>;
+  getActiveConversationStates(): Promise<any[]>;
+  deleteExpiredConversationStates(): Promise<number>;
+  
+  // Admin audit log
+  createAuditLogEntry(entry: InsertAdminAuditLogEntry): Promise<AdminAuditLogEntry>;
+  getAuditLog(filters?: AuditLogFilters): Promise<any[]>;
+  
+  // Onboarding
+  claimOnboardingBonus(telegramId: string, amount: number): Promise<{ user: User; awarded: boolean }>;
+  getOnboardingFunnel(): Promise<{
+    totalUsers: number;
+    completed: number;
+    notStarted: number;
+    steps: { step: number; key: string; title: string; reached: number; droppedHere: number }[];
+  }>;
+  
   // Dashboard stats
   getDashboardStats(): Promise<{
     totalUsers: number;
@@ -101,6 +565,43 @@ export interface IStorage {
     dailyLogins: number;
     recentUsers: User[];
   }>;
+  getDailyActivity(days: number): Promise<DailyActivity[]>;
+  
+  // Ledger reconciliation
+  getBalanceMismatches(): Promise<BalanceMismatch[]>;
+  countUnbalancedTransactions(): Promise<number>;
+  createLedgerReconciliation(result: InsertLedgerReconciliation): Promise<LedgerReconciliation>;
+  getLatestLedgerReconciliation(): Promise<LedgerReconciliation | undefined>;
+  deleteLedgerReconciliationsBefore(before: Date): Promise<number>;
+  
+  // Audience segments
+  getSegments(): Promise<Segment[]>;
+  getSegmentById(id: number): Promise<Segment | undefined>;
+  getSegmentByName(name: string): Promise<Segment | undefined>;
+  createSegment(segment: InsertSegment): Promise<Segment>;
+  updateSegment(id: number, updates: Partial<Segment>): Promise<Segment | undefined>;
+  deleteSegment(id: number): Promise<boolean>;
+  countSegmentUsers(criteria: SegmentCriteria): Promise<{ total: number; active: number }>;
+  getSegmentUsers(criteria: SegmentCriteria): Promise<User[]>;
+  
+  // Broadcasts
+  createBroadcast(broadcast: InsertBroadcast): Promise<Broadcast>;
+  getBroadcasts(limit: number): Promise<BroadcastSummary[]>;
+  getBroadcastById(id: number): Promise<BroadcastSummary | undefined>;
+  getBroadcastFailures(id: number, limit: number): Promise<BroadcastFailure[]>;
+  cancelBroadcast(id: number): Promise<Broadcast>;
+  getDueBroadcastDeliveries(limit: number): Promise<DueBroadcastDelivery[]>;
+  updateBroadcastDelivery(id: number, updates: Partial<BroadcastDelivery>): Promise<void>;
+  getNextBroadcastDeliveryAt(): Promise<Date | null>;
+  completeFinishedBroadcasts(): Promise<Broadcast[]>;
+  
+  // Scheduled broadcasts
+  createBroadcastSchedule(schedule: InsertBroadcastSchedule): Promise<BroadcastSchedule>;
+  getUpcomingBroadcastSchedules(): Promise<BroadcastSchedule[]>;
+  getBroadcastScheduleById(id: number): Promise<BroadcastSchedule | undefined>;
+  updateBroadcastSchedule(id: number, updates: Partial<BroadcastSchedule>): Promise<BroadcastSchedule>;
+  cancelBroadcastSchedule(id: number): Promise<BroadcastSchedule>;
+  runBroadcastSchedule(id: number, dueAt: Date, nextRunAt: Date | null): Promise<{ schedule: BroadcastSchedule; broadcast: Broadcast } | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -124,7 +625,7 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async updateUser(telegramId: string, updates: Partial<User>): Promise<User> {
+  async updateUser(telegramId: string, updates: UserUpdates): Promise<User> {
     const [user] = await db
       .update(users)
       .set({ ...updates, updatedAt: new Date() })
@@ -133,7 +634,7 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
   
-  async updateUserById(id: number, updates: Partial<User>): Promise<User> {
+  async updateUserById(id: number, updates: UserUpdates): Promise<User> {
     const [user] = await db
       .update(users)
       .set({ ...updates, updatedAt: new Date() })
@@ -142,10 +643,40 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // unreachableSince keeps the first failure while the user stays unreachable
+  async setUserReachability(telegramId: string, reachability: UserReachability): Promise<void> {
+    await db
+      .update(users)
+      .set({
+        reachability,
+        unreachableSince: reachability === 'reachable' ? null : sql`COALESCE(${users.unreachableSince}, now())`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(users.telegramId, telegramId), ne(users.reachability, reachability)));
+  }
+
   async getAllUsers(): Promise<User[]> {
     return await db.select().from(users).orderBy(desc(users.createdAt));
   }
 
+  async getUsersPage(filters: UserListFilters = {}): Promise<Page<User>> {
+    const sortColumn = filters.sort === 'coins' ? users.coins : users.createdAt;
+    const order = filters.order ?? 'desc';
+    const direction = order === 'asc' ? asc : desc;
+    const limit = pageLimit(filters.limit);
+
+    const conditions = userListConditions(filters);
+    if (filters.cursor) conditions.push(afterCursor(sortColumn, users.id, order, filters.cursor));
+
+    const rows = await db
+      .select({ item: users, sortValue: sql<string>`${sortColumn}::text` })
+      .from(users)
+      .where(and(...conditions))
+      .orderBy(direction(sortColumn), direction(users.id))
+      .limit(limit + 1);
+    return toPage(rows, limit);
+  }
+
   async getUserStats(): Promise<{ totalUsers: number; activeUsers: number; totalCoins: number }> {
     const [stats] = await db
       .select({
@@ -162,7 +693,64 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async awardReward(telegramId: string, amount: number, type: string, description: string): Promise<User> {
+  async getReferralStats(): Promise<ReferralStats> {
+    const referrers = alias(users, 'referrers');
+    const referrerName = {
+      id: referrers.id,
+      username: referrers.username,
+      firstName: referrers.firstName,
+      lastName: referrers.lastName,
+      referralCode: referrers.referralCode,
+    };
+
+    const [userCounts] = await db
+      .select({ totalUsers: count(), referredUsers: count(users.referredBy) })
+      .from(users);
+
+    const [rewardCounts] = await db
+      .select({ totalReferrals: count(), uniqueReferrers: countDistinct(transactions.userId) })
+      .from(transactions)
+      .where(eq(transactions.type, 'referral'));
+
+    // Grouped by code rather than referrer so codes whose owner was deleted still show up
+    const topReferrers = await db
+      .select({ referralCode: users.referredBy, referrer: referrerName, count: count() })
+      .from(users)
+      .leftJoin(referrers, eq(referrers.referralCode, users.referredBy))
+      .where(isNotNull(users.referredBy))
+      .groupBy(users.referredBy, referrers.id)
+      .orderBy(desc(count()))
+      .limit(10);
+
+    const recentReferrals = await db
+      .select({
+        user: {
+          id: users.id,
+          username: users.username,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          referralCode: users.referralCode,
+        },
+        referredBy: users.referredBy,
+        referrer: referrerName,
+      })
+      .from(users)
+      .leftJoin(referrers, eq(referrers.referralCode, users.referredBy))
+      .where(isNotNull(users.referredBy))
+      .orderBy(desc(users.createdAt))
+      .limit(10);
+
+    return {
+      totalUsers: Number(userCounts.totalUsers),
+      referredUsers: Number(userCounts.referredUsers),
+      totalReferrals: Number(rewardCounts.totalReferrals),
+      uniqueReferrers: Number(rewardCounts.uniqueReferrers),
+      topReferrers: topReferrers.map(row => ({ ...row, referralCode: row.referralCode!, count: Number(row.count) })),
+      recentReferrals: recentReferrals.map(row => ({ ...row, referredBy: row.referredBy! })),
+    };
+  }
+
+  async awardReward(telegramId: string, amount: number, type: TransactionType, description: string): Promise<User> {
     return db.transaction(async (tx) => {
       const [user] = await tx.select().from(users).where(eq(users.telegramId, telegramId)).for('update skip locked');
       
@@ -170,26 +758,26 @@ export class DatabaseStorage implements IStorage {
         throw new Error('User not found');
       }
       
-      const newCoins = user.coins + amount;
-      if (newCoins < 0) {
-        throw new Error('Insufficient coins');
+      return moveCoins(tx, { userId: user.id, amount, type, description, counterparty: { account: 'system_mint' } });
+    });
+  }
+
+  // Admin grant (positive) or withdrawal (negative), minted from or returned to the system
+  async adjustCoins(userId: number, amount: number, description: string): Promise<{ before: User; user: User }> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(users).where(eq(users.id, userId)).for('update');
+      if (!before) {
+        throw new Error('User not found');
       }
       
-      const [updatedUser] = await tx
-        .update(users)
-        .set({ coins: newCoins, updatedAt: new Date() })
-        .where(eq(users.telegramId, telegramId))
-        .returning();
-      
-      await tx.insert(transactions).values({
-        userId: updatedUser.id,
-        type,
+      const user = await moveCoins(tx, {
+        userId,
         amount,
+        type: 'admin_adjustment',
         description,
-        createdAt: new Date()
+        counterparty: { account: 'system_mint' },
       });
-      
-      return updatedUser;
+      return { before, user };
     });
   }
 
@@ -215,27 +803,173 @@ export class DatabaseStorage implements IStorage {
         newStreak = diff === 1 ? (user.streak || 0) + 1 : 1;
       }
       
-      const updates = { 
-        coins: user.coins + amount, 
-        lastDailyReward: new Date(), 
-        streak: newStreak, 
-        updatedAt: new Date() 
-      };
+      await moveCoins(tx, {
+        userId: user.id,
+        amount,
+        type: 'daily_reward',
+        description: 'Daily reward',
+        counterparty: { account: 'system_mint' },
+      });
       
       const [updated] = await tx
         .update(users)
-        .set(updates)
-        .where(eq(users.telegramId, telegramId))
+        .set({ lastDailyReward: new Date(), streak: newStreak, updatedAt: new Date() })
+        .where(eq(users.id, user.id))
         .returning();
       
-      await tx.insert(transactions).values({ 
-        userId: updated.id, 
-        type: 'daily_reward', 
-        amount, 
-        description: 'Daily reward' 
+      return updated;
+    });
+  }
+
+  // Spends coins on raffle tickets. Balance, entry count and ledger row change in one
+  // transaction; the user row is locked before the raffle row in every spending path.
+  async buyRaffleEntries(telegramId: string, raffleId: number, quantity = 1): Promise<{ user: User; raffle: Raffle; entry: RaffleEntry }> {
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new Error('Invalid quantity');
+    }
+    
+    return db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.telegramId, telegramId)).for('update');
+      if (!user) {
+        throw new Error('User not found');
+      }
+      
+      const [raffle] = await tx.select().from(raffles).where(eq(raffles.id, raffleId)).for('update');
+      if (!raffle) {
+        throw new Error('Raffle not found');
+      }
+      
+      if (!raffle.isActive || raffle.drawnAt || new Date(raffle.endDate) <= new Date()) {
+        throw new Error('Raffle is closed');
+      }
+      
+      if (raffle.maxEntries !== null && raffle.currentEntries + quantity > raffle.maxEntries) {
+        throw new Error('Raffle is full');
+      }
+      const [existing] = await tx
+        .select()
+        .from(raffleEntries)
+        .where(and(eq(raffleEntries.raffleId, raffleId), eq(raffleEntries.userId, user.id)));
+      const heldTickets = existing?.entries ?? 0;
+      if (raffle.maxEntriesPerUser !== null && heldTickets + quantity > raffle.maxEntriesPerUser) {
+        throw new Error('Entry limit reached');
+      }
+      
+      const cost = raffle.entryCost * quantity;
+      if (user.coins < cost) {
+        throw new Error('Insufficient coins');
+      }
+      
+      const updatedUser = await moveCoins(tx, {
+        userId: user.id,
+        amount: -cost,
+        type: 'raffle_entry',
+        description: `Raffle entry: ${raffle.title}${quantity > 1 ? ` (x${quantity})` : ''}`,
+        metadata: { raffleId, quantity },
+        counterparty: { account: 'raffle_pool', raffleId },
       });
       
-      return updated;
+      const [entry] = await tx
+        .insert(raffleEntries)
+        .values({ raffleId, userId: user.id, entries: quantity })
+        .onConflictDoUpdate({
+          target: [raffleEntries.raffleId, raffleEntries.userId],
+          set: { entries: sql`${raffleEntries.entries} + ${quantity}`, updatedAt: new Date() },
+        })
+        .returning();
+      
+      const [updatedRaffle] = await tx
+        .update(raffles)
+        .set({ currentEntries: raffle.currentEntries + quantity })
+        .where(eq(raffles.id, raffleId))
+        .returning();
+      
+      return { user: updatedUser, raffle: updatedRaffle, entry };
+    });
+  }
+
+  // Spends coins on a shop item. Balance, stock, purchase and ledger row change in one transaction.
+  async buyShopItem(telegramId: string, itemId: number): Promise<{ user: User; item: ShopItem; purchase: Purchase; code: ShopItemCode | null }> {
+    return db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.telegramId, telegramId)).for('update');
+      if (!user) {
+        throw new Error('User not found');
+      }
+      
+      const [item] = await tx.select().from(shopItems).where(eq(shopItems.id, itemId)).for('update');
+      if (!item) {
+        throw new Error('Item not found');
+      }
+      
+      if (!item.isActive) {
+        throw new Error('Item is unavailable');
+      }
+      
+      if (item.stock !== null && item.stock <= 0) {
+        throw new Error('Out of stock');
+      }
+      
+      if (user.coins < item.cost) {
+        throw new Error('Insufficient coins');
+      }
+      
+      // Code items: the code row lock plus the purchase_id unique constraint make sure
+      // a code can only ever be assigned to one purchase
+      let code: ShopItemCode | null = null;
+      if (item.deliversCodes) {
+        [code = null] = await tx
+          .select()
+          .from(shopItemCodes)
+          .where(and(eq(shopItemCodes.itemId, itemId), isNull(shopItemCodes.purchaseId)))
+          .orderBy(shopItemCodes.id)
+          .limit(1)
+          .for('update', { skipLocked: true });
+        if (!code) {
+          throw new Error('Out of stock');
+        }
+      }
+      
+      const [purchase] = await tx
+        .insert(purchases)
+        .values({
+          userId: user.id,
+          itemId,
+          quantity: 1,
+          totalCost: item.cost,
+          // A delivered code is the whole order, so it never waits on an admin
+          status: item.requiresFulfillment && !code ? 'pending' : 'completed',
+        })
+        .returning();
+      
+      if (code) {
+        [code] = await tx
+          .update(shopItemCodes)
+          .set({ purchaseId: purchase.id, assignedAt: new Date() })
+          .where(and(eq(shopItemCodes.id, code.id), isNull(shopItemCodes.purchaseId)))
+          .returning();
+        if (!code) {
+          throw new Error('Out of stock');
+        }
+      }
+      
+      const [updatedItem] = item.stock === null
+        ? [item]
+        : await tx
+            .update(shopItems)
+            .set({ stock: item.stock - 1 })
+            .where(eq(shopItems.id, itemId))
+            .returning();
+      
+      const updatedUser = await moveCoins(tx, {
+        userId: user.id,
+        amount: -item.cost,
+        type: 'shop_purchase',
+        description: `Shop purchase: ${item.name}`,
+        metadata: { itemId, purchaseId: purchase.id },
+        counterparty: { account: 'shop_sink', itemId },
+      });
+      
+      return { user: updatedUser, item: updatedItem, purchase, code };
     });
   }
 
@@ -244,72 +978,389 @@ export class DatabaseStorage implements IStorage {
     return admin || undefined;
   }
 
+  async getAdminById(id: number): Promise<Admin | undefined> {
+    const [admin] = await db.select().from(admins).where(eq(admins.id, id));
+    return admin || undefined;
+  }
+
+  async getAllAdmins(): Promise<Admin[]> {
+    return await db.select().from(admins).orderBy(admins.createdAt);
+  }
+
   async createAdmin(insertAdmin: InsertAdmin): Promise<Admin> {
     const [admin] = await db.insert(admins).values(insertAdmin).returning();
     return admin;
   }
 
-  async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
-    const [transaction] = await db.insert(transactions).values(insertTransaction).returning();
-    return transaction;
+  async updateAdmin(id: number, updates: Partial<Admin>): Promise<Admin> {
+    const [admin] = await db
+      .update(admins)
+      .set(updates)
+      .where(eq(admins.id, id))
+      .returning();
+    if (!admin) {
+      throw new Error('Admin not found');
+    }
+    return admin;
   }
 
-  async getUserTransactions(userId: number): Promise<Transaction[]> {
-    return await db
-      .select()
-      .from(transactions)
-      .where(eq(transactions.userId, userId))
-      .orderBy(desc(transactions.createdAt));
+  async deleteAdmin(id: number): Promise<void> {
+    await db.delete(admins).where(eq(admins.id, id));
   }
 
-  async getAllTransactions(): Promise<Transaction[]> {
-    return await db.select().from(transactions).orderBy(desc(transactions.createdAt));
+  // Records a TOTP time step as used. False if it (or a later one) was already used,
+  // which also covers two logins racing with the same code.
+  async consumeTotpStep(adminId: number, step: number): Promise<boolean> {
+    const updated = await db
+      .update(admins)
+      .set({ totpLastStep: step })
+      .where(and(
+        eq(admins.id, adminId),
+        or(isNull(admins.totpLastStep), sql`${admins.totpLastStep} < ${step}`),
+      ))
+      .returning({ id: admins.id });
+    return updated.length > 0;
   }
 
-  async createRaffle(insertRaffle: InsertRaffle): Promise<Raffle> {
-    const [raffle] = await db.insert(raffles).values(insertRaffle).returning();
-    return raffle;
+  async consumeRecoveryCode(adminId: number, codeHash: string): Promise<boolean> {
+    const updated = await db
+      .update(admins)
+      .set({ recoveryCodes: sql`${admins.recoveryCodes} - ${codeHash}::text` })
+      .where(and(eq(admins.id, adminId), sql`${admins.recoveryCodes} @> jsonb_build_array(${codeHash}::text)`))
+      .returning({ id: admins.id });
+    return updated.length > 0;
   }
 
-  async getAllRaffles(): Promise<Raffle[]> {
-    return await db.select().from(raffles).orderBy(desc(raffles.createdAt));
+  // Counts the failure in the same statement that checks the threshold, so parallel guesses
+  // can't slip past the lock
+  async recordFailedAdminLogin(adminId: number, lockThreshold: number, lockUntil: Date): Promise<Admin> {
+    const [admin] = await db
+      .update(admins)
+      .set({
+        failedLoginCount: sql`${admins.failedLoginCount} + 1`,
+        lockedUntil: sql`case when ${admins.failedLoginCount} + 1 >= ${lockThreshold} then ${lockUntil} else ${admins.lockedUntil} end`,
+      })
+      .where(eq(admins.id, adminId))
+      .returning();
+    if (!admin) {
+      throw new Error('Admin not found');
+    }
+    return admin;
   }
 
-  async getActiveRaffles(): Promise<Raffle[]> {
-    return await db
-      .select()
-      .from(raffles)
-      .where(and(eq(raffles.isActive, true), sql`${raffles.endDate} > NOW()`))
-      .orderBy(desc(raffles.createdAt));
+  async createLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt> {
+    const [created] = await db.insert(loginAttempts).values(attempt).returning();
+    return created;
   }
 
-  async getRaffleById(id: number): Promise<Raffle | undefined> {
-    const [raffle] = await db.select().from(raffles).where(eq(raffles.id, id));
-    return raffle || undefined;
+  // Wrong passwords and codes since `since`. Attempts turned away by throttling or a lock never
+  // reached the check and don't count; a successful sign-in clears the count for that username.
+  async getLoginFailures(filter: { username?: string; ip?: string }, since: Date): Promise<{ count: number; lastFailureAt: Date | null }> {
+    let from = since;
+    if (filter.username) {
+      const [lastSuccess] = await db
+        .select({ createdAt: loginAttempts.createdAt })
+        .from(loginAttempts)
+        .where(and(eq(loginAttempts.username, filter.username), eq(loginAttempts.succeeded, true)))
+        .orderBy(desc(loginAttempts.createdAt))
+        .limit(1);
+      if (lastSuccess && lastSuccess.createdAt > from) {
+        from = lastSuccess.createdAt;
+      }
+    }
+
+    const [result] = await db
+      .select({
+        count: count(),
+        lastFailureAt: max(loginAttempts.createdAt),
+      })
+      .from(loginAttempts)
+      .where(and(
+        eq(loginAttempts.succeeded, false),
+        inArray(loginAttempts.reason, ['wrong_password', 'wrong_code']),
+        gt(loginAttempts.createdAt, from),
+        filter.username ? eq(loginAttempts.username, filter.username) : undefined,
+        filter.ip ? eq(loginAttempts.ip, filter.ip) : undefined,
+      ));
+    return { count: Number(result?.count ?? 0), lastFailureAt: result?.lastFailureAt ?? null };
   }
 
-  async updateRaffle(id: number, updates: Partial<Raffle>): Promise<Raffle> {
-    const [raffle] = await db
-      .update(raffles)
-      .set(updates)
-      .where(eq(raffles.id, id))
-      .returning();
-    return raffle;
+  async deleteLoginAttemptsBefore(before: Date): Promise<number> {
+    const deleted = await db
+      .delete(loginAttempts)
+      .where(lte(loginAttempts.createdAt, before))
+      .returning({ id: loginAttempts.id });
+    return deleted.length;
   }
 
-  async enterRaffle(insertEntry: InsertRaffleEntry): Promise<RaffleEntry> {
-    const [entry] = await db.insert(raffleEntries).values(insertEntry).returning();
-    return entry;
+  async createAdminSession(session: InsertAdminSession): Promise<AdminSession> {
+    const [created] = await db.insert(adminSessions).values(session).returning();
+    return created;
   }
 
-  async getRaffleEntries(raffleId: number): Promise<any[]> {
+  async getAdminSession(id: number): Promise<AdminSession | undefined> {
+    const [session] = await db.select().from(adminSessions).where(eq(adminSessions.id, id));
+    return session || undefined;
+  }
+
+  // Matches the current refresh token or the one it replaced
+  async findAdminSessionByTokenHash(tokenHash: string): Promise<AdminSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(adminSessions)
+      .where(or(eq(adminSessions.refreshTokenHash, tokenHash), eq(adminSessions.previousTokenHash, tokenHash)));
+    return session || undefined;
+  }
+
+  // Swaps in the next refresh token only if the current one is still the live one, so two
+  // requests racing with the same token can't both rotate it
+  async rotateAdminSession(id: number, currentHash: string, nextHash: string, expiresAt: Date): Promise<AdminSession | undefined> {
+    const [session] = await db
+      .update(adminSessions)
+      .set({ refreshTokenHash: nextHash, previousTokenHash: currentHash, lastUsedAt: new Date(), expiresAt })
+      .where(and(
+        eq(adminSessions.id, id),
+        eq(adminSessions.refreshTokenHash, currentHash),
+        isNull(adminSessions.revokedAt),
+      ))
+      .returning();
+    return session || undefined;
+  }
+
+  async getActiveAdminSessions(adminId: number): Promise<AdminSession[]> {
     return await db
-      .select({
-        id: raffleEntries.id,
-        raffleId: raffleEntries.raffleId,
+      .select()
+      .from(adminSessions)
+      .where(and(
+        eq(adminSessions.adminId, adminId),
+        isNull(adminSessions.revokedAt),
+        gt(adminSessions.expiresAt, new Date()),
+      ))
+      .orderBy(desc(adminSessions.lastUsedAt));
+  }
+
+  async revokeAdminSession(adminId: number, sessionId: number): Promise<boolean> {
+    const revoked = await db
+      .update(adminSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(adminSessions.id, sessionId),
+        eq(adminSessions.adminId, adminId),
+        isNull(adminSessions.revokedAt),
+      ))
+      .returning({ id: adminSessions.id });
+    return revoked.length > 0;
+  }
+
+  async revokeAdminSessions(adminId: number, exceptSessionId?: number): Promise<number> {
+    const revoked = await db
+      .update(adminSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(adminSessions.adminId, adminId),
+        isNull(adminSessions.revokedAt),
+        exceptSessionId !== undefined ? ne(adminSessions.id, exceptSessionId) : undefined,
+      ))
+      .returning({ id: adminSessions.id });
+    return revoked.length;
+  }
+
+  async deleteStaleAdminSessions(): Promise<number> {
+    const deleted = await db
+      .delete(adminSessions)
+      .where(or(lte(adminSessions.expiresAt, new Date()), isNotNull(adminSessions.revokedAt)))
+      .returning({ id: adminSessions.id });
+    return deleted.length;
+  }
+
+  // Inserts the key, or returns the row already holding it. The unique constraint decides
+  // between two requests racing with the same key: only one of them gets claimed: true.
+  async claimIdempotencyKey(claim: InsertIdempotencyKey): Promise<{ record: IdempotencyKey; claimed: boolean }> {
+    const [created] = await db
+      .insert(idempotencyKeys)
+      .values(claim)
+      .onConflictDoNothing({ target: [idempotencyKeys.scope, idempotencyKeys.key] })
+      .returning();
+    if (created) {
+      return { record: created, claimed: true };
+    }
+
+    const [reclaimed] = await db
+      .update(idempotencyKeys)
+      .set({ createdAt: new Date() })
+      .where(and(
+        eq(idempotencyKeys.scope, claim.scope),
+        eq(idempotencyKeys.key, claim.key),
+        eq(idempotencyKeys.fingerprint, claim.fingerprint),
+        isNull(idempotencyKeys.completedAt),
+        lte(idempotencyKeys.createdAt, new Date(Date.now() - IDEMPOTENCY_CLAIM_TIMEOUT_MS)),
+      ))
+      .returning();
+    if (reclaimed) {
+      return { record: reclaimed, claimed: true };
+    }
+
+    const [existing] = await db
+      .select()
+      .from(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.scope, claim.scope), eq(idempotencyKeys.key, claim.key)));
+    if (!existing) {
+      // Released between the insert and the select; the caller can simply retry
+      throw new Error('Idempotency key was released');
+    }
+    return { record: existing, claimed: false };
+  }
+
+  async completeIdempotencyKey(id: number, responseStatus: number | null, response: unknown): Promise<void> {
+    await db
+      .update(idempotencyKeys)
+      .set({ responseStatus, response: response ?? null, completedAt: new Date() })
+      .where(eq(idempotencyKeys.id, id));
+  }
+
+  async releaseIdempotencyKey(id: number): Promise<void> {
+    await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, id));
+  }
+
+  async deleteIdempotencyKeysBefore(before: Date): Promise<number> {
+    const deleted = await db
+      .delete(idempotencyKeys)
+      .where(lte(idempotencyKeys.createdAt, before))
+      .returning({ id: idempotencyKeys.id });
+    return deleted.length;
+  }
+
+  async getUserTransactions(userId: number): Promise<Transaction[]> {
+    return await db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.userId, userId))
+      .orderBy(desc(transactions.createdAt));
+  }
+
+  async getAllTransactions(): Promise<Transaction[]> {
+    return await db.select().from(transactions).orderBy(desc(transactions.createdAt));
+  }
+
+  async getTransactionsPage(filters: TransactionListFilters = {}): Promise<Page<TransactionListItem>> {
+    const sortColumn = filters.sort === 'amount' ? transactions.amount : transactions.createdAt;
+    const order = filters.order ?? 'desc';
+    const direction = order === 'asc' ? asc : desc;
+    const limit = pageLimit(filters.limit);
+
+    const conditions = transactionListConditions(filters);
+    if (filters.cursor) conditions.push(afterCursor(sortColumn, transactions.id, order, filters.cursor));
+
+    const rows = await db
+      .select({
+        transaction: transactions,
+        user: {
+          id: users.id,
+          telegramId: users.telegramId,
+          username: users.username,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+        sortValue: sql<string>`${sortColumn}::text`,
+      })
+      .from(transactions)
+      .leftJoin(users, eq(transactions.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(direction(sortColumn), direction(transactions.id))
+      .limit(limit + 1);
+    return toPage(rows.map(row => ({ item: { ...row.transaction, user: row.user }, sortValue: row.sortValue })), limit);
+  }
+
+  async getTransactionSummary(filters: TransactionListFilters = {}): Promise<TransactionSummary> {
+    const where = and(...transactionListConditions(filters));
+
+    const [totals] = await db
+      .select({
+        total: count(),
+        earned: count(sql`CASE WHEN ${transactions.amount} > 0 THEN 1 END`),
+        spent: count(sql`CASE WHEN ${transactions.amount} < 0 THEN 1 END`),
+        net: sum(transactions.amount),
+      })
+      .from(transactions)
+      .leftJoin(users, eq(transactions.userId, users.id))
+      .where(where);
+
+    const typeCounts = await db
+      .select({ type: transactions.type, count: count() })
+      .from(transactions)
+      .leftJoin(users, eq(transactions.userId, users.id))
+      .where(where)
+      .groupBy(transactions.type);
+
+    return {
+      total: Number(totals.total),
+      earned: Number(totals.earned),
+      spent: Number(totals.spent),
+      net: Number(totals.net) || 0,
+      byType: Object.fromEntries(typeCounts.map(row => [row.type, Number(row.count)])),
+    };
+  }
+
+  async createRaffle(insertRaffle: InsertRaffle): Promise<Raffle> {
+    const [raffle] = await db.insert(raffles).values(insertRaffle).returning();
+    return raffle;
+  }
+
+  async getAllRaffles(): Promise<Raffle[]> {
+    return await db.select().from(raffles).orderBy(desc(raffles.createdAt));
+  }
+
+  async getActiveRaffles(): Promise<Raffle[]> {
+    return await db
+      .select()
+      .from(raffles)
+      .where(and(eq(raffles.isActive, true), isNull(raffles.drawnAt), sql`${raffles.endDate} > NOW()`))
+      .orderBy(desc(raffles.createdAt));
+  }
+
+  async getRaffleById(id: number): Promise<Raffle | undefined> {
+    const [raffle] = await db.select().from(raffles).where(eq(raffles.id, id));
+    return raffle || undefined;
+  }
+
+  async updateRaffle(id: number, updates: Partial<Raffle>): Promise<Raffle> {
+    const [raffle] = await db
+      .update(raffles)
+      .set(updates)
+      .where(eq(raffles.id, id))
+      .returning();
+    return raffle;
+  }
+
+  async enterRaffle(insertEntry: InsertRaffleEntry): Promise<RaffleEntry> {
+    const [entry] = await db
+      .insert(raffleEntries)
+      .values(insertEntry)
+      .onConflictDoUpdate({
+        target: [raffleEntries.raffleId, raffleEntries.userId],
+        set: { entries: sql`${raffleEntries.entries} + ${insertEntry.entries ?? 1}`, updatedAt: new Date() },
+      })
+      .returning();
+    return entry;
+  }
+
+  async getUserRaffleEntry(raffleId: number, userId: number): Promise<RaffleEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(raffleEntries)
+      .where(and(eq(raffleEntries.raffleId, raffleId), eq(raffleEntries.userId, userId)));
+    return entry || undefined;
+  }
+
+  async getRaffleEntries(raffleId: number): Promise<any[]> {
+    return await db
+      .select({
+        id: raffleEntries.id,
+        raffleId: raffleEntries.raffleId,
         userId: raffleEntries.userId,
         entries: raffleEntries.entries,
         createdAt: raffleEntries.createdAt,
+        updatedAt: raffleEntries.updatedAt,
         user: {
           id: users.id,
           username: users.username,
@@ -325,6 +1376,120 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(raffleEntries.createdAt));
   }
 
+  async drawRaffleWinner(raffleId: number, winnerCount = 1): Promise<{ raffle: Raffle; winners: RaffleWinner[]; proof: RaffleDrawProof }> {
+    return db.transaction(async (tx) => {
+      // Lock the raffle so two concurrent draws can't both pick winners
+      const [raffle] = await tx.select().from(raffles).where(eq(raffles.id, raffleId)).for('update');
+
+      if (!raffle) {
+        throw new Error('Raffle not found');
+      }
+
+      if (raffle.drawnAt) {
+        throw new Error('Raffle has already been drawn');
+      }
+
+      const entrants = await tx
+        .select({
+          userId: raffleEntries.userId,
+          tickets: sql<number>`CAST(SUM(${raffleEntries.entries}) AS INTEGER)`,
+        })
+        .from(raffleEntries)
+        .where(eq(raffleEntries.raffleId, raffleId))
+        .groupBy(raffleEntries.userId);
+
+      if (entrants.length === 0) {
+        throw new Error('Raffle has no entries');
+      }
+
+      const proof = drawWinners(generateDrawSeed(), entrants, winnerCount);
+      const ticketsByUser = new Map(proof.entrants.map(e => [e.userId, e.tickets]));
+
+      const winners = await tx
+        .insert(raffleWinners)
+        .values(proof.winners.map(w => ({
+          raffleId,
+          userId: w.userId,
+          rank: w.rank,
+          tickets: ticketsByUser.get(w.userId) ?? 0,
+        })))
+        .returning();
+
+      const [updatedRaffle] = await tx
+        .update(raffles)
+        .set({
+          winnerId: proof.winners[0].userId,
+          isActive: false,
+          drawSeed: proof.seed,
+          drawAlgorithm: proof.algorithm,
+          drawProof: proof,
+          drawnAt: new Date(),
+        })
+        .where(eq(raffles.id, raffleId))
+        .returning();
+
+      return { raffle: updatedRaffle, winners, proof };
+    });
+  }
+
+  async getRaffleWinners(raffleId: number): Promise<any[]> {
+    return await db
+      .select({
+        id: raffleWinners.id,
+        raffleId: raffleWinners.raffleId,
+        userId: raffleWinners.userId,
+        rank: raffleWinners.rank,
+        tickets: raffleWinners.tickets,
+        createdAt: raffleWinners.createdAt,
+        user: {
+          id: users.id,
+          username: users.username,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          telegramId: users.telegramId,
+        }
+      })
+      .from(raffleWinners)
+      .innerJoin(users, eq(raffleWinners.userId, users.id))
+      .where(eq(raffleWinners.raffleId, raffleId))
+      .orderBy(raffleWinners.rank);
+  }
+
+  async getRaffleParticipants(raffleId: number): Promise<User[]> {
+    return await db
+      .selectDistinctOn([users.id], { user: users })
+      .from(raffleEntries)
+      .innerJoin(users, eq(raffleEntries.userId, users.id))
+      .where(eq(raffleEntries.raffleId, raffleId))
+      .orderBy(users.id)
+      .then(rows => rows.map(row => row.user));
+  }
+
+  // Raffles the scheduler still owes work: open ones waiting for their end date,
+  // and drawn ones whose participants have not been told the result yet
+  async getRafflesPendingClose(): Promise<Raffle[]> {
+    return await db
+      .select()
+      .from(raffles)
+      .where(
+        or(
+          and(eq(raffles.isActive, true), isNull(raffles.drawnAt)),
+          and(isNotNull(raffles.drawnAt), isNull(raffles.resultsNotifiedAt))
+        )
+      )
+      .orderBy(raffles.endDate);
+  }
+
+  // Claims the right to send result notifications; only the first caller gets true
+  async markRaffleResultsNotified(raffleId: number): Promise<boolean> {
+    const claimed = await db
+      .update(raffles)
+      .set({ resultsNotifiedAt: new Date() })
+      .where(and(eq(raffles.id, raffleId), isNotNull(raffles.drawnAt), isNull(raffles.resultsNotifiedAt)))
+      .returning({ id: raffles.id });
+    return claimed.length > 0;
+  }
+
   async createShopItem(insertItem: InsertShopItem): Promise<ShopItem> {
     const [item] = await db.insert(shopItems).values(insertItem).returning();
     return item;
@@ -351,6 +1516,94 @@ export class DatabaseStorage implements IStorage {
     return item;
   }
 
+  async getShopItemCodes(itemId: number): Promise<any[]> {
+    return await db
+      .select({
+        id: shopItemCodes.id,
+        itemId: shopItemCodes.itemId,
+        code: shopItemCodes.code,
+        purchaseId: shopItemCodes.purchaseId,
+        assignedAt: shopItemCodes.assignedAt,
+        createdAt: shopItemCodes.createdAt,
+        user: {
+          id: users.id,
+          username: users.username,
+          firstName: users.firstName,
+          telegramId: users.telegramId,
+        },
+      })
+      .from(shopItemCodes)
+      .leftJoin(purchases, eq(shopItemCodes.purchaseId, purchases.id))
+      .leftJoin(users, eq(purchases.userId, users.id))
+      .where(eq(shopItemCodes.itemId, itemId))
+      .orderBy(desc(shopItemCodes.createdAt));
+  }
+
+  // Adds codes to an item's inventory and switches the item to code delivery.
+  // Codes already in the inventory are skipped; stock becomes the unused count.
+  async addShopItemCodes(itemId: number, codes: string[]): Promise<{ added: number; skipped: number; item: ShopItem }> {
+    const unique = Array.from(new Set(codes.map(code => code.trim()).filter(Boolean)));
+    if (unique.length === 0) {
+      throw new Error('No codes provided');
+    }
+
+    return db.transaction(async (tx) => {
+      const [item] = await tx.select().from(shopItems).where(eq(shopItems.id, itemId)).for('update');
+      if (!item) {
+        throw new Error('Item not found');
+      }
+
+      const inserted = await tx
+        .insert(shopItemCodes)
+        .values(unique.map(code => ({ itemId, code })))
+        .onConflictDoNothing()
+        .returning({ id: shopItemCodes.id });
+
+      const [{ unused }] = await tx
+        .select({ unused: count() })
+        .from(shopItemCodes)
+        .where(and(eq(shopItemCodes.itemId, itemId), isNull(shopItemCodes.purchaseId)));
+
+      const [updatedItem] = await tx
+        .update(shopItems)
+        .set({ deliversCodes: true, stock: unused })
+        .where(eq(shopItems.id, itemId))
+        .returning();
+
+      return { added: inserted.length, skipped: unique.length - inserted.length, item: updatedItem };
+    });
+  }
+
+  // Removes a code that has not been sold yet
+  async deleteShopItemCode(itemId: number, codeId: number): Promise<ShopItem> {
+    return db.transaction(async (tx) => {
+      const [item] = await tx.select().from(shopItems).where(eq(shopItems.id, itemId)).for('update');
+      if (!item) {
+        throw new Error('Item not found');
+      }
+
+      const deleted = await tx
+        .delete(shopItemCodes)
+        .where(and(eq(shopItemCodes.id, codeId), eq(shopItemCodes.itemId, itemId), isNull(shopItemCodes.purchaseId)))
+        .returning({ id: shopItemCodes.id });
+      if (deleted.length === 0) {
+        throw new Error('Code not found or already sold');
+      }
+
+      const [{ unused }] = await tx
+        .select({ unused: count() })
+        .from(shopItemCodes)
+        .where(and(eq(shopItemCodes.itemId, itemId), isNull(shopItemCodes.purchaseId)));
+
+      const [updatedItem] = await tx
+        .update(shopItems)
+        .set({ stock: unused })
+        .where(eq(shopItems.id, itemId))
+        .returning();
+      return updatedItem;
+    });
+  }
+
   async createPurchase(insertPurchase: InsertPurchase): Promise<Purchase> {
     const [purchase] = await db.insert(purchases).values(insertPurchase).returning();
     return purchase;
@@ -364,6 +1617,127 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(purchases.createdAt));
   }
 
+  async getPurchaseById(id: number): Promise<Purchase | undefined> {
+    const [purchase] = await db.select().from(purchases).where(eq(purchases.id, id));
+    return purchase || undefined;
+  }
+
+  async getPurchases(filters: { status?: string; itemId?: number; userId?: number } = {}): Promise<any[]> {
+    const conditions = [];
+    if (filters.status) conditions.push(eq(purchases.status, filters.status));
+    if (filters.itemId) conditions.push(eq(purchases.itemId, filters.itemId));
+    if (filters.userId) conditions.push(eq(purchases.userId, filters.userId));
+
+    return await db
+      .select({
+        id: purchases.id,
+        userId: purchases.userId,
+        itemId: purchases.itemId,
+        quantity: purchases.quantity,
+        totalCost: purchases.totalCost,
+        status: purchases.status,
+        note: purchases.note,
+        createdAt: purchases.createdAt,
+        updatedAt: purchases.updatedAt,
+        user: {
+          id: users.id,
+          username: users.username,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          telegramId: users.telegramId,
+        },
+        item: {
+          id: shopItems.id,
+          name: shopItems.name,
+          requiresFulfillment: shopItems.requiresFulfillment,
+        },
+      })
+      .from(purchases)
+      .innerJoin(users, eq(purchases.userId, users.id))
+      .innerJoin(shopItems, eq(purchases.itemId, shopItems.id))
+      .where(and(...conditions))
+      .orderBy(desc(purchases.createdAt));
+  }
+
+  async fulfillPurchase(purchaseId: number, note?: string): Promise<{ purchase: Purchase; user: User; item: ShopItem }> {
+    return db.transaction(async (tx) => {
+      const [purchase] = await tx.select().from(purchases).where(eq(purchases.id, purchaseId)).for('update');
+      if (!purchase) {
+        throw new Error('Purchase not found');
+      }
+
+      if (purchase.status !== 'pending') {
+        throw new Error('Purchase is not pending');
+      }
+
+      const [updated] = await tx
+        .update(purchases)
+        .set({ status: 'completed', note: note || null, updatedAt: new Date() })
+        .where(eq(purchases.id, purchaseId))
+        .returning();
+
+      const [user] = await tx.select().from(users).where(eq(users.id, purchase.userId));
+      const [item] = await tx.select().from(shopItems).where(eq(shopItems.id, purchase.itemId));
+
+      return { purchase: updated, user, item };
+    });
+  }
+
+  // Cancels an order, refunding the coins through the ledger and putting the stock back
+  async cancelPurchase(purchaseId: number, note?: string): Promise<{ purchase: Purchase; user: User; item: ShopItem }> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(purchases).where(eq(purchases.id, purchaseId));
+      if (!existing) {
+        throw new Error('Purchase not found');
+      }
+
+      // Same lock order as buyShopItem: user, then the rows being changed
+      const [user] = await tx.select().from(users).where(eq(users.id, existing.userId)).for('update');
+      const [purchase] = await tx.select().from(purchases).where(eq(purchases.id, purchaseId)).for('update');
+      const [item] = await tx.select().from(shopItems).where(eq(shopItems.id, purchase.itemId)).for('update');
+
+      if (purchase.status === 'cancelled') {
+        throw new Error('Purchase is already cancelled');
+      }
+
+      // The buyer has already seen the code and keeps it, so there is nothing to refund against
+      const [deliveredCode] = await tx
+        .select({ id: shopItemCodes.id })
+        .from(shopItemCodes)
+        .where(eq(shopItemCodes.purchaseId, purchaseId))
+        .limit(1);
+      if (deliveredCode) {
+        throw new Error('Orders that delivered a code cannot be cancelled');
+      }
+
+      const [updatedPurchase] = await tx
+        .update(purchases)
+        .set({ status: 'cancelled', note: note || null, updatedAt: new Date() })
+        .where(eq(purchases.id, purchaseId))
+        .returning();
+
+      const updatedUser = await moveCoins(tx, {
+        userId: user.id,
+        amount: purchase.totalCost,
+        type: 'shop_refund',
+        description: `Refund for cancelled order: ${item.name}`,
+        metadata: { itemId: item.id, purchaseId },
+        counterparty: { account: 'shop_sink', itemId: item.id },
+      });
+
+      // A code item's stock is its count of unused codes, which this order never took from
+      const [updatedItem] = item.stock === null || item.deliversCodes
+        ? [item]
+        : await tx
+            .update(shopItems)
+            .set({ stock: item.stock + purchase.quantity })
+            .where(eq(shopItems.id, item.id))
+            .returning();
+
+      return { purchase: updatedPurchase, user: updatedUser, item: updatedItem };
+    });
+  }
+
   async getBotSetting(key: string): Promise<BotSetting | undefined> {
     const [setting] = await db.select().from(botSettings).where(eq(botSettings.key, key));
     return setting || undefined;
@@ -384,6 +1758,114 @@ export class DatabaseStorage implements IStorage {
     return setting;
   }
 
+  async getConversationState(telegramId: string): Promise<ConversationStateRow | undefined> {
+    const [state] = await db
+      .select()
+      .from(conversationStates)
+      .where(and(eq(conversationStates.telegramId, telegramId), gt(conversationStates.expiresAt, new Date())));
+    return state || undefined;
+  }
+
+  async setConversationState(insertState: InsertConversationState): Promise<ConversationStateRow> {
+    const [state] = await db
+      .insert(conversationStates)
+      .values(insertState)
+      .onConflictDoUpdate({
+        target: conversationStates.telegramId,
+        set: {
+          state: insertState.state,
+          payload: insertState.payload,
+          expiresAt: insertState.expiresAt,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return state;
+  }
+
+  async deleteConversationState(telegramId: string): Promise<void> {
+    await db.delete(conversationStates).where(eq(conversationStates.telegramId, telegramId));
+  }
+
+  async getActiveConversationStates(): Promise<any[]> {
+    return await db
+      .select({
+        id: conversationStates.id,
+        telegramId: conversationStates.telegramId,
+        state: conversationStates.state,
+        payload: conversationStates.payload,
+        expiresAt: conversationStates.expiresAt,
+        createdAt: conversationStates.createdAt,
+        updatedAt: conversationStates.updatedAt,
+        user: {
+          id: users.id,
+          username: users.username,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        }
+      })
+      .from(conversationStates)
+      .leftJoin(users, eq(conversationStates.telegramId, users.telegramId))
+      .where(gt(conversationStates.expiresAt, new Date()))
+      .orderBy(desc(conversationStates.updatedAt));
+  }
+
+  async deleteExpiredConversationStates(): Promise<number> {
+    const deleted = await db
+      .delete(conversationStates)
+      .where(lte(conversationStates.expiresAt, new Date()))
+      .returning({ id: conversationStates.id });
+    return deleted.length;
+  }
+
+  async createAuditLogEntry(entry: InsertAdminAuditLogEntry): Promise<AdminAuditLogEntry> {
+    const [created] = await db.insert(adminAuditLog).values(entry).returning();
+    return created;
+  }
+
+  async getAuditLog(filters: AuditLogFilters = {}): Promise<any[]> {
+    const conditions = [];
+    if (filters.entityType) conditions.push(eq(adminAuditLog.entityType, filters.entityType));
+    if (filters.adminId) conditions.push(eq(adminAuditLog.adminId, filters.adminId));
+    if (filters.from) conditions.push(gte(adminAuditLog.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(adminAuditLog.createdAt, filters.to));
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(adminAuditLog.path, pattern),
+        ilike(adminAuditLog.description, pattern),
+        ilike(adminAuditLog.entityId, pattern),
+        ilike(admins.username, pattern),
+        ilike(admins.name, pattern),
+      ));
+    }
+
+    return await db
+      .select({
+        id: adminAuditLog.id,
+        method: adminAuditLog.method,
+        path: adminAuditLog.path,
+        statusCode: adminAuditLog.statusCode,
+        entityType: adminAuditLog.entityType,
+        entityId: adminAuditLog.entityId,
+        description: adminAuditLog.description,
+        changes: adminAuditLog.changes,
+        ip: adminAuditLog.ip,
+        createdAt: adminAuditLog.createdAt,
+        admin: {
+          id: admins.id,
+          username: admins.username,
+          name: admins.name,
+        },
+      })
+      .from(adminAuditLog)
+      .leftJoin(admins, eq(adminAuditLog.adminId, admins.id))
+      .where(and(...conditions))
+      .orderBy(desc(adminAuditLog.createdAt))
+      .limit(filters.limit ?? 500);
+  }
+
   async getDashboardStats(): Promise<{
     totalUsers: number;
     totalCoins: number;
@@ -403,7 +1885,7 @@ export class DatabaseStorage implements IStorage {
         activeRaffles: count(),
       })
       .from(raffles)
-      .where(and(eq(raffles.isActive, true), sql`${raffles.endDate} > NOW()`));
+      .where(and(eq(raffles.isActive, true), isNull(raffles.drawnAt), sql`${raffles.endDate} > NOW()`));
 
     const [dailyStats] = await db
       .select({
@@ -427,6 +1909,244 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // New users and daily reward claims per day, oldest first, with empty days filled in
+  async getDailyActivity(days: number): Promise<DailyActivity[]> {
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    const since = new Date(today.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+
+    const userDay = sql<string>`to_char(${users.createdAt}, 'YYYY-MM-DD')`;
+    const registrations = await db
+      .select({ date: userDay, count: count() })
+      .from(users)
+      .where(gte(users.createdAt, since))
+      .groupBy(userDay);
+
+    const claimDay = sql<string>`to_char(${transactions.createdAt}, 'YYYY-MM-DD')`;
+    const claims = await db
+      .select({ date: claimDay, count: count() })
+      .from(transactions)
+      .where(and(eq(transactions.type, 'daily_reward'), gte(transactions.createdAt, since)))
+      .groupBy(claimDay);
+
+    const registrationsByDay = new Map(registrations.map(row => [row.date, Number(row.count)]));
+    const claimsByDay = new Map(claims.map(row => [row.date, Number(row.count)]));
+
+    return Array.from({ length: days }, (_, i) => {
+      const date = new Date(since.getTime() + i * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      return {
+        date,
+        registrations: registrationsByDay.get(date) ?? 0,
+        dailyActive: claimsByDay.get(date) ?? 0,
+      };
+    });
+  }
+
+  // Users whose stored balance differs from the sum of their wallet's ledger entries
+  async getBalanceMismatches(): Promise<BalanceMismatch[]> {
+    const ledgerBalance = sql<string>`coalesce(sum(${ledgerEntries.amount}), 0)`;
+    const rows = await db
+      .select({
+        userId: users.id,
+        telegramId: users.telegramId,
+        username: users.username,
+        firstName: users.firstName,
+        balance: users.coins,
+        ledgerBalance,
+      })
+      .from(users)
+      .leftJoin(ledgerEntries, and(eq(ledgerEntries.account, 'user_wallet'), eq(ledgerEntries.accountId, users.id)))
+      .groupBy(users.id)
+      .having(sql`${users.coins} <> ${ledgerBalance}`)
+      .orderBy(users.id);
+    return rows.map(row => ({ ...row, ledgerBalance: Number(row.ledgerBalance) }));
+  }
+
+  async countUnbalancedTransactions(): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(transactions)
+      .where(sql`not exists (
+        select 1 from ${ledgerEntries}
+        where ${ledgerEntries.transactionId} = ${transactions.id}
+        having sum(${ledgerEntries.amount}) = 0
+      )`);
+    return Number(result.count);
+  }
+
+  async createLedgerReconciliation(result: InsertLedgerReconciliation): Promise<LedgerReconciliation> {
+    const [created] = await db.insert(ledgerReconciliations).values(result).returning();
+    return created;
+  }
+
+  async getLatestLedgerReconciliation(): Promise<LedgerReconciliation | undefined> {
+    const [latest] = await db
+      .select()
+      .from(ledgerReconciliations)
+      .orderBy(desc(ledgerReconciliations.createdAt))
+      .limit(1);
+    return latest || undefined;
+  }
+
+  async deleteLedgerReconciliationsBefore(before: Date): Promise<number> {
+    const deleted = await db
+      .delete(ledgerReconciliations)
+      .where(lte(ledgerReconciliations.createdAt, before))
+      .returning({ id: ledgerReconciliations.id });
+    return deleted.length;
+  }
+
+  async getSegments(): Promise<Segment[]> {
+    return await db.select().from(segments).orderBy(asc(segments.name));
+  }
+
+  async getSegmentById(id: number): Promise<Segment | undefined> {
+    const [segment] = await db.select().from(segments).where(eq(segments.id, id));
+    return segment || undefined;
+  }
+
+  async getSegmentByName(name: string): Promise<Segment | undefined> {
+    const [segment] = await db.select().from(segments).where(eq(segments.name, name));
+    return segment || undefined;
+  }
+
+  async createSegment(segment: InsertSegment): Promise<Segment> {
+    const [created] = await db.insert(segments).values(segment).returning();
+    return created;
+  }
+
+  async updateSegment(id: number, updates: Partial<Segment>): Promise<Segment | undefined> {
+    const [segment] = await db
+      .update(segments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(segments.id, id))
+      .returning();
+    return segment || undefined;
+  }
+
+  async deleteSegment(id: number): Promise<boolean> {
+    const deleted = await db.delete(segments).where(eq(segments.id, id)).returning({ id: segments.id });
+    return deleted.length > 0;
+  }
+
+  // Active users are the ones a broadcast would reach (not disabled, not unreachable); exports include everyone
+  async countSegmentUsers(criteria: SegmentCriteria): Promise<{ total: number; active: number }> {
+    const [result] = await db
+      .select({
+        total: count(),
+        active: count(sql`CASE WHEN ${users.isActive} AND ${users.reachability} = 'reachable' THEN 1 END`),
+      })
+      .from(users)
+      .where(and(...segmentConditions(criteria)));
+    return { total: Number(result.total), active: Number(result.active) };
+  }
+
+  async getSegmentUsers(criteria: SegmentCriteria): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(and(...segmentConditions(criteria)))
+      .orderBy(desc(users.createdAt));
+  }
+
+  async createBroadcast(broadcast: InsertBroadcast): Promise<Broadcast> {
+    return await db.transaction(tx => queueBroadcast(tx, broadcast));
+  }
+
+  async getBroadcasts(limit: number): Promise<BroadcastSummary[]> {
+    const rows = await broadcastSummaryQuery()
+      .orderBy(desc(broadcasts.createdAt))
+      .limit(limit);
+    return rows.map(toBroadcastSummary);
+  }
+
+  async getBroadcastById(id: number): Promise<BroadcastSummary | undefined> {
+    const [row] = await broadcastSummaryQuery().where(eq(broadcasts.id, id));
+    return row ? toBroadcastSummary(row) : undefined;
+  }
+
+  async getBroadcastFailures(id: number, limit: number): Promise<BroadcastFailure[]> {
+    return await db
+      .select({
+        userId: users.id,
+        telegramId: users.telegramId,
+        username: users.username,
+        firstName: users.firstName,
+        attempts: broadcastDeliveries.attempts,
+        error: broadcastDeliveries.error,
+      })
+      .from(broadcastDeliveries)
+      .innerJoin(users, eq(broadcastDeliveries.userId, users.id))
+      .where(and(eq(broadcastDeliveries.broadcastId, id), eq(broadcastDeliveries.status, 'failed')))
+      .orderBy(asc(broadcastDeliveries.id))
+      .limit(limit);
+  }
+
+  // Stops a broadcast that is still sending. Messages already delivered stay delivered.
+  async cancelBroadcast(id: number): Promise<Broadcast> {
+    return await db.transaction(async (tx) => {
+      const [cancelled] = await tx
+        .update(broadcasts)
+        .set({ status: 'cancelled', completedAt: new Date() })
+        .where(and(eq(broadcasts.id, id), eq(broadcasts.status, 'sending')))
+        .returning();
+      if (!cancelled) {
+        const [existing] = await tx.select({ id: broadcasts.id }).from(broadcasts).where(eq(broadcasts.id, id));
+        throw new Error(existing ? 'Broadcast is not sending' : 'Broadcast not found');
+      }
+
+      await tx
+        .update(broadcastDeliveries)
+        .set({ status: 'cancelled' })
+        .where(and(eq(broadcastDeliveries.broadcastId, id), eq(broadcastDeliveries.status, 'pending')));
+      return cancelled;
+    });
+  }
+
+  // Oldest first, so earlier broadcasts finish before later ones start
+  async getDueBroadcastDeliveries(limit: number): Promise<DueBroadcastDelivery[]> {
+    const rows = await db
+      .select({ delivery: broadcastDeliveries, message: broadcasts.message, media: broadcasts.media, buttons: broadcasts.buttons })
+      .from(broadcastDeliveries)
+      .innerJoin(broadcasts, eq(broadcastDeliveries.broadcastId, broadcasts.id))
+      .where(and(
+        eq(broadcastDeliveries.status, 'pending'),
+        lte(broadcastDeliveries.nextAttemptAt, new Date()),
+        eq(broadcasts.status, 'sending'),
+      ))
+      .orderBy(asc(broadcastDeliveries.id))
+      .limit(limit);
+    return rows.map(({ delivery, ...content }) => ({ ...delivery, ...content }));
+  }
+
+  async updateBroadcastDelivery(id: number, updates: Partial<BroadcastDelivery>): Promise<void> {
+    await db.update(broadcastDeliveries).set(updates).where(eq(broadcastDeliveries.id, id));
+  }
+
+  async getNextBroadcastDeliveryAt(): Promise<Date | null> {
+    const [next] = await db
+      .select({ at: min(broadcastDeliveries.nextAttemptAt) })
+      .from(broadcastDeliveries)
+      .innerJoin(broadcasts, eq(broadcastDeliveries.broadcastId, broadcasts.id))
+      .where(and(eq(broadcastDeliveries.status, 'pending'), eq(broadcasts.status, 'sending')));
+    return next?.at ?? null;
+  }
+
+  // Marks broadcasts with nothing left to send as completed
+  async completeFinishedBroadcasts(): Promise<Broadcast[]> {
+    return await db
+      .update(broadcasts)
+      .set({ status: 'completed', completedAt: new Date() })
+      .where(and(
+        eq(broadcasts.status, 'sending'),
+        sql`NOT EXISTS (
+          SELECT 1 FROM ${broadcastDeliveries}
+          WHERE ${broadcastDeliveries.broadcastId} = ${broadcasts.id} AND ${broadcastDeliveries.status} = 'pending'
+        )`,
+      ))
+      .returning();
+  }
+
   async getSettings(): Promise<Record<string, any>> {
     const settingsList = await db.select().from(botSettings);
     const settings: Record<string, any> = {};
@@ -446,26 +2166,19 @@ export class DatabaseStorage implements IStorage {
 
   async resetAllUserPoints(): Promise<void> {
     await db.transaction(async (tx) => {
-      // Get all users with their current coin balances
-      const allUsers = await tx.select().from(users);
-      
-      // Create transaction records for each user before resetting
-      for (const user of allUsers) {
-        if (user.coins > 0) {
-          await tx.insert(transactions).values({
-            userId: user.id,
-            type: 'admin_adjustment',
-            amount: -user.coins,
-            description: 'Admin reset all user points',
-          });
-        }
-      }
+      // Lock the wallets so no coins move while they're being emptied
+      const holders = await tx.select().from(users).where(ne(users.coins, 0)).for('update');
       
-      // Now reset all user coins to 0
-      await tx
-        .update(users)
-        .set({ coins: 0 })
-        .where(sql`1=1`); // Update all users
+      // Every balance goes back to the mint, so the ledger records where the coins went
+      for (const user of holders) {
+        await moveCoins(tx, {
+          userId: user.id,
+          amount: -user.coins,
+          type: 'admin_adjustment',
+          description: 'Admin reset all user points',
+          counterparty: { account: 'system_mint' },
+        });
+      }
     });
   }
 
@@ -517,6 +2230,100 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // Finishes the tutorial and pays the bonus at most once per user, even if the
+  // completion callback is delivered twice or tapped from two devices
+  async claimOnboardingBonus(telegramId: string, amount: number): Promise<{ user: User; awarded: boolean }> {
+    return db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.telegramId, telegramId)).for('update');
+      
+      if (!user) {
+        throw new Error('User not found');
+      }
+      
+      const [existingBonus] = await tx
+        .select({ id: transactions.id })
+        .from(transactions)
+        .where(and(eq(transactions.userId, user.id), eq(transactions.type, 'onboarding')))
+        .limit(1);
+      
+      const awarded = !existingBonus && amount > 0;
+      
+      if (awarded) {
+        await moveCoins(tx, {
+          userId: user.id,
+          amount,
+          type: 'onboarding',
+          description: 'Tutorial completion bonus',
+          counterparty: { account: 'system_mint' },
+        });
+      }
+      
+      const [updated] = await tx
+        .update(users)
+        .set({
+          onboardingCompleted: true,
+          onboardingStep: 0,
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, user.id))
+        .returning();
+      
+      return { user: updated, awarded };
+    });
+  }
+
+  async getOnboardingFunnel(): Promise<{
+    totalUsers: number;
+    completed: number;
+    notStarted: number;
+    steps: { step: number; key: string; title: string; reached: number; droppedHere: number }[];
+  }> {
+    const rows = await db
+      .select({
+        step: users.onboardingStep,
+        completed: users.onboardingCompleted,
+        count: count(),
+      })
+      .from(users)
+      .groupBy(users.onboardingStep, users.onboardingCompleted);
+
+    let totalUsers = 0;
+    let completed = 0;
+    const inProgressByStep = new Map<number, number>();
+    for (const row of rows) {
+      const rowCount = Number(row.count);
+      totalUsers += rowCount;
+      if (row.completed) {
+        completed += rowCount;
+      } else {
+        inProgressByStep.set(row.step, (inProgressByStep.get(row.step) || 0) + rowCount);
+      }
+    }
+
+    // A user on step N has reached every step up to N; finished users reached them all
+    const steps = TUTORIAL_STEPS.map((tutorialStep, index) => {
+      const step = index + 1;
+      let reached = completed;
+      inProgressByStep.forEach((stepCount, currentStep) => {
+        if (currentStep >= step) reached += stepCount;
+      });
+      return {
+        step,
+        key: tutorialStep.key,
+        title: tutorialStep.title,
+        reached,
+        droppedHere: inProgressByStep.get(step) || 0,
+      };
+    });
+
+    return {
+      totalUsers,
+      completed,
+      notStarted: inProgressByStep.get(0) || 0,
+      steps,
+    };
+  }
+
   async hasClaimedTutorialBonus(telegramId: string): Promise<boolean> {
     // Check if user has ANY onboarding transaction (welcome bonus or completion bonus)
     const bonusTransactions = await db
@@ -532,13 +2339,81 @@ export class DatabaseStorage implements IStorage {
     return bonusTransactions.length > 0;
   }
 
+  async createBroadcastSchedule(schedule: InsertBroadcastSchedule): Promise<BroadcastSchedule> {
+    const [created] = await db.insert(broadcastSchedules).values(schedule).returning();
+    return created;
+  }
+
+  // Soonest first
+  async getUpcomingBroadcastSchedules(): Promise<BroadcastSchedule[]> {
+    return await db
+      .select()
+      .from(broadcastSchedules)
+      .where(eq(broadcastSchedules.status, 'scheduled'))
+      .orderBy(asc(broadcastSchedules.nextRunAt));
+  }
+
+  async getBroadcastScheduleById(id: number): Promise<BroadcastSchedule | undefined> {
+    const [schedule] = await db.select().from(broadcastSchedules).where(eq(broadcastSchedules.id, id));
+    return schedule || undefined;
+  }
+
+  // Only schedules still waiting to send can change
+  async updateBroadcastSchedule(id: number, updates: Partial<BroadcastSchedule>): Promise<BroadcastSchedule> {
+    const [updated] = await db
+      .update(broadcastSchedules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(broadcastSchedules.id, id), eq(broadcastSchedules.status, 'scheduled')))
+      .returning();
+    if (!updated) {
+      const [existing] = await db.select({ id: broadcastSchedules.id }).from(broadcastSchedules).where(eq(broadcastSchedules.id, id));
+      throw new Error(existing ? 'Schedule is no longer active' : 'Schedule not found');
+    }
+    return updated;
+  }
+
+  async cancelBroadcastSchedule(id: number): Promise<BroadcastSchedule> {
+    return await this.updateBroadcastSchedule(id, { status: 'cancelled', nextRunAt: null });
+  }
+
+  // Sends the occurrence due at `dueAt` and moves the schedule on to `nextRunAt` (null when it
+  // was the last one), together, so a send is never lost or repeated. Returns undefined if the
+  // schedule was edited, cancelled or already run for that time.
+  async runBroadcastSchedule(id: number, dueAt: Date, nextRunAt: Date | null): Promise<{ schedule: BroadcastSchedule; broadcast: Broadcast } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [schedule] = await tx
+        .update(broadcastSchedules)
+        .set(nextRunAt
+          ? { nextRunAt, lastRunAt: new Date() }
+          : { nextRunAt: null, lastRunAt: new Date(), status: 'completed' })
+        .where(and(
+          eq(broadcastSchedules.id, id),
+          eq(broadcastSchedules.status, 'scheduled'),
+          eq(broadcastSchedules.nextRunAt, dueAt),
+        ))
+        .returning();
+      if (!schedule) return undefined;
+
+      const broadcast = await queueBroadcast(tx, {
+        message: schedule.message,
+        media: schedule.media,
+        buttons: schedule.buttons,
+        segmentId: schedule.segmentId,
+        criteria: schedule.criteria,
+        scheduleId: schedule.id,
+        createdBy: schedule.createdBy,
+      });
+      return { schedule, broadcast };
+    });
+  }
+
   async getActiveUsers(): Promise<{ telegramId: string }[]> {
     const activeUsers = await db
       .select({
         telegramId: users.telegramId,
       })
       .from(users)
-      .where(eq(users.isActive, true));
+      .where(and(eq(users.isActive, true), eq(users.reachability, 'reachable')));
     
     return activeUsers;
   }
@@ -0,0 +1,46 @@
+// Steps of the guided tour new users get from /start. `users.onboardingStep` stores the
+// 1-based position of the step the user is on (0 = not started), and `tutorialProgress`
+// records when each step key was first seen, so the tour resumes where it was left.
+
+export interface TutorialStep {
+  key: string;
+  title: string;
+  // Optional button that lets the user try the feature from inside the tour
+  action?: { text: string; callbackData: string };
+}
+
+export const TUTORIAL_STEPS: TutorialStep[] = [
+  { key: 'welcome', title: 'Welcome' },
+  { key: 'checkin', title: 'Daily Check-in', action: { text: '✅ Check in now', callbackData: 'tutorial_checkin' } },
+  { key: 'referral', title: 'Invite Friends' },
+  { key: 'raffle', title: 'Raffles' },
+  { key: 'shop', title: 'Coin Shop' },
+];
+
+export interface TutorialContext {
+  dailyRewardAmount: number;
+  referralReward: number;
+  bonusAmount: number;
+  referralLink: string;
+  activeRaffles: number;
+  shopItems: number;
+}
+
+export function renderTutorialStep(step: TutorialStep, ctx: TutorialContext): string {
+  const position = `_Step ${TUTORIAL_STEPS.indexOf(step) + 1} of ${TUTORIAL_STEPS.length}_`;
+
+  switch (step.key) {
+    case 'welcome':
+      return `🎓 **Welcome to the tour!**\n\n${position}\n\nYou earn coins here and spend them on raffles and shop items. This short tour shows you how - finish it to get a one-time bonus of ${ctx.bonusAmount} coin${ctx.bonusAmount === 1 ? '' : 's'}!`;
+    case 'checkin':
+      return `✅ **Daily Check-in**\n\n${position}\n\nCheck in once a day to earn ${ctx.dailyRewardAmount} coin${ctx.dailyRewardAmount === 1 ? '' : 's'}. Checking in on consecutive days builds your streak 🔥\n\nTry it now, or tap Next to continue.`;
+    case 'referral':
+      return `👥 **Invite Friends**\n\n${position}\n\nShare your personal link. When a friend joins through it, you both get ${ctx.referralReward} coin${ctx.referralReward === 1 ? '' : 's'}.\n\n🔗 \`${ctx.referralLink}\``;
+    case 'raffle':
+      return `🎪 **Raffles**\n\n${position}\n\nSpend coins on raffle tickets. More tickets mean a better chance to win, and winners are drawn automatically when the raffle ends.\n\n📊 Raffles open right now: ${ctx.activeRaffles}`;
+    case 'shop':
+      return `🛍️ **Coin Shop**\n\n${position}\n\nTrade your coins for rewards in the shop. Items with limited stock go fast!\n\n📦 Items available right now: ${ctx.shopItems}`;
+    default:
+      return step.title;
+  }
+}
@@ -0,0 +1,82 @@
+import { z } from "zod";
+
+// What a broadcast looks like in the chat: Markdown text, optionally with a photo, video or
+// document (the text becomes its caption), and inline buttons underneath. Shared so the
+// admin panel's preview and the bot send the same thing.
+
+export const BROADCAST_MEDIA_TYPES = ['photo', 'video', 'document'] as const;
+
+// Telegram's limits: captions are much shorter than plain messages
+export const MESSAGE_LIMIT = 4096;
+export const CAPTION_LIMIT = 1024;
+export const MAX_BROADCAST_BUTTONS = 8;
+
+// Bot screens a button can open, as if the user had tapped them in the main menu.
+// A raffle's own page is 'raffle_<id>'.
+export const BOT_ACTIONS: Record<string, string> = {
+  view_raffles: 'Raffles',
+  view_shop: 'Shop',
+  my_info: 'My info',
+  referral_link: 'Referral link',
+};
+
+// Broadcast buttons carry their action with this prefix, so the bot knows to answer with a new
+// message rather than editing the broadcast itself
+export const BROADCAST_ACTION_PREFIX = 'broadcast:';
+
+export function isBotAction(action: string): boolean {
+  return Object.hasOwn(BOT_ACTIONS, action) || /^raffle_\d+$/.test(action);
+}
+
+export const broadcastMediaSchema = z
+  .object({
+    type: z.enum(BROADCAST_MEDIA_TYPES),
+    // A public link Telegram fetches itself
+    url: z.string().trim().url().refine(url => /^https?:\/\//i.test(url), 'Use an http(s) link'),
+  })
+  .strict();
+
+const buttonText = z.string().trim().min(1, 'Button text is required').max(64);
+
+export const broadcastButtonSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('url'),
+    text: buttonText,
+    url: z.string().trim().url().refine(url => /^(https?|tg):\/\//i.test(url), 'Use an http(s) or tg:// link'),
+  }).strict(),
+  z.object({
+    type: z.literal('action'),
+    text: buttonText,
+    action: z.string().refine(isBotAction, 'Unknown bot action'),
+  }).strict(),
+]);
+
+export const broadcastButtonsSchema = z.array(broadcastButtonSchema).max(MAX_BROADCAST_BUTTONS);
+
+export type BroadcastMedia = z.infer<typeof broadcastMediaSchema>;
+export type BroadcastButton = z.infer<typeof broadcastButtonSchema>;
+
+export interface BroadcastContent {
+  message: string;
+  media: BroadcastMedia | null;
+  buttons: BroadcastButton[];
+}
+
+// Whether the pieces fit together; null when the content can be sent
+export function broadcastContentError(content: BroadcastContent): string | null {
+  if (!content.message.trim() && !content.media) {
+    return 'Message is required';
+  }
+  if (content.media && content.message.length > CAPTION_LIMIT) {
+    return `A caption can be at most ${CAPTION_LIMIT} characters`;
+  }
+  if (content.message.length > MESSAGE_LIMIT) {
+    return `A message can be at most ${MESSAGE_LIMIT} characters`;
+  }
+  return null;
+}
+
+// One line for lists and the audit log, e.g. "[photo] Summer sale!"
+export function summarizeContent(content: Pick<BroadcastContent, 'message' | 'media'>): string {
+  return content.media ? `[${content.media.type}] ${content.message}`.trim() : content.message;
+}
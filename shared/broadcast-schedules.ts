@@ -0,0 +1,120 @@
+// When scheduled broadcasts go out. Times are wall-clock times in the schedule's own IANA
+// timezone, so "every Monday 10:00 Europe/Berlin" stays at 10:00 across daylight saving.
+// Shared so the server's scheduler and the admin panel's calendar agree on every send.
+
+export const BROADCAST_REPEATS = ['none', 'daily', 'weekly'] as const;
+export type BroadcastRepeat = typeof BROADCAST_REPEATS[number];
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface ScheduleTiming {
+  repeat: string;
+  timezone: string;
+  // YYYY-MM-DD, only for one-off sends
+  localDate: string | null;
+  // HH:MM, 24-hour
+  localTime: string;
+  // 0 = Sunday, only for weekly sends
+  weekday: number | null;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+// How far ahead of UTC the timezone's clocks are at `date`, in milliseconds
+function timeZoneOffset(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The moment the timezone's clocks show this date and time. A time skipped by a daylight
+// saving jump comes out an hour later, and a time that happens twice takes the first.
+export function zonedTimeToDate(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const halfDay = 12 * 60 * 60 * 1000;
+  const before = wallClock - timeZoneOffset(new Date(wallClock - halfDay), timeZone);
+  const after = wallClock - timeZoneOffset(new Date(wallClock + halfDay), timeZone);
+  const matches = [before, after]
+    .filter(candidate => candidate + timeZoneOffset(new Date(candidate), timeZone) === wallClock)
+    .sort((a, b) => a - b);
+  return new Date(matches[0] ?? before);
+}
+
+function parseTime(localTime: string): [number, number] {
+  const [hour, minute] = localTime.split(':').map(Number);
+  return [hour, minute];
+}
+
+// The first send strictly after `after`, or null if there are no more
+export function nextOccurrence(timing: ScheduleTiming, after: Date): Date | null {
+  const [hour, minute] = parseTime(timing.localTime);
+
+  if (timing.repeat === 'none') {
+    if (!timing.localDate) return null;
+    const [year, month, day] = timing.localDate.split('-').map(Number);
+    const runAt = zonedTimeToDate(year, month, day, hour, minute, timing.timezone);
+    return runAt > after ? runAt : null;
+  }
+
+  // Today in the schedule's timezone, then each following day until one matches
+  const today = zonedParts(after, timing.timezone);
+  for (let offset = 0; offset <= 7; offset++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    if (timing.repeat === 'weekly' && date.getUTCDay() !== timing.weekday) continue;
+
+    const runAt = zonedTimeToDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), hour, minute, timing.timezone);
+    if (runAt > after) return runAt;
+  }
+  return null;
+}
+
+// Every send from `from` up to `to`, for the calendar
+export function occurrencesBetween(timing: ScheduleTiming, from: Date, to: Date): Date[] {
+  const occurrences: Date[] = [];
+  let next = nextOccurrence(timing, new Date(from.getTime() - 1));
+  while (next && next <= to) {
+    occurrences.push(next);
+    next = nextOccurrence(timing, next);
+  }
+  return occurrences;
+}
+
+export function describeTiming(timing: ScheduleTiming): string {
+  const zone = timing.timezone.replace(/_/g, ' ');
+  switch (timing.repeat) {
+    case 'daily': return `Every day at ${timing.localTime} (${zone})`;
+    case 'weekly': return `Every ${WEEKDAY_NAMES[timing.weekday ?? 0]} at ${timing.localTime} (${zone})`;
+    default: return `${timing.localDate} at ${timing.localTime} (${zone})`;
+  }
+}
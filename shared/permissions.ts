@@ -0,0 +1,62 @@
+// Admin roles and what each one may do. Shared so the API and the admin panel
+// agree on which actions to allow and which buttons to show.
+
+export const ADMIN_ROLES = ['owner', 'manager', 'support', 'viewer'] as const;
+export type AdminRole = typeof ADMIN_ROLES[number];
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  support: 'Support',
+  viewer: 'Viewer',
+};
+
+export const PERMISSIONS = [
+  'users.view',
+  'users.edit',
+  'users.adjust_coins',
+  'users.export',
+  'users.reset_points',
+  'transactions.view',
+  'raffles.view',
+  'raffles.manage',
+  'raffles.draw',
+  'shop.view',
+  'shop.manage',
+  'orders.view',
+  'orders.manage',
+  'conversations.view',
+  'conversations.manage',
+  'broadcast.send',
+  'audit.view',
+  'admins.manage',
+  'settings.view',
+  'settings.manage',
+  // Bot token, public URL and delivery mode: a mistake here takes the bot offline
+  'settings.bot',
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+const VIEW_PERMISSIONS: Permission[] = [
+  'users.view',
+  'transactions.view',
+  'raffles.view',
+  'shop.view',
+  'orders.view',
+  'conversations.view',
+];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  manager: PERMISSIONS.filter(p => !['users.reset_points', 'broadcast.send', 'settings.bot', 'admins.manage'].includes(p)),
+  support: [...VIEW_PERMISSIONS, 'users.edit', 'users.adjust_coins', 'orders.manage', 'conversations.manage'],
+  viewer: VIEW_PERMISSIONS,
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+export function hasPermission(role: AdminRole | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
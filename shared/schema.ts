@@ -1,7 +1,16 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, pgEnum, text, serial, integer, boolean, timestamp, jsonb, unique, index } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { ADMIN_ROLES } from "./permissions";
+import { segmentCriteriaSchema, type SegmentCriteria } from "./segments";
+import { BROADCAST_REPEATS, isValidTimeZone } from "./broadcast-schedules";
+import { broadcastMediaSchema, broadcastButtonsSchema, MESSAGE_LIMIT, type BroadcastMedia, type BroadcastButton } from "./broadcast-content";
+
+// Whether the bot can still message a user. Set from Telegram's answer when a message to them
+// fails, and back to 'reachable' as soon as they message the bot again.
+export const USER_REACHABILITY = ['reachable', 'blocked', 'chat_not_found', 'deactivated'] as const;
+export type UserReachability = typeof USER_REACHABILITY[number];
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -15,6 +24,8 @@ export const users = pgTable("users", {
   referredBy: text("referred_by"),
   lastDailyReward: timestamp("last_daily_reward"),
   isActive: boolean("is_active").default(true).notNull(),
+  reachability: text("reachability").default("reachable").notNull(), // see USER_REACHABILITY
+  unreachableSince: timestamp("unreachable_since"),
   onboardingCompleted: boolean("onboarding_completed").default(false).notNull(),
   onboardingStep: integer("onboarding_step").default(0).notNull(),
   tutorialProgress: jsonb("tutorial_progress").default({}),
@@ -27,19 +38,81 @@ export const admins = pgTable("admins", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   name: text("name").notNull(),
+  role: text("role").default("owner").notNull(), // see ADMIN_ROLES in shared/permissions.ts
+  isActive: boolean("is_active").default(true).notNull(),
+  // Carried in every access token and 2FA challenge; bumping it invalidates the ones already issued
+  tokenVersion: integer("token_version").default(0).notNull(),
+  // TOTP two-factor auth. The secret is set at enrollment and only used once totpEnabled is true.
+  totpSecret: text("totp_secret"),
+  totpEnabled: boolean("totp_enabled").default(false).notNull(),
+  totpLastStep: integer("totp_last_step"), // last accepted time step, so a code can't be reused
+  recoveryCodes: jsonb("recovery_codes").$type<string[]>().default([]).notNull(), // sha256 hashes
+  // Failed sign-ins since the last successful one; reaching the threshold sets lockedUntil
+  failedLoginCount: integer("failed_login_count").default(0).notNull(),
+  lockedUntil: timestamp("locked_until"),
+  // The admin's own Telegram chat, where test broadcasts go
+  telegramId: text("telegram_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const TRANSACTION_TYPES = [
+  'daily_reward',
+  'referral',
+  'onboarding',
+  'raffle_entry',
+  'shop_purchase',
+  'shop_refund',
+  'admin_adjustment',
+  // Written once by scripts/backfill-ledger.ts for balances that predate the ledger
+  'opening_balance',
+] as const;
+export type TransactionType = typeof TRANSACTION_TYPES[number];
+
+export const transactionTypeEnum = pgEnum("transaction_type", TRANSACTION_TYPES);
+
+// A user's coin history. Each row is posted to the ledger as a balanced pair of ledger_entries.
 export const transactions = pgTable("transactions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
-  type: text("type").notNull(), // 'daily_reward', 'referral', 'raffle_entry', 'shop_purchase', 'admin_adjustment'
+  type: transactionTypeEnum("type").notNull(),
   amount: integer("amount").notNull(),
   description: text("description"),
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Where coins can sit. Coins enter through the mint (rewards, admin grants) and leave into
+// raffle pools and the shop sink; user wallets hold the rest.
+export const LEDGER_ACCOUNTS = ['user_wallet', 'system_mint', 'raffle_pool', 'shop_sink'] as const;
+export type LedgerAccount = typeof LEDGER_ACCOUNTS[number];
+
+export const ledgerAccountEnum = pgEnum("ledger_account", LEDGER_ACCOUNTS);
+
+// Double-entry ledger. Entries are only ever inserted, and those of one transaction sum to zero.
+// `accountId` is the user id for wallets, the raffle id for pools and the shop item id for the sink.
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: serial("id").primaryKey(),
+  transactionId: integer("transaction_id").references(() => transactions.id).notNull(),
+  account: ledgerAccountEnum("account").notNull(),
+  accountId: integer("account_id"),
+  amount: integer("amount").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("ledger_entries_account_idx").on(table.account, table.accountId),
+  index("ledger_entries_transaction_idx").on(table.transactionId),
+]);
+
+// Result of each run of the reconciliation job, which compares users.coins with the ledger
+export const ledgerReconciliations = pgTable("ledger_reconciliations", {
+  id: serial("id").primaryKey(),
+  usersChecked: integer("users_checked").notNull(),
+  // [{ userId, telegramId, username, firstName, balance, ledgerBalance }]
+  mismatches: jsonb("mismatches").notNull(),
+  // Transactions whose ledger entries don't sum to zero, or that have none
+  unbalancedTransactions: integer("unbalanced_transactions").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const raffles = pgTable("raffles", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
@@ -47,11 +120,26 @@ export const raffles = pgTable("raffles", {
   prizeDescription: text("prize_description").notNull(),
   entryCost: integer("entry_cost").notNull(),
   maxEntries: integer("max_entries"),
+  maxEntriesPerUser: integer("max_entries_per_user"),
   currentEntries: integer("current_entries").default(0).notNull(),
   startDate: timestamp("start_date").defaultNow().notNull(),
   endDate: timestamp("end_date").notNull(),
   winnerId: integer("winner_id").references(() => users.id),
   isActive: boolean("is_active").default(true).notNull(),
+  drawSeed: text("draw_seed"),
+  drawAlgorithm: text("draw_algorithm"),
+  drawProof: jsonb("draw_proof"),
+  drawnAt: timestamp("drawn_at"),
+  resultsNotifiedAt: timestamp("results_notified_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const raffleWinners = pgTable("raffle_winners", {
+  id: serial("id").primaryKey(),
+  raffleId: integer("raffle_id").references(() => raffles.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  rank: integer("rank").notNull(), // 1 = grand prize
+  tickets: integer("tickets").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -61,7 +149,11 @@ export const raffleEntries = pgTable("raffle_entries", {
   userId: integer("user_id").references(() => users.id).notNull(),
   entries: integer("entries").default(1).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  // One row per user per raffle; buying more tickets adds to `entries`
+  unique("raffle_entries_raffle_user_unique").on(table.raffleId, table.userId),
+]);
 
 export const shopItems = pgTable("shop_items", {
   id: serial("id").primaryKey(),
@@ -71,6 +163,8 @@ export const shopItems = pgTable("shop_items", {
   stock: integer("stock"),
   imageUrl: text("image_url"),
   isActive: boolean("is_active").default(true).notNull(),
+  requiresFulfillment: boolean("requires_fulfillment").default(false).notNull(), // purchases start 'pending' until an admin fulfills them
+  deliversCodes: boolean("delivers_codes").default(false).notNull(), // stock is the number of unused rows in shop_item_codes
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -81,9 +175,23 @@ export const purchases = pgTable("purchases", {
   quantity: integer("quantity").default(1).notNull(),
   totalCost: integer("total_cost").notNull(),
   status: text("status").default("pending").notNull(), // 'pending', 'completed', 'cancelled'
+  note: text("note"), // admin's note to the buyer, sent along with status changes
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Redeemable codes (gift cards, vouchers) sold through a shop item, one per purchase
+export const shopItemCodes = pgTable("shop_item_codes", {
+  id: serial("id").primaryKey(),
+  itemId: integer("item_id").references(() => shopItems.id).notNull(),
+  code: text("code").notNull(),
+  purchaseId: integer("purchase_id").references(() => purchases.id).unique(),
+  assignedAt: timestamp("assigned_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("shop_item_codes_item_code_unique").on(table.itemId, table.code),
+]);
+
 export const botSettings = pgTable("bot_settings", {
   id: serial("id").primaryKey(),
   key: text("key").notNull().unique(),
@@ -92,6 +200,145 @@ export const botSettings = pgTable("bot_settings", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Multi-step bot flows (e.g. "send me your invite code"). One row per Telegram user;
+// a row past its expiresAt is treated as if it did not exist.
+export const conversationStates = pgTable("conversation_states", {
+  id: serial("id").primaryKey(),
+  telegramId: text("telegram_id").notNull().unique(),
+  state: text("state").notNull(),
+  payload: jsonb("payload").default({}).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Every sign-in attempt, successful or not. Backoff and lockouts are worked out from these rows,
+// so throttling needs nothing but the database. `username` is stored as typed, lowercased.
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull(),
+  ip: text("ip"),
+  succeeded: boolean("succeeded").notNull(),
+  reason: text("reason"), // 'wrong_password', 'wrong_code', 'locked', 'throttled'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One row per signed-in device. The refresh token is rotated on every use and only its sha256
+// hash is stored; the previous hash is kept so a replayed (stolen) token can be recognised.
+export const adminSessions = pgTable("admin_sessions", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").references(() => admins.id, { onDelete: 'cascade' }).notNull(),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(),
+  previousTokenHash: text("previous_token_hash"),
+  userAgent: text("user_agent"),
+  ip: text("ip"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Saved audiences for broadcasts and exports; see shared/segments.ts for the criteria
+export const segments = pgTable("segments", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  criteria: jsonb("criteria").$type<SegmentCriteria>().notNull(),
+  createdBy: integer("created_by").references(() => admins.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Broadcasts to send later, once or on repeat; see shared/broadcast-schedules.ts for the timing.
+// The scheduler creates a broadcast from the schedule at nextRunAt and moves nextRunAt on.
+export const broadcastSchedules = pgTable("broadcast_schedules", {
+  id: serial("id").primaryKey(),
+  message: text("message").notNull(),
+  // See shared/broadcast-content.ts; with media the message is its caption
+  media: jsonb("media").$type<BroadcastMedia>(),
+  buttons: jsonb("buttons").$type<BroadcastButton[]>().default([]).notNull(),
+  segmentId: integer("segment_id").references(() => segments.id, { onDelete: 'set null' }),
+  criteria: jsonb("criteria").$type<SegmentCriteria>().default({}).notNull(),
+  repeat: text("repeat").default("none").notNull(), // 'none', 'daily', 'weekly'
+  timezone: text("timezone").notNull(),
+  localDate: text("local_date"), // YYYY-MM-DD, when repeat is 'none'
+  localTime: text("local_time").notNull(), // HH:MM
+  weekday: integer("weekday"), // 0 = Sunday, when repeat is 'weekly'
+  status: text("status").default("scheduled").notNull(), // 'scheduled', 'completed', 'cancelled'
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  createdBy: integer("created_by").references(() => admins.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// An announcement sent to many users. Sending happens in the background, one delivery row per
+// recipient, so a restart resumes where it stopped and the report shows who got it.
+export const broadcasts = pgTable("broadcasts", {
+  id: serial("id").primaryKey(),
+  message: text("message").notNull(),
+  media: jsonb("media").$type<BroadcastMedia>(),
+  buttons: jsonb("buttons").$type<BroadcastButton[]>().default([]).notNull(),
+  status: text("status").default("sending").notNull(), // 'sending', 'completed', 'cancelled'
+  // The audience as it was when sent, so editing or deleting the segment doesn't change the report
+  segmentId: integer("segment_id").references(() => segments.id, { onDelete: 'set null' }),
+  criteria: jsonb("criteria").$type<SegmentCriteria>().default({}).notNull(),
+  // Set when a schedule sent it rather than an admin
+  scheduleId: integer("schedule_id").references(() => broadcastSchedules.id, { onDelete: 'set null' }),
+  createdBy: integer("created_by").references(() => admins.id, { onDelete: 'set null' }),
+  totalRecipients: integer("total_recipients").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const broadcastDeliveries = pgTable("broadcast_deliveries", {
+  id: serial("id").primaryKey(),
+  broadcastId: integer("broadcast_id").references(() => broadcasts.id, { onDelete: 'cascade' }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  chatId: text("chat_id").notNull(),
+  status: text("status").default("pending").notNull(), // 'pending', 'sent', 'failed', 'cancelled'
+  attempts: integer("attempts").default(0).notNull(),
+  // Not tried again before this, e.g. after Telegram asked us to slow down
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  error: text("error"),
+  sentAt: timestamp("sent_at"),
+}, (table) => [
+  unique("broadcast_deliveries_broadcast_user_unique").on(table.broadcastId, table.userId),
+  index("broadcast_deliveries_due_idx").on(table.status, table.nextAttemptAt),
+]);
+
+// Operations that must not run twice, by the key their caller sent: an admin's Idempotency-Key
+// header, or a Telegram callback query id. A duplicate gets the stored result back instead.
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  id: serial("id").primaryKey(),
+  scope: text("scope").notNull(), // 'admin:<id>' or 'telegram_callback'
+  key: text("key").notNull(),
+  // sha256 of what was asked for, so a key reused for a different request is rejected
+  fingerprint: text("fingerprint").notNull(),
+  // Set once the operation has finished; until then duplicates are turned away
+  responseStatus: integer("response_status"),
+  response: jsonb("response"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("idempotency_keys_scope_key_unique").on(table.scope, table.key),
+]);
+
+// One row per POST/PATCH/DELETE an admin makes through the API. `changes` holds only the
+// fields that differ, as { field: { before, after } }.
+export const adminAuditLog = pgTable("admin_audit_log", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").references(() => admins.id, { onDelete: 'set null' }),
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  statusCode: integer("status_code").notNull(),
+  entityType: text("entity_type"),
+  entityId: text("entity_id"),
+  description: text("description"),
+  changes: jsonb("changes"),
+  ip: text("ip"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   transactions: many(transactions),
@@ -99,13 +346,24 @@ export const usersRelations = relations(users, ({ many }) => ({
   purchases: many(purchases),
 }));
 
-export const transactionsRelations = relations(transactions, ({ one }) => ({
+export const transactionsRelations = relations(transactions, ({ one, many }) => ({
   user: one(users, { fields: [transactions.userId], references: [users.id] }),
+  ledgerEntries: many(ledgerEntries),
+}));
+
+export const ledgerEntriesRelations = relations(ledgerEntries, ({ one }) => ({
+  transaction: one(transactions, { fields: [ledgerEntries.transactionId], references: [transactions.id] }),
 }));
 
 export const rafflesRelations = relations(raffles, ({ one, many }) => ({
   winner: one(users, { fields: [raffles.winnerId], references: [users.id] }),
   entries: many(raffleEntries),
+  winners: many(raffleWinners),
+}));
+
+export const raffleWinnersRelations = relations(raffleWinners, ({ one }) => ({
+  raffle: one(raffles, { fields: [raffleWinners.raffleId], references: [raffles.id] }),
+  user: one(users, { fields: [raffleWinners.userId], references: [users.id] }),
 }));
 
 export const raffleEntriesRelations = relations(raffleEntries, ({ one }) => ({
@@ -115,6 +373,20 @@ export const raffleEntriesRelations = relations(raffleEntries, ({ one }) => ({
 
 export const shopItemsRelations = relations(shopItems, ({ many }) => ({
   purchases: many(purchases),
+  codes: many(shopItemCodes),
+}));
+
+export const shopItemCodesRelations = relations(shopItemCodes, ({ one }) => ({
+  item: one(shopItems, { fields: [shopItemCodes.itemId], references: [shopItems.id] }),
+  purchase: one(purchases, { fields: [shopItemCodes.purchaseId], references: [purchases.id] }),
+}));
+
+export const adminAuditLogRelations = relations(adminAuditLog, ({ one }) => ({
+  admin: one(admins, { fields: [adminAuditLog.adminId], references: [admins.id] }),
+}));
+
+export const adminSessionsRelations = relations(adminSessions, ({ one }) => ({
+  admin: one(admins, { fields: [adminSessions.adminId], references: [admins.id] }),
 }));
 
 export const purchasesRelations = relations(purchases, ({ one }) => ({
@@ -123,29 +395,240 @@ export const purchasesRelations = relations(purchases, ({ one }) => ({
 }));
 
 // Insert schemas
-export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertAdminSchema = createInsertSchema(admins).omit({ id: true, createdAt: true });
+// Balances only change through the ledger, so new users always start at the column default of 0
+export const insertUserSchema = createInsertSchema(users).omit({ id: true, coins: true, createdAt: true, updatedAt: true });
+export const insertAdminSchema = createInsertSchema(admins).omit({
+  id: true, createdAt: true, tokenVersion: true, totpSecret: true, totpEnabled: true, totpLastStep: true, recoveryCodes: true,
+  failedLoginCount: true, lockedUntil: true,
+});
 export const insertTransactionSchema = createInsertSchema(transactions).omit({ id: true, createdAt: true });
+export const insertLedgerEntrySchema = createInsertSchema(ledgerEntries).omit({ id: true, createdAt: true });
+export const insertLedgerReconciliationSchema = createInsertSchema(ledgerReconciliations).omit({ id: true, createdAt: true });
 export const insertRaffleSchema = createInsertSchema(raffles).omit({ id: true, createdAt: true });
-export const insertRaffleEntrySchema = createInsertSchema(raffleEntries).omit({ id: true, createdAt: true });
+export const insertRaffleEntrySchema = createInsertSchema(raffleEntries).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertShopItemSchema = createInsertSchema(shopItems).omit({ id: true, createdAt: true });
-export const insertPurchaseSchema = createInsertSchema(purchases).omit({ id: true, createdAt: true });
+export const insertPurchaseSchema = createInsertSchema(purchases).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertBotSettingSchema = createInsertSchema(botSettings).omit({ id: true, updatedAt: true });
+export const insertConversationStateSchema = createInsertSchema(conversationStates).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertAdminAuditLogSchema = createInsertSchema(adminAuditLog).omit({ id: true, createdAt: true });
+export const insertLoginAttemptSchema = createInsertSchema(loginAttempts).omit({ id: true, createdAt: true });
+export const insertSegmentSchema = createInsertSchema(segments, { criteria: segmentCriteriaSchema }).pick({ name: true, criteria: true, createdBy: true });
+const broadcastContentColumns = { media: broadcastMediaSchema.nullable(), buttons: broadcastButtonsSchema };
+export const insertBroadcastSchema = createInsertSchema(broadcasts, { criteria: segmentCriteriaSchema, ...broadcastContentColumns }).pick({
+  message: true, media: true, buttons: true, segmentId: true, criteria: true, scheduleId: true, createdBy: true,
+});
+export const insertBroadcastScheduleSchema = createInsertSchema(broadcastSchedules, { criteria: segmentCriteriaSchema, ...broadcastContentColumns }).omit({
+  id: true, status: true, lastRunAt: true, createdAt: true, updatedAt: true,
+});
+export const insertIdempotencyKeySchema = createInsertSchema(idempotencyKeys).pick({ scope: true, key: true, fingerprint: true });
+export const insertAdminSessionSchema = createInsertSchema(adminSessions).omit({
+  id: true, createdAt: true, lastUsedAt: true, previousTokenHash: true, revokedAt: true,
+});
+
+// Admin API request bodies. Each is an explicit allow-list: any other key is rejected, so columns
+// such as coins, telegramId, referralCode or winnerId can't be written through them. Coin balances
+// only change through the ledger (see moveCoins in server/storage.ts).
+const nothingToUpdate = { message: 'Nothing to update' };
+const hasUpdates = (data: object) => Object.keys(data).length > 0;
+
+export const updateUserSchema = insertUserSchema
+  .pick({ username: true, firstName: true, lastName: true, isActive: true })
+  .partial()
+  .strict()
+  .refine(hasUpdates, nothingToUpdate);
+
+export const createRaffleSchema = insertRaffleSchema
+  .pick({
+    title: true, description: true, prizeDescription: true, entryCost: true, maxEntries: true,
+    maxEntriesPerUser: true, startDate: true, endDate: true, isActive: true,
+  })
+  .extend({
+    title: z.string().trim().min(1),
+    prizeDescription: z.string().trim().min(1),
+    entryCost: z.number().int().min(1),
+    maxEntries: z.number().int().min(1).nullable().optional(),
+    maxEntriesPerUser: z.number().int().min(1).nullable().optional(),
+    // JSON carries dates as ISO strings
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date(),
+  })
+  .strict();
+
+export const updateRaffleSchema = createRaffleSchema.partial().refine(hasUpdates, nothingToUpdate);
+
+export const createShopItemSchema = insertShopItemSchema
+  .pick({ name: true, description: true, cost: true, stock: true, imageUrl: true, isActive: true, requiresFulfillment: true })
+  .extend({
+    name: z.string().trim().min(1),
+    cost: z.number().int().min(1),
+    stock: z.number().int().min(0).nullable().optional(),
+  })
+  .strict();
+
+export const updateShopItemSchema = createShopItemSchema.partial().refine(hasUpdates, nothingToUpdate);
+
+export const createSegmentSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    criteria: segmentCriteriaSchema,
+  })
+  .strict();
+
+export const updateSegmentSchema = createSegmentSchema.partial().refine(hasUpdates, nothingToUpdate);
+
+// Whether the message, media and buttons fit together is checked once merged, see
+// broadcastContentError in shared/broadcast-content.ts
+const broadcastContentFields = {
+  message: z.string().trim().max(MESSAGE_LIMIT),
+  media: broadcastMediaSchema.nullable().optional(),
+  buttons: broadcastButtonsSchema.optional(),
+};
+// Without a segment or criteria it goes to everyone
+const broadcastFields = {
+  ...broadcastContentFields,
+  segmentId: z.number().int().positive().optional(),
+  criteria: segmentCriteriaSchema.optional(),
+};
+const oneAudience = (data: { segmentId?: number; criteria?: object }) => data.segmentId === undefined || data.criteria === undefined;
+const bothAudiences = { message: 'Send either segmentId or criteria, not both' };
+
+export const createBroadcastSchema = z
+  .object(broadcastFields)
+  .strict()
+  .refine(oneAudience, bothAudiences);
+
+// A copy sent only to the admin, to check how it looks
+export const testBroadcastSchema = z.object(broadcastContentFields).strict();
+
+// Whether the timing fits together (a date for one-off sends, a weekday for weekly ones) is
+// checked once merged with the saved schedule, see planSchedule in server/routes.ts
+const broadcastScheduleFields = {
+  ...broadcastFields,
+  repeat: z.enum(BROADCAST_REPEATS),
+  timezone: z.string().refine(isValidTimeZone, 'Unknown timezone'),
+  localDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').nullable().optional(),
+  localTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:MM'),
+  weekday: z.number().int().min(0).max(6).nullable().optional(),
+};
+
+export const createBroadcastScheduleSchema = z
+  .object(broadcastScheduleFields)
+  .strict()
+  .refine(oneAudience, bothAudiences);
+
+export const updateBroadcastScheduleSchema = z
+  .object(broadcastScheduleFields)
+  .partial()
+  .strict()
+  .refine(hasUpdates, nothingToUpdate)
+  .refine(oneAudience, bothAudiences);
+
+export const updateAdminSchema = z
+  .object({
+    name: z.string().trim().min(1),
+    role: z.enum(ADMIN_ROLES),
+    isActive: z.boolean(),
+    resetTwoFactor: z.literal(true),
+    unlock: z.literal(true),
+  })
+  .partial()
+  .strict()
+  .refine(hasUpdates, nothingToUpdate);
+
+// What a signed-in admin can change about themselves
+export const updateProfileSchema = z
+  .object({
+    telegramId: z.string().trim().regex(/^\d+$/, 'Use your numeric Telegram user ID').nullable(),
+  })
+  .strict();
+
+// Number inputs left empty arrive as null and leave the setting unchanged
+export const updateSettingsSchema = z
+  .object({
+    botToken: z.string(),
+    publicBaseUrl: z.string(),
+    botMode: z.enum(['auto', 'webhook', 'polling']),
+    dailyRewardAmount: z.number().int().min(0).nullable(),
+    referralRewardAmount: z.number().int().min(0).nullable(),
+    onboardingBonusAmount: z.number().int().min(0).nullable(),
+    shopEnabled: z.boolean(),
+    rafflesEnabled: z.boolean(),
+    referralsEnabled: z.boolean(),
+    maintenanceMode: z.boolean(),
+    maintenanceMessage: z.string(),
+    adminTelegramIds: z.string(),
+    requireTwoFactorForOwners: z.boolean(),
+  })
+  .partial()
+  .strict();
 
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
 export type Admin = typeof admins.$inferSelect;
 export type InsertAdmin = z.infer<typeof insertAdminSchema>;
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type InsertLedgerEntry = z.infer<typeof insertLedgerEntrySchema>;
+export type LedgerReconciliation = typeof ledgerReconciliations.$inferSelect;
+export type InsertLedgerReconciliation = z.infer<typeof insertLedgerReconciliationSchema>;
 export type Raffle = typeof raffles.$inferSelect;
 export type InsertRaffle = z.infer<typeof insertRaffleSchema>;
+export type UpdateRaffle = z.infer<typeof updateRaffleSchema>;
 export type RaffleEntry = typeof raffleEntries.$inferSelect;
 export type InsertRaffleEntry = z.infer<typeof insertRaffleEntrySchema>;
 export type ShopItem = typeof shopItems.$inferSelect;
 export type InsertShopItem = z.infer<typeof insertShopItemSchema>;
+export type UpdateShopItem = z.infer<typeof updateShopItemSchema>;
 export type Purchase = typeof purchases.$inferSelect;
 export type InsertPurchase = z.infer<typeof insertPurchaseSchema>;
 export type BotSetting = typeof botSettings.$inferSelect;
 export type InsertBotSetting = z.infer<typeof insertBotSettingSchema>;
+export type RaffleWinner = typeof raffleWinners.$inferSelect;
+export type ShopItemCode = typeof shopItemCodes.$inferSelect;
+export type ConversationStateRow = typeof conversationStates.$inferSelect;
+export type InsertConversationState = z.infer<typeof insertConversationStateSchema>;
+export type AdminAuditLogEntry = typeof adminAuditLog.$inferSelect;
+export type InsertAdminAuditLogEntry = z.infer<typeof insertAdminAuditLogSchema>;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type InsertLoginAttempt = z.infer<typeof insertLoginAttemptSchema>;
+export type AdminSession = typeof adminSessions.$inferSelect;
+export type InsertAdminSession = z.infer<typeof insertAdminSessionSchema>;
+export type Segment = typeof segments.$inferSelect;
+export type InsertSegment = z.infer<typeof insertSegmentSchema>;
+export type Broadcast = typeof broadcasts.$inferSelect;
+export type InsertBroadcast = z.infer<typeof insertBroadcastSchema>;
+export type BroadcastDelivery = typeof broadcastDeliveries.$inferSelect;
+export type BroadcastSchedule = typeof broadcastSchedules.$inferSelect;
+export type InsertBroadcastSchedule = z.infer<typeof insertBroadcastScheduleSchema>;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type InsertIdempotencyKey = z.infer<typeof insertIdempotencyKeySchema>;
+
+// Field-level diff stored with each audit entry
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Payload carried by each conversation state
+export interface ConversationPayloads {
+  expecting_invite_code: Record<string, never>;
+  expecting_raffle_quantity: { raffleId: number };
+  // The lists last shown by /raffle and /shop, so a numeric reply picks from the right one
+  browsing_raffles: { raffleIds: number[] };
+  browsing_shop: { itemIds: number[] };
+}
+export type ConversationStateName = keyof ConversationPayloads;
+export type Conversation<S extends ConversationStateName = ConversationStateName> = {
+  [K in S]: { state: K; payload: ConversationPayloads[K]; expiresAt: Date };
+}[S];
+
+// Everything needed to re-run a raffle draw and check it produced the same winners
+export interface RaffleDrawProof {
+  algorithm: string;
+  seed: string;
+  winnerCount: number;
+  totalTickets: number;
+  entrants: { userId: number; tickets: number }[];
+  entrantsHash: string;
+  winners: { rank: number; userId: number; ticket: number }[];
+}
@@ -0,0 +1,35 @@
+import { z } from "zod";
+
+// Audience segments: which users a broadcast or export is for. Shared so the segment builder,
+// the recipient count preview and the server query all read a segment the same way.
+// Every condition that is set must match; an empty segment means every user.
+
+export const segmentCriteriaSchema = z
+  .object({
+    coinsAbove: z.number().int().min(0),
+    // Had a streak of at least two days but missed yesterday's check-in
+    streakBroken: z.literal(true),
+    joinedWithinDays: z.number().int().min(1),
+    enteredRaffleId: z.number().int().positive(),
+    boughtItemId: z.number().int().positive(),
+    // Someone signed up with their referral code
+    isReferrer: z.literal(true),
+    onboardingIncomplete: z.literal(true),
+  })
+  .partial()
+  .strict();
+
+export type SegmentCriteria = z.infer<typeof segmentCriteriaSchema>;
+
+export function describeSegment(criteria: SegmentCriteria | null | undefined): string {
+  if (!criteria) return 'All users';
+  const parts: string[] = [];
+  if (criteria.coinsAbove !== undefined) parts.push(`more than ${criteria.coinsAbove} coins`);
+  if (criteria.streakBroken) parts.push('streak broke');
+  if (criteria.joinedWithinDays !== undefined) parts.push(`joined in the last ${criteria.joinedWithinDays} days`);
+  if (criteria.enteredRaffleId !== undefined) parts.push(`entered raffle #${criteria.enteredRaffleId}`);
+  if (criteria.boughtItemId !== undefined) parts.push(`bought item #${criteria.boughtItemId}`);
+  if (criteria.isReferrer) parts.push('referred someone');
+  if (criteria.onboardingIncomplete) parts.push("hasn't finished onboarding");
+  return parts.length > 0 ? parts.join(', ') : 'All users';
+}
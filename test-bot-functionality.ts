@@ -33,8 +33,7 @@ async function testBotFunctionality() {
       username: 'testuser',
       firstName: 'Test',
       lastName: 'User',
-      referralCode: 'TEST123',
-      coins: 0
+      referralCode: 'TEST123'
     });
     
     console.log(`✅ Created test user: @${testUser.username} (ID: ${testUser.telegramId})`);
@@ -47,8 +46,8 @@ async function testBotFunctionality() {
     
     // Simulate daily reward
     const rewardAmount = Number(settings.dailyRewardAmount) || 10;
+    await storage.awardReward(testUser.telegramId, rewardAmount, 'daily_reward', 'Daily check-in reward');
     await storage.updateUser(testUser.telegramId, {
-      coins: testUser.coins + rewardAmount,
       lastDailyReward: new Date()
     });
     
@@ -116,16 +115,12 @@ async function testBotFunctionality() {
       firstName: 'Referred',
       lastName: 'User',
       referralCode: 'REF456',
-      coins: 0,
       referredBy: testUser.telegramId
     });
     
     // Give referral reward to the referrer
     const referralReward = Number(settings.referralReward) || 5;
-    await storage.updateUser(testUser.telegramId, {
-      coins: (userAfterDaily?.coins || 0) + referralReward,
-      referralCount: 1
-    });
+    await storage.awardReward(testUser.telegramId, referralReward, 'referral', 'Referral bonus');
     
     const userAfterReferral = await storage.getUserByTelegramId(testUser.telegramId);
     console.log(`✅ Referral system working:`);
@@ -137,22 +132,7 @@ async function testBotFunctionality() {
     console.log('7. Testing Transaction Logging:');
     console.log('------------------------------');
     
-    // Create test transactions
-    await storage.createTransaction({
-      userId: testUser.id,
-      type: 'daily_reward',
-      amount: rewardAmount,
-      description: 'Daily check-in reward'
-    });
-    
-    await storage.createTransaction({
-      userId: testUser.id,
-      type: 'referral',
-      amount: referralReward,
-      description: 'Referral bonus',
-      metadata: { referredUserId: referredUser.id }
-    });
-    
+    // The daily and referral rewards above were logged as they were awarded
     const transactions = await storage.getUserTransactions(testUser.id);
     console.log(`✅ Logged ${transactions.length} transactions:`);
     transactions.forEach(tx => {
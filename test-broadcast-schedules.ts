@@ -0,0 +1,37 @@
+import { zonedTimeToDate, nextOccurrence, occurrencesBetween, type ScheduleTiming } from './shared/broadcast-schedules';
+import { check } from './test-helpers';
+
+// Checks the timezone maths behind scheduled broadcasts, including both daylight saving
+// changes in Europe/Berlin in 2026 (clocks go forward on 29 March and back on 25 October).
+
+const iso = (date: Date | null) => date?.toISOString() ?? null;
+
+function testBroadcastSchedules() {
+  console.log('=== BROADCAST SCHEDULE TEST ===\n');
+  let passed = true;
+
+  console.log('1. Wall-clock time to UTC');
+  passed = check('Berlin summer', iso(zonedTimeToDate(2026, 7, 1, 10, 0, 'Europe/Berlin')), '2026-07-01T08:00:00.000Z') && passed;
+  passed = check('New York winter', iso(zonedTimeToDate(2026, 1, 1, 10, 0, 'America/New_York')), '2026-01-01T15:00:00.000Z') && passed;
+  passed = check('Skipped hour moves later', iso(zonedTimeToDate(2026, 3, 29, 2, 30, 'Europe/Berlin')), '2026-03-29T01:30:00.000Z') && passed;
+  passed = check('Repeated hour takes the first', iso(zonedTimeToDate(2026, 10, 25, 2, 30, 'Europe/Berlin')), '2026-10-25T00:30:00.000Z') && passed;
+
+  console.log('\n2. Next send');
+  const mondays: ScheduleTiming = { repeat: 'weekly', timezone: 'Europe/Berlin', localDate: null, localTime: '10:00', weekday: 1 };
+  passed = check('Later the same Monday', iso(nextOccurrence(mondays, new Date('2026-10-19T07:59:00Z'))), '2026-10-19T08:00:00.000Z') && passed;
+  passed = check('Following Monday, after the clocks change', iso(nextOccurrence(mondays, new Date('2026-10-19T08:00:00Z'))), '2026-10-26T09:00:00.000Z') && passed;
+  const once: ScheduleTiming = { repeat: 'none', timezone: 'Asia/Tokyo', localDate: '2026-12-01', localTime: '09:15', weekday: null };
+  passed = check('One-off', iso(nextOccurrence(once, new Date('2026-11-01T00:00:00Z'))), '2026-12-01T00:15:00.000Z') && passed;
+  passed = check('One-off in the past', iso(nextOccurrence(once, new Date('2026-12-02T00:00:00Z'))), null) && passed;
+
+  console.log('\n3. Calendar');
+  const daily: ScheduleTiming = { ...mondays, repeat: 'daily', weekday: null };
+  const sends = occurrencesBetween(daily, new Date('2026-10-24T00:00:00Z'), new Date('2026-10-27T00:00:00Z'));
+  passed = check('Sends in three days', sends.length, 3) && passed;
+  passed = check('Still 10:00 local after the change', iso(sends[1]), '2026-10-25T09:00:00.000Z') && passed;
+
+  console.log(`\n${passed ? '✅ All broadcast schedule checks passed' : '❌ Some broadcast schedule checks failed'}`);
+  process.exit(passed ? 0 : 1);
+}
+
+testBroadcastSchedules();
@@ -0,0 +1,190 @@
+import { storage } from './server/storage';
+import { db } from './server/db';
+import { runOnce, TELEGRAM_CALLBACK_SCOPE } from './server/idempotency';
+import { users, transactions, ledgerEntries, raffles, raffleEntries, shopItems, purchases, shopItemCodes, idempotencyKeys } from './shared/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { check } from './test-helpers';
+
+// Fires many purchases at once for the same user and checks that coins, stock,
+// raffle entries and ledger rows all agree afterwards, and that a cancelled order
+// is refunded exactly once, no voucher code is handed out twice or refunded once
+// delivered, and a callback delivered many times only pays once. Test users are
+// funded through the ledger, so their balances must still reconcile at the end.
+const PARALLEL_REQUESTS = 10;
+
+async function fireConcurrently<T>(task: () => Promise<T>) {
+  const results = await Promise.allSettled(Array.from({ length: PARALLEL_REQUESTS }, task));
+  const succeeded = results.filter(r => r.status === 'fulfilled').length;
+  const reasons = results
+    .filter((r): r is PromiseRejectedResult => r.status === 'rejected')
+    .map(r => r.reason?.message);
+  return { succeeded, reasons };
+}
+
+async function testConcurrentPurchases() {
+  console.log('=== CONCURRENT PURCHASE TEST ===\n');
+
+  const suffix = Date.now();
+  const itemCost = 10;
+  const entryCost = 5;
+  let allPassed = true;
+
+  // 3 items' worth of coins, but only 2 in stock: stock must be the limit
+  const buyer = await storage.createUser({
+    telegramId: `concurrency_test_${suffix}`,
+    username: 'concurrency_test',
+    referralCode: `CT${suffix}`,
+  });
+  const item = await storage.createShopItem({
+    name: `Concurrency Test Item ${suffix}`,
+    cost: itemCost,
+    stock: 2,
+  });
+
+  // 4 tickets' worth of coins, raffle capped at 3 entries: the cap must be the limit
+  const entrant = await storage.createUser({
+    telegramId: `concurrency_test_raffle_${suffix}`,
+    username: 'concurrency_test_raffle',
+    referralCode: `CTR${suffix}`,
+  });
+  const raffle = await storage.createRaffle({
+    title: `Concurrency Test Raffle ${suffix}`,
+    prizeDescription: 'Nothing',
+    entryCost,
+    maxEntries: 3,
+    endDate: new Date(Date.now() + 60 * 60 * 1000),
+  });
+
+  // Plenty of coins, but only 3 codes: every code must go to exactly one purchase
+  const codeBuyer = await storage.createUser({
+    telegramId: `concurrency_test_codes_${suffix}`,
+    username: 'concurrency_test_codes',
+    referralCode: `CTC${suffix}`,
+  });
+  const codeItem = await storage.createShopItem({
+    name: `Concurrency Test Voucher ${suffix}`,
+    cost: itemCost,
+  });
+  await storage.addShopItemCodes(codeItem.id, ['CODE-A', 'CODE-B', 'CODE-C']);
+
+  await storage.adjustCoins(buyer.id, itemCost * 3, 'Concurrency test funds');
+  await storage.adjustCoins(entrant.id, entryCost * 4, 'Concurrency test funds');
+  await storage.adjustCoins(codeBuyer.id, itemCost * PARALLEL_REQUESTS, 'Concurrency test funds');
+  const testUserIds = [buyer.id, entrant.id, codeBuyer.id];
+
+  try {
+    console.log(`1. ${PARALLEL_REQUESTS} simultaneous shop purchases (stock 2, coins for 3):`);
+    const shop = await fireConcurrently(() => storage.buyShopItem(buyer.telegramId, item.id));
+    console.log(`   Rejections: ${shop.reasons.join(', ')}`);
+
+    const buyerAfter = await storage.getUserByTelegramId(buyer.telegramId);
+    const itemAfter = (await storage.getAllShopItems()).find(i => i.id === item.id);
+    const buyerPurchases = await storage.getUserPurchases(buyer.id);
+    const buyerTransactions = (await storage.getUserTransactions(buyer.id)).filter(t => t.type === 'shop_purchase');
+
+    allPassed = check('Successful purchases', shop.succeeded, 2) && allPassed;
+    allPassed = check('Remaining coins', buyerAfter?.coins, itemCost) && allPassed;
+    allPassed = check('Remaining stock', itemAfter?.stock, 0) && allPassed;
+    allPassed = check('Purchase rows', buyerPurchases.length, 2) && allPassed;
+    allPassed = check('Ledger rows', buyerTransactions.length, 2) && allPassed;
+
+    console.log(`\n2. ${PARALLEL_REQUESTS} simultaneous raffle entries (cap 3, coins for 4):`);
+    const entries = await fireConcurrently(() => storage.buyRaffleEntries(entrant.telegramId, raffle.id));
+    console.log(`   Rejections: ${entries.reasons.join(', ')}`);
+
+    const entrantAfter = await storage.getUserByTelegramId(entrant.telegramId);
+    const raffleAfter = await storage.getRaffleById(raffle.id);
+    const entrantTransactions = (await storage.getUserTransactions(entrant.id)).filter(t => t.type === 'raffle_entry');
+    const ticketCount = (await storage.getRaffleEntries(raffle.id)).reduce((acc, e) => acc + e.entries, 0);
+
+    allPassed = check('Successful entries', entries.succeeded, 3) && allPassed;
+    allPassed = check('Remaining coins', entrantAfter?.coins, entryCost) && allPassed;
+    allPassed = check('Raffle currentEntries', raffleAfter?.currentEntries, 3) && allPassed;
+    allPassed = check('Tickets recorded', ticketCount, 3) && allPassed;
+    allPassed = check('Entry rows', (await storage.getRaffleEntries(raffle.id)).length, 1) && allPassed;
+    allPassed = check('Ledger rows', entrantTransactions.length, 3) && allPassed;
+
+    console.log(`\n3. ${PARALLEL_REQUESTS} simultaneous cancellations of one order:`);
+    const cancels = await fireConcurrently(() => storage.cancelPurchase(buyerPurchases[0].id));
+    console.log(`   Rejections: ${cancels.reasons.join(', ')}`);
+
+    const buyerRefunded = await storage.getUserByTelegramId(buyer.telegramId);
+    const itemRestocked = (await storage.getAllShopItems()).find(i => i.id === item.id);
+    const refundTransactions = (await storage.getUserTransactions(buyer.id)).filter(t => t.type === 'shop_refund');
+
+    allPassed = check('Successful cancellations', cancels.succeeded, 1) && allPassed;
+    allPassed = check('Coins after refund', buyerRefunded?.coins, itemCost * 2) && allPassed;
+    allPassed = check('Stock after refund', itemRestocked?.stock, 1) && allPassed;
+    allPassed = check('Refund ledger rows', refundTransactions.length, 1) && allPassed;
+
+    console.log(`\n4. ${PARALLEL_REQUESTS} simultaneous code purchases (3 codes):`);
+    const codeResults = await Promise.allSettled(
+      Array.from({ length: PARALLEL_REQUESTS }, () => storage.buyShopItem(codeBuyer.telegramId, codeItem.id))
+    );
+    const deliveredCodes = codeResults
+      .filter(r => r.status === 'fulfilled')
+      .map(r => (r as PromiseFulfilledResult<Awaited<ReturnType<typeof storage.buyShopItem>>>).value.code?.code);
+    const codeItemAfter = (await storage.getAllShopItems()).find(i => i.id === codeItem.id);
+
+    allPassed = check('Successful code purchases', deliveredCodes.length, 3) && allPassed;
+    allPassed = check('Distinct codes delivered', new Set(deliveredCodes).size, 3) && allPassed;
+    allPassed = check('Remaining code stock', codeItemAfter?.stock, 0) && allPassed;
+
+    console.log('\n5. Cancelling an order that delivered a code:');
+    const [codePurchase] = await storage.getUserPurchases(codeBuyer.id);
+    const codeBuyerBefore = await storage.getUserByTelegramId(codeBuyer.telegramId);
+    const codeCancel = await storage.cancelPurchase(codePurchase.id).then(() => 'cancelled', (error: Error) => error.message);
+    const codeBuyerAfter = await storage.getUserByTelegramId(codeBuyer.telegramId);
+    const [codeStillAssigned] = await db.select().from(shopItemCodes).where(eq(shopItemCodes.purchaseId, codePurchase.id));
+
+    allPassed = check('Cancellation', codeCancel, 'Orders that delivered a code cannot be cancelled') && allPassed;
+    allPassed = check('Coins unchanged', codeBuyerAfter?.coins, codeBuyerBefore?.coins) && allPassed;
+    allPassed = check('Code still assigned', !!codeStillAssigned, true) && allPassed;
+
+    console.log(`\n6. The same bot callback delivered ${PARALLEL_REQUESTS} times at once:`);
+    const callbackId = `concurrency_test_${suffix}`;
+    const deliveries = await fireConcurrently(() => runOnce(TELEGRAM_CALLBACK_SCOPE, callbackId, 'daily_checkin', async () => {
+      const { user } = await storage.adjustCoins(entrant.id, 1, 'Concurrency test callback');
+      return { text: `Balance: ${user.coins}` };
+    }));
+    const callbackTransactions = (await storage.getUserTransactions(entrant.id)).filter(t => t.description === 'Concurrency test callback');
+    const replayed = await runOnce(TELEGRAM_CALLBACK_SCOPE, callbackId, 'daily_checkin', async () => ({ text: 'ran again' }));
+
+    allPassed = check('Deliveries without errors', deliveries.succeeded, PARALLEL_REQUESTS) && allPassed;
+    allPassed = check('Coins paid', callbackTransactions.length, 1) && allPassed;
+    allPassed = check('Later delivery gets the first answer', replayed?.text, `Balance: ${entryCost + 1}`) && allPassed;
+
+    console.log('\n7. Ledger reconciliation:');
+    const mismatches = (await storage.getBalanceMismatches()).filter(m => testUserIds.includes(m.userId));
+    allPassed = check('Balances that differ from the ledger', mismatches.length, 0) && allPassed;
+  } finally {
+    // Remove everything the test created
+    await db.delete(idempotencyKeys).where(and(
+      eq(idempotencyKeys.scope, TELEGRAM_CALLBACK_SCOPE),
+      eq(idempotencyKeys.key, `concurrency_test_${suffix}`),
+    ));
+    await db.delete(shopItemCodes).where(eq(shopItemCodes.itemId, codeItem.id));
+    await db.delete(purchases).where(eq(purchases.itemId, codeItem.id));
+    await db.delete(purchases).where(eq(purchases.itemId, item.id));
+    await db.delete(raffleEntries).where(eq(raffleEntries.raffleId, raffle.id));
+    await db.delete(ledgerEntries).where(inArray(
+      ledgerEntries.transactionId,
+      db.select({ id: transactions.id }).from(transactions).where(inArray(transactions.userId, testUserIds)),
+    ));
+    await db.delete(transactions).where(inArray(transactions.userId, testUserIds));
+    await db.delete(shopItems).where(eq(shopItems.id, item.id));
+    await db.delete(shopItems).where(eq(shopItems.id, codeItem.id));
+    await db.delete(raffles).where(eq(raffles.id, raffle.id));
+    await db.delete(users).where(eq(users.id, buyer.id));
+    await db.delete(users).where(eq(users.id, entrant.id));
+    await db.delete(users).where(eq(users.id, codeBuyer.id));
+  }
+
+  console.log(allPassed ? '\n✅ All concurrency checks passed' : '\n❌ Some concurrency checks failed');
+  process.exit(allPassed ? 0 : 1);
+}
+
+testConcurrentPurchases().catch(error => {
+  console.error('❌ Error running concurrency test:', error);
+  process.exit(1);
+});
@@ -0,0 +1,6 @@
+// Shared by the test-*.ts scripts: prints one ✅/❌ line and returns whether it passed
+export function check(label: string, actual: unknown, expected: unknown) {
+  const ok = actual === expected;
+  console.log(`   ${ok ? '✅' : '❌'} ${label}: ${actual}${ok ? '' : ` (expected ${expected})`}`);
+  return ok;
+}
@@ -12,6 +12,15 @@ async function testOnboarding() {
     console.log(`   Average Step: ${stats.averageStep}`);
     console.log(`   Completion Rate: ${stats.totalUsers > 0 ? Math.round((stats.completedOnboarding / stats.totalUsers) * 100) : 0}%\n`);
     
+    // Show where users drop off in the tutorial
+    const funnel = await storage.getOnboardingFunnel();
+    console.log('🪜 Tutorial Funnel:');
+    console.log(`   Not started: ${funnel.notStarted}`);
+    for (const step of funnel.steps) {
+      console.log(`   ${step.step}. ${step.title.padEnd(16)} reached: ${step.reached}, stopped here: ${step.droppedHere}`);
+    }
+    console.log(`   Finished: ${funnel.completed}\n`);
+    
     // List users and their onboarding status
     const users = await storage.getAllUsers();
     console.log('👥 User Onboarding Status:');
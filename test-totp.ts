@@ -0,0 +1,47 @@
+import { base32Encode, base32Decode, generateTotp, verifyTotp, getTimeStep, generateRecoveryCodes, hashRecoveryCode } from './server/totp';
+import { check } from './test-helpers';
+
+// Checks the TOTP implementation against the SHA-1 test vectors from RFC 6238, appendix B.
+// The RFC lists 8-digit codes; authenticator apps use the last 6.
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+const RFC_VECTORS: [number, string][] = [
+  [59, '94287082'],
+  [1111111109, '07081804'],
+  [1111111111, '14050471'],
+  [1234567890, '89005924'],
+  [2000000000, '69279037'],
+  [20000000000, '65353130'],
+];
+
+function testTotp() {
+  console.log('=== TOTP TEST ===\n');
+  let passed = true;
+
+  console.log('1. Base32 round trip');
+  passed = check('Decoded secret', base32Decode(RFC_SECRET).toString(), '12345678901234567890') && passed;
+
+  console.log('\n2. RFC 6238 test vectors');
+  for (const [seconds, code] of RFC_VECTORS) {
+    passed = check(`T=${seconds}`, generateTotp(RFC_SECRET, seconds * 1000), code.slice(-6)) && passed;
+  }
+
+  console.log('\n3. Verification window');
+  const now = 1111111111 * 1000;
+  const currentStep = getTimeStep(now);
+  passed = check('Current code', verifyTotp(RFC_SECRET, '050471', now), currentStep) && passed;
+  passed = check('Previous step accepted', verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 30000), now), currentStep - 1) && passed;
+  passed = check('Two steps old rejected', verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 60000), now), null) && passed;
+  passed = check('Malformed code rejected', verifyTotp(RFC_SECRET, '12ab56', now), null) && passed;
+
+  console.log('\n4. Recovery codes');
+  const codes = generateRecoveryCodes();
+  passed = check('Codes generated', codes.length, 10) && passed;
+  passed = check('Codes unique', new Set(codes).size, 10) && passed;
+  passed = check('Hash ignores case and spacing', hashRecoveryCode(` ${codes[0].toUpperCase()} `), hashRecoveryCode(codes[0])) && passed;
+
+  console.log(`\n${passed ? '✅ All TOTP checks passed' : '❌ Some TOTP checks failed'}`);
+  process.exit(passed ? 0 : 1);
+}
+
+testTotp();